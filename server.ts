@@ -0,0 +1,36 @@
+import 'dotenv/config';
+import express from 'express';
+import path from 'path';
+import { api } from './server/routes';
+import { startScheduler } from './server/scheduler';
+
+const PORT = Number(process.env.PORT) || 3000;
+
+async function startServer() {
+  const app = express();
+
+  app.use(express.json({ limit: '50mb' }));
+  app.use('/api', api);
+
+  if (process.env.NODE_ENV !== 'production') {
+    const { createServer } = await import('vite');
+    const vite = await createServer({
+      server: { middlewareMode: true },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  } else {
+    const distPath = path.resolve('dist');
+    app.use(express.static(distPath));
+    app.get('*', (_req, res) => {
+      res.sendFile(path.join(distPath, 'index.html'));
+    });
+  }
+
+  app.listen(PORT, '0.0.0.0', () => {
+    console.log(`QueueMaster server listening on http://localhost:${PORT}`);
+  });
+  startScheduler();
+}
+
+startServer();
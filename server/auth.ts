@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { Role, Session, User } from '../src/types';
+import { isUnattended } from '../src/utils/permissions';
+import * as store from './db';
+import { HttpError } from './errors';
+
+const SESSION_COOKIE = 'qm_session';
+// Staff sign in per shift; kiosks and TVs are set up once and left running.
+const STAFF_SESSION_MS = 12 * 60 * 60 * 1000;
+const DEVICE_SESSION_MS = 365 * 24 * 60 * 60 * 1000;
+
+// --- Passwords ---
+
+const KEY_LENGTH = 64;
+
+export function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// --- Sessions ---
+
+interface ActiveSession {
+  token: string;
+  user: User;
+}
+
+function readCookie(req: Request, name: string) {
+  const pair = (req.headers.cookie ?? '').split(';').map(part => part.trim()).find(part => part.startsWith(`${name}=`));
+  return pair ? decodeURIComponent(pair.slice(name.length + 1)) : undefined;
+}
+
+function sessionFromRequest(req: Request): ActiveSession | undefined {
+  const token = readCookie(req, SESSION_COOKIE);
+  const record = token ? store.getSessionRecord(token) : undefined;
+  if (!record || record.expiresAt < Date.now()) return undefined;
+  const user = store.getUser(record.userId);
+  if (!user?.active) return undefined;
+  return { token: record.token, user };
+}
+
+export function login(res: Response, username: string, password: string): Session {
+  const credentials = store.getUserCredentials(username.trim());
+  if (!credentials || !verifyPassword(password, credentials.passwordHash)) {
+    throw new HttpError(401, 'Usuario o contraseña incorrectos');
+  }
+  if (!credentials.user.active) throw new HttpError(403, 'El usuario está desactivado');
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const maxAge = isUnattended(credentials.user.role) ? DEVICE_SESSION_MS : STAFF_SESSION_MS;
+  store.insertSession({ token, userId: credentials.user.id, expiresAt: Date.now() + maxAge });
+  res.cookie(SESSION_COOKIE, token, { httpOnly: true, sameSite: 'lax', maxAge });
+  return publicSession(credentials.user);
+}
+
+// End the request's session, if any, and return whose it was.
+export function logout(req: Request, res: Response) {
+  const session = sessionFromRequest(req);
+  if (session) store.deleteSession(session.token);
+  res.clearCookie(SESSION_COOKIE);
+  return session?.user.id;
+}
+
+/** Route guard: only signed-in users with one of `roles` get through; the session is left in res.locals. */
+export const allow = (...roles: Role[]) => (req: Request, res: Response, next: NextFunction) => {
+  const session = sessionFromRequest(req);
+  if (!session) throw new HttpError(401, 'Inicie sesión para continuar');
+  if (!roles.includes(session.user.role)) throw new HttpError(403, 'No tiene permiso para esta acción');
+  res.locals.session = session;
+  next();
+};
+
+export const sessionOf = (res: Response) => res.locals.session as ActiveSession;
+
+export const ALL_ROLES: Role[] = ['admin', 'supervisor', 'advisor', 'kiosk', 'display'];
+
+// The counter comes from the counters themselves, so taking over a counter signs the previous advisor out of it.
+export const publicSession = (user: User): Session => ({
+  user,
+  counterId: store.getCounters().find(c => c.userId === user.id)?.id,
+});
+
+// A fresh database gets one administrator so somebody can sign in and create the rest.
+if (store.getUsers().length === 0) {
+  const password = process.env.ADMIN_PASSWORD || 'admin';
+  const admin: User = { id: crypto.randomUUID(), username: 'admin', name: 'Administrador', role: 'admin', active: true };
+  store.insertUser(admin, hashPassword(password));
+  if (!process.env.ADMIN_PASSWORD) console.warn('Usuario "admin" creado con la contraseña "admin". Cámbiela desde Admin.');
+}
@@ -0,0 +1,1092 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AppSettings, AppState, Appointment, Branch, BusinessDay, Category, Counter, CounterBreak, DisplayProfile, Role, SurveyResponse, Ticket, TicketEvent, User } from '../src/types';
+import { parseSettingsSection } from './settings';
+
+// The branch a fresh database starts with.
+const DEFAULT_BRANCH: Branch = { id: '1', name: 'Sucursal Principal' };
+
+const DEFAULT_CATEGORIES: Category[] = [
+  { id: '1', branchId: '1', name: 'General', prefix: 'G', color: '#3b82f6', priority: 1, maxWaitMinutes: 15, maxServiceMinutes: 10 },
+  { id: '2', branchId: '1', name: 'Preferencial', prefix: 'P', color: '#ef4444', priority: 2, maxWaitMinutes: 10, maxServiceMinutes: 15 },
+  { id: '3', branchId: '1', name: 'Caja', prefix: 'C', color: '#10b981', priority: 1, maxWaitMinutes: 15, maxServiceMinutes: 5 },
+];
+
+const DEFAULT_COUNTERS: Counter[] = [
+  { id: 1, branchId: '1', name: 'Ventanilla 1', status: 'idle', categoryIds: [] },
+  { id: 2, branchId: '1', name: 'Ventanilla 2', status: 'idle', categoryIds: [] },
+  { id: 3, branchId: '1', name: 'Ventanilla 3', status: 'idle', categoryIds: [] },
+];
+
+const DEFAULT_SETTINGS: AppSettings = {
+  queue: { policy: 'strict', agingMinutesPerLevel: 15, noShowGraceMinutes: 10, slaTargetPercent: 90 },
+  announcements: { enabled: true, chime: true, volume: 1, lang: 'es-ES', voiceURI: '', repeat: 1 },
+  printing: {
+    enabled: false,
+    target: 'browser',
+    host: '',
+    port: 9100,
+    branchName: 'QueueMaster Pro',
+    headerText: 'Bienvenido',
+    footerText: 'Por favor, espere a ser llamado en la pantalla principal.',
+    showEstimate: true,
+    showQr: true,
+  },
+  schedule: {
+    enforceHours: true,
+    week: [
+      { open: '08:00', close: '17:00' },
+      { open: '08:00', close: '17:00' },
+      { open: '08:00', close: '17:00' },
+      { open: '08:00', close: '17:00' },
+      { open: '08:00', close: '17:00' },
+      { open: '09:00', close: '13:00' },
+      null,
+    ],
+    holidays: [],
+  },
+  appointments: { slotMinutes: 15, slotCapacity: 1, earlyCheckInMinutes: 60, lateToleranceMinutes: 10, missedAfterMinutes: 30 },
+};
+
+const DATABASE_PATH = process.env.DATABASE_PATH || path.join('data', 'queuemaster.db');
+
+fs.mkdirSync(path.dirname(DATABASE_PATH), { recursive: true });
+
+export const db = new Database(DATABASE_PATH);
+db.pragma('journal_mode = WAL');
+db.pragma('foreign_keys = ON');
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS branches (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS categories (
+    id TEXT PRIMARY KEY,
+    branch_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    prefix TEXT NOT NULL,
+    color TEXT NOT NULL,
+    priority INTEGER NOT NULL DEFAULT 1,
+    max_wait_minutes INTEGER NOT NULL DEFAULT 15,
+    max_service_minutes INTEGER NOT NULL DEFAULT 10,
+    translations TEXT,
+    next_number INTEGER NOT NULL DEFAULT 1,
+    position INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS counters (
+    id INTEGER PRIMARY KEY,
+    branch_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'idle',
+    current_ticket_id TEXT,
+    category_ids TEXT NOT NULL DEFAULT '[]',
+    user_id TEXT,
+    away_reason TEXT,
+    away_since INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS display_profiles (
+    id TEXT PRIMARY KEY,
+    branch_id TEXT NOT NULL,
+    name TEXT NOT NULL,
+    category_ids TEXT NOT NULL DEFAULT '[]',
+    counter_ids TEXT NOT NULL DEFAULT '[]',
+    ticker_messages TEXT NOT NULL DEFAULT '[]',
+    history_rows INTEGER NOT NULL,
+    background_color TEXT NOT NULL,
+    accent_color TEXT NOT NULL,
+    logo_url TEXT NOT NULL DEFAULT '',
+    media_urls TEXT NOT NULL DEFAULT '[]',
+    slide_seconds INTEGER NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0
+  );
+
+  CREATE TABLE IF NOT EXISTS counter_breaks (
+    id TEXT PRIMARY KEY,
+    counter_id INTEGER NOT NULL,
+    user_id TEXT,
+    reason TEXT NOT NULL,
+    started_at INTEGER NOT NULL,
+    ended_at INTEGER
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_counter_breaks_started_at ON counter_breaks (started_at);
+
+  CREATE TABLE IF NOT EXISTS tickets (
+    id TEXT PRIMARY KEY,
+    branch_id TEXT NOT NULL,
+    display_id TEXT NOT NULL,
+    category_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    called_at INTEGER,
+    started_at INTEGER,
+    completed_at INTEGER,
+    counter_id INTEGER,
+    target_counter_id INTEGER,
+    recall_count INTEGER NOT NULL DEFAULT 0,
+    recalled_at INTEGER,
+    transfers TEXT,
+    actors TEXT,
+    appointment_id TEXT,
+    appointment_at INTEGER
+  );
+
+  CREATE TABLE IF NOT EXISTS appointments (
+    id TEXT PRIMARY KEY,
+    code TEXT NOT NULL UNIQUE,
+    category_id TEXT NOT NULL,
+    scheduled_at INTEGER NOT NULL,
+    customer_name TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    created_by TEXT,
+    checked_in_at INTEGER,
+    ticket_id TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_appointments_scheduled_at ON appointments (scheduled_at);
+
+  CREATE INDEX IF NOT EXISTS idx_tickets_status ON tickets (status);
+  CREATE INDEX IF NOT EXISTS idx_tickets_created_at ON tickets (created_at);
+  CREATE INDEX IF NOT EXISTS idx_tickets_branch_called_at ON tickets (branch_id, called_at);
+  CREATE INDEX IF NOT EXISTS idx_tickets_branch_created_at ON tickets (branch_id, created_at);
+
+  CREATE TABLE IF NOT EXISTS ticket_events (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    ticket_id TEXT NOT NULL,
+    branch_id TEXT NOT NULL,
+    type TEXT NOT NULL,
+    at INTEGER NOT NULL,
+    counter_id INTEGER,
+    user_id TEXT,
+    ticket_before TEXT,
+    ticket_after TEXT NOT NULL,
+    counter_before TEXT,
+    counter_after TEXT,
+    undoes TEXT
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_ticket_events_ticket_id ON ticket_events (ticket_id);
+  CREATE INDEX IF NOT EXISTS idx_ticket_events_branch_seq ON ticket_events (branch_id, seq);
+
+  CREATE TABLE IF NOT EXISTS survey_responses (
+    id TEXT PRIMARY KEY,
+    ticket_id TEXT NOT NULL UNIQUE,
+    branch_id TEXT NOT NULL,
+    category_id TEXT NOT NULL,
+    counter_id INTEGER,
+    user_id TEXT,
+    rating INTEGER NOT NULL,
+    reasons TEXT NOT NULL DEFAULT '[]',
+    channel TEXT NOT NULL,
+    submitted_at INTEGER NOT NULL
+  );
+
+  -- The log is append-only: events are only ever removed, a branch's at a time, when its history is cleared.
+  CREATE TRIGGER IF NOT EXISTS ticket_events_append_only BEFORE UPDATE ON ticket_events
+  BEGIN
+    SELECT RAISE(ABORT, 'ticket_events is append-only');
+  END;
+
+  CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS users (
+    id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    name TEXT NOT NULL,
+    role TEXT NOT NULL,
+    branch_id TEXT,
+    password_hash TEXT NOT NULL,
+    active INTEGER NOT NULL DEFAULT 1
+  );
+
+  CREATE TABLE IF NOT EXISTS sessions (
+    token TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users (id) ON DELETE CASCADE,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS business_days (
+    branch_id TEXT NOT NULL,
+    date TEXT NOT NULL,
+    opened_at INTEGER NOT NULL,
+    closed_at INTEGER,
+    PRIMARY KEY (branch_id, date)
+  );
+`);
+
+// --- Row mapping ---
+
+interface BranchRow {
+  id: string;
+  name: string;
+}
+
+interface CategoryRow {
+  id: string;
+  branch_id: string;
+  name: string;
+  prefix: string;
+  color: string;
+  priority: number;
+  max_wait_minutes: number;
+  max_service_minutes: number;
+  translations: string | null;
+  next_number: number;
+}
+
+interface CounterRow {
+  id: number;
+  branch_id: string;
+  name: string;
+  status: Counter['status'];
+  current_ticket_id: string | null;
+  category_ids: string;
+  user_id: string | null;
+  away_reason: Counter['awayReason'] | null;
+  away_since: number | null;
+}
+
+interface DisplayProfileRow {
+  id: string;
+  branch_id: string;
+  name: string;
+  category_ids: string;
+  counter_ids: string;
+  ticker_messages: string;
+  history_rows: number;
+  background_color: string;
+  accent_color: string;
+  logo_url: string;
+  media_urls: string;
+  slide_seconds: number;
+}
+
+interface TicketRow {
+  id: string;
+  branch_id: string;
+  display_id: string;
+  category_id: string;
+  status: Ticket['status'];
+  created_at: number;
+  called_at: number | null;
+  started_at: number | null;
+  completed_at: number | null;
+  counter_id: number | null;
+  target_counter_id: number | null;
+  recall_count: number;
+  recalled_at: number | null;
+  transfers: string | null;
+  actors: string | null;
+  appointment_id: string | null;
+  appointment_at: number | null;
+}
+
+const toBranch = (row: BranchRow): Branch => ({ id: row.id, name: row.name });
+
+const toCategory = (row: CategoryRow): Category => ({
+  id: row.id,
+  branchId: row.branch_id,
+  name: row.name,
+  prefix: row.prefix,
+  color: row.color,
+  priority: row.priority,
+  maxWaitMinutes: row.max_wait_minutes,
+  maxServiceMinutes: row.max_service_minutes,
+  translations: row.translations ? JSON.parse(row.translations) : undefined,
+});
+
+const categoryParams = (c: Category) => ({
+  id: c.id,
+  branch_id: c.branchId,
+  name: c.name,
+  prefix: c.prefix,
+  color: c.color,
+  priority: c.priority,
+  max_wait_minutes: c.maxWaitMinutes,
+  max_service_minutes: c.maxServiceMinutes,
+  translations: c.translations ? JSON.stringify(c.translations) : null,
+});
+
+const toCounter = (row: CounterRow): Counter => ({
+  id: row.id,
+  branchId: row.branch_id,
+  name: row.name,
+  status: row.status,
+  currentTicketId: row.current_ticket_id ?? undefined,
+  categoryIds: JSON.parse(row.category_ids),
+  userId: row.user_id ?? undefined,
+  awayReason: row.away_reason ?? undefined,
+  awaySince: row.away_since ?? undefined,
+});
+
+const toDisplayProfile = (row: DisplayProfileRow): DisplayProfile => ({
+  id: row.id,
+  branchId: row.branch_id,
+  name: row.name,
+  categoryIds: JSON.parse(row.category_ids),
+  counterIds: JSON.parse(row.counter_ids),
+  tickerMessages: JSON.parse(row.ticker_messages),
+  historyRows: row.history_rows,
+  backgroundColor: row.background_color,
+  accentColor: row.accent_color,
+  logoUrl: row.logo_url,
+  mediaUrls: JSON.parse(row.media_urls),
+  slideSeconds: row.slide_seconds,
+});
+
+const displayProfileParams = (p: DisplayProfile) => ({
+  id: p.id,
+  branch_id: p.branchId,
+  name: p.name,
+  category_ids: JSON.stringify(p.categoryIds),
+  counter_ids: JSON.stringify(p.counterIds),
+  ticker_messages: JSON.stringify(p.tickerMessages),
+  history_rows: p.historyRows,
+  background_color: p.backgroundColor,
+  accent_color: p.accentColor,
+  logo_url: p.logoUrl,
+  media_urls: JSON.stringify(p.mediaUrls),
+  slide_seconds: p.slideSeconds,
+});
+
+const counterParams = (c: Counter) => ({
+  id: c.id,
+  branch_id: c.branchId,
+  name: c.name,
+  status: c.status,
+  current_ticket_id: c.currentTicketId ?? null,
+  category_ids: JSON.stringify(c.categoryIds),
+  user_id: c.userId ?? null,
+  away_reason: c.awayReason ?? null,
+  away_since: c.awaySince ?? null,
+});
+
+interface CounterBreakRow {
+  id: string;
+  counter_id: number;
+  user_id: string | null;
+  reason: CounterBreak['reason'];
+  started_at: number;
+  ended_at: number | null;
+}
+
+const toCounterBreak = (row: CounterBreakRow): CounterBreak => ({
+  id: row.id,
+  counterId: row.counter_id,
+  userId: row.user_id ?? undefined,
+  reason: row.reason,
+  startedAt: row.started_at,
+  endedAt: row.ended_at ?? undefined,
+});
+
+const toTicket = (row: TicketRow): Ticket => ({
+  id: row.id,
+  branchId: row.branch_id,
+  displayId: row.display_id,
+  categoryId: row.category_id,
+  status: row.status,
+  createdAt: row.created_at,
+  calledAt: row.called_at ?? undefined,
+  startedAt: row.started_at ?? undefined,
+  completedAt: row.completed_at ?? undefined,
+  counterId: row.counter_id ?? undefined,
+  targetCounterId: row.target_counter_id ?? undefined,
+  recallCount: row.recall_count || undefined,
+  recalledAt: row.recalled_at ?? undefined,
+  transfers: row.transfers ? JSON.parse(row.transfers) : undefined,
+  actors: row.actors ? JSON.parse(row.actors) : undefined,
+  appointmentId: row.appointment_id ?? undefined,
+  appointmentAt: row.appointment_at ?? undefined,
+});
+
+const ticketParams = (t: Ticket) => ({
+  id: t.id,
+  branch_id: t.branchId,
+  display_id: t.displayId,
+  category_id: t.categoryId,
+  status: t.status,
+  created_at: t.createdAt,
+  called_at: t.calledAt ?? null,
+  started_at: t.startedAt ?? null,
+  completed_at: t.completedAt ?? null,
+  counter_id: t.counterId ?? null,
+  target_counter_id: t.targetCounterId ?? null,
+  recall_count: t.recallCount ?? 0,
+  recalled_at: t.recalledAt ?? null,
+  transfers: t.transfers?.length ? JSON.stringify(t.transfers) : null,
+  actors: t.actors && Object.keys(t.actors).length ? JSON.stringify(t.actors) : null,
+  appointment_id: t.appointmentId ?? null,
+  appointment_at: t.appointmentAt ?? null,
+});
+
+interface TicketEventRow {
+  seq: number;
+  id: string;
+  ticket_id: string;
+  branch_id: string;
+  type: TicketEvent['type'];
+  at: number;
+  counter_id: number | null;
+  user_id: string | null;
+  ticket_before: string | null;
+  ticket_after: string;
+  counter_before: string | null;
+  counter_after: string | null;
+  undoes: string | null;
+}
+
+const toTicketEvent = (row: TicketEventRow): TicketEvent => ({
+  id: row.id,
+  ticketId: row.ticket_id,
+  branchId: row.branch_id,
+  type: row.type,
+  at: row.at,
+  counterId: row.counter_id ?? undefined,
+  userId: row.user_id ?? undefined,
+  ticketBefore: row.ticket_before ? JSON.parse(row.ticket_before) : undefined,
+  ticketAfter: JSON.parse(row.ticket_after),
+  counterBefore: row.counter_before ? JSON.parse(row.counter_before) : undefined,
+  counterAfter: row.counter_after ? JSON.parse(row.counter_after) : undefined,
+  undoes: row.undoes ?? undefined,
+});
+
+const ticketEventParams = (e: TicketEvent) => ({
+  id: e.id,
+  ticket_id: e.ticketId,
+  branch_id: e.branchId,
+  type: e.type,
+  at: e.at,
+  counter_id: e.counterId ?? null,
+  user_id: e.userId ?? null,
+  ticket_before: e.ticketBefore ? JSON.stringify(e.ticketBefore) : null,
+  ticket_after: JSON.stringify(e.ticketAfter),
+  counter_before: e.counterBefore ? JSON.stringify(e.counterBefore) : null,
+  counter_after: e.counterAfter ? JSON.stringify(e.counterAfter) : null,
+  undoes: e.undoes ?? null,
+});
+
+interface SurveyResponseRow {
+  id: string;
+  ticket_id: string;
+  branch_id: string;
+  category_id: string;
+  counter_id: number | null;
+  user_id: string | null;
+  rating: number;
+  reasons: string;
+  channel: SurveyResponse['channel'];
+  submitted_at: number;
+}
+
+const toSurveyResponse = (row: SurveyResponseRow): SurveyResponse => ({
+  id: row.id,
+  ticketId: row.ticket_id,
+  branchId: row.branch_id,
+  categoryId: row.category_id,
+  counterId: row.counter_id ?? undefined,
+  userId: row.user_id ?? undefined,
+  rating: row.rating,
+  reasons: JSON.parse(row.reasons),
+  channel: row.channel,
+  submittedAt: row.submitted_at,
+});
+
+interface AppointmentRow {
+  id: string;
+  code: string;
+  category_id: string;
+  scheduled_at: number;
+  customer_name: string;
+  status: Appointment['status'];
+  created_at: number;
+  created_by: string | null;
+  checked_in_at: number | null;
+  ticket_id: string | null;
+}
+
+const toAppointment = (row: AppointmentRow): Appointment => ({
+  id: row.id,
+  code: row.code,
+  categoryId: row.category_id,
+  scheduledAt: row.scheduled_at,
+  customerName: row.customer_name,
+  status: row.status,
+  createdAt: row.created_at,
+  createdBy: row.created_by ?? undefined,
+  checkedInAt: row.checked_in_at ?? undefined,
+  ticketId: row.ticket_id ?? undefined,
+});
+
+const appointmentParams = (a: Appointment) => ({
+  id: a.id,
+  code: a.code,
+  category_id: a.categoryId,
+  scheduled_at: a.scheduledAt,
+  customer_name: a.customerName,
+  status: a.status,
+  created_at: a.createdAt,
+  created_by: a.createdBy ?? null,
+  checked_in_at: a.checkedInAt ?? null,
+  ticket_id: a.ticketId ?? null,
+});
+
+interface UserRow {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+  branch_id: string | null;
+  password_hash: string;
+  active: number;
+}
+
+interface SessionRow {
+  token: string;
+  user_id: string;
+  expires_at: number;
+}
+
+const toUser = (row: UserRow): User => ({
+  id: row.id,
+  username: row.username,
+  name: row.name,
+  role: row.role,
+  branchId: row.branch_id ?? undefined,
+  active: row.active === 1,
+});
+
+const userParams = (user: User) => ({
+  id: user.id,
+  username: user.username,
+  name: user.name,
+  role: user.role,
+  branch_id: user.branchId ?? null,
+  active: user.active ? 1 : 0,
+});
+
+interface BusinessDayRow {
+  branch_id: string;
+  date: string;
+  opened_at: number;
+  closed_at: number | null;
+}
+
+const toBusinessDay = (row: BusinessDayRow): BusinessDay => ({
+  branchId: row.branch_id,
+  date: row.date,
+  openedAt: row.opened_at,
+  closedAt: row.closed_at ?? undefined,
+});
+
+// --- Queries ---
+
+const statements = {
+  allBranches: db.prepare<[], BranchRow>('SELECT * FROM branches ORDER BY position, rowid'),
+  getBranch: db.prepare<[string], BranchRow>('SELECT * FROM branches WHERE id = ?'),
+  insertBranch: db.prepare('INSERT INTO branches (id, name, position) VALUES (@id, @name, (SELECT COALESCE(MAX(position), -1) + 1 FROM branches))'),
+  updateBranch: db.prepare('UPDATE branches SET name = @name WHERE id = @id'),
+  deleteBranch: db.prepare<[string]>('DELETE FROM branches WHERE id = ?'),
+  deleteAllBranches: db.prepare('DELETE FROM branches'),
+
+  allCategories: db.prepare<[], CategoryRow>('SELECT * FROM categories ORDER BY position, rowid'),
+  getCategory: db.prepare<[string], CategoryRow>('SELECT * FROM categories WHERE id = ?'),
+  insertCategory: db.prepare(
+    'INSERT INTO categories (id, branch_id, name, prefix, color, priority, max_wait_minutes, max_service_minutes, translations, next_number, position) VALUES (@id, @branch_id, @name, @prefix, @color, @priority, @max_wait_minutes, @max_service_minutes, @translations, @next_number, (SELECT COALESCE(MAX(position), -1) + 1 FROM categories))'
+  ),
+  updateCategory: db.prepare(
+    'UPDATE categories SET name = @name, prefix = @prefix, color = @color, priority = @priority, max_wait_minutes = @max_wait_minutes, max_service_minutes = @max_service_minutes, translations = @translations WHERE id = @id'
+  ),
+  deleteCategory: db.prepare<[string]>('DELETE FROM categories WHERE id = ?'),
+  deleteAllCategories: db.prepare('DELETE FROM categories'),
+  setNextNumber: db.prepare<[number, string]>('UPDATE categories SET next_number = ? WHERE id = ?'),
+  resetNextNumbers: db.prepare<[string]>('UPDATE categories SET next_number = 1 WHERE branch_id = ?'),
+
+  allCounters: db.prepare<[], CounterRow>('SELECT * FROM counters ORDER BY id'),
+  getCounter: db.prepare<[number], CounterRow>('SELECT * FROM counters WHERE id = ?'),
+  insertCounter: db.prepare(
+    'INSERT INTO counters (id, branch_id, name, status, current_ticket_id, category_ids, user_id, away_reason, away_since) VALUES (@id, @branch_id, @name, @status, @current_ticket_id, @category_ids, @user_id, @away_reason, @away_since)'
+  ),
+  deleteCounter: db.prepare<[number]>('DELETE FROM counters WHERE id = ?'),
+  deleteAllCounters: db.prepare('DELETE FROM counters'),
+  updateCounter: db.prepare(
+    'UPDATE counters SET name = @name, status = @status, current_ticket_id = @current_ticket_id, category_ids = @category_ids, user_id = @user_id, away_reason = @away_reason, away_since = @away_since WHERE id = @id'
+  ),
+  // Ids are never reused, so the history of a removed counter is not credited to a new one.
+  nextCounterId: db.prepare<[], { id: number }>(`
+    SELECT COALESCE(MAX(id), 0) + 1 AS id FROM (
+      SELECT MAX(id) AS id FROM counters
+      UNION ALL SELECT MAX(counter_id) FROM tickets
+      UNION ALL SELECT MAX(counter_id) FROM counter_breaks
+    )
+  `),
+
+  allDisplayProfiles: db.prepare<[], DisplayProfileRow>('SELECT * FROM display_profiles ORDER BY position, rowid'),
+  getDisplayProfile: db.prepare<[string], DisplayProfileRow>('SELECT * FROM display_profiles WHERE id = ?'),
+  insertDisplayProfile: db.prepare(`
+    INSERT INTO display_profiles (id, branch_id, name, category_ids, counter_ids, ticker_messages, history_rows, background_color, accent_color, logo_url, media_urls, slide_seconds, position)
+    VALUES (@id, @branch_id, @name, @category_ids, @counter_ids, @ticker_messages, @history_rows, @background_color, @accent_color, @logo_url, @media_urls, @slide_seconds, (SELECT COALESCE(MAX(position), -1) + 1 FROM display_profiles))
+  `),
+  updateDisplayProfile: db.prepare(`
+    UPDATE display_profiles SET name = @name, category_ids = @category_ids, counter_ids = @counter_ids, ticker_messages = @ticker_messages, history_rows = @history_rows,
+      background_color = @background_color, accent_color = @accent_color, logo_url = @logo_url, media_urls = @media_urls, slide_seconds = @slide_seconds
+    WHERE id = @id
+  `),
+  deleteDisplayProfile: db.prepare<[string]>('DELETE FROM display_profiles WHERE id = ?'),
+  deleteAllDisplayProfiles: db.prepare('DELETE FROM display_profiles'),
+
+  allCounterBreaks: db.prepare<[], CounterBreakRow>('SELECT * FROM counter_breaks ORDER BY started_at'),
+  openCounterBreaks: db.prepare<[], CounterBreakRow>('SELECT * FROM counter_breaks WHERE ended_at IS NULL'),
+  upsertCounterBreak: db.prepare(`
+    INSERT INTO counter_breaks (id, counter_id, user_id, reason, started_at, ended_at)
+    VALUES (@id, @counter_id, @user_id, @reason, @started_at, @ended_at)
+    ON CONFLICT (id) DO UPDATE SET ended_at = excluded.ended_at
+  `),
+  deleteBranchCounterBreaks: db.prepare<[string]>(
+    'DELETE FROM counter_breaks WHERE counter_id IN (SELECT id FROM counters WHERE branch_id = ?)',
+  ),
+
+  allTickets: db.prepare<[], TicketRow>('SELECT * FROM tickets ORDER BY created_at'),
+  getTicket: db.prepare<[string], TicketRow>('SELECT * FROM tickets WHERE id = ?'),
+  ticketsByStatus: db.prepare<[string], TicketRow>('SELECT * FROM tickets WHERE status = ? ORDER BY created_at'),
+  activeBranchTickets: db.prepare<[string], TicketRow>("SELECT * FROM tickets WHERE branch_id = ? AND status IN ('waiting', 'calling', 'serving') ORDER BY created_at"),
+  branchTicketsSince: db.prepare<[string, number], TicketRow>('SELECT * FROM tickets WHERE branch_id = ? AND created_at >= ? ORDER BY created_at'),
+  recentCalls: db.prepare<[string, number], TicketRow>('SELECT * FROM tickets WHERE branch_id = ? AND called_at IS NOT NULL ORDER BY called_at DESC LIMIT ?'),
+  upsertTicket: db.prepare(`
+    INSERT INTO tickets (id, branch_id, display_id, category_id, status, created_at, called_at, started_at, completed_at, counter_id, target_counter_id, recall_count, recalled_at, transfers, actors, appointment_id, appointment_at)
+    VALUES (@id, @branch_id, @display_id, @category_id, @status, @created_at, @called_at, @started_at, @completed_at, @counter_id, @target_counter_id, @recall_count, @recalled_at, @transfers, @actors, @appointment_id, @appointment_at)
+    ON CONFLICT (id) DO UPDATE SET
+      branch_id = excluded.branch_id,
+      display_id = excluded.display_id,
+      category_id = excluded.category_id,
+      status = excluded.status,
+      created_at = excluded.created_at,
+      called_at = excluded.called_at,
+      started_at = excluded.started_at,
+      completed_at = excluded.completed_at,
+      counter_id = excluded.counter_id,
+      target_counter_id = excluded.target_counter_id,
+      recall_count = excluded.recall_count,
+      recalled_at = excluded.recalled_at,
+      transfers = excluded.transfers,
+      actors = excluded.actors,
+      appointment_id = excluded.appointment_id,
+      appointment_at = excluded.appointment_at
+  `),
+  deleteBranchTickets: db.prepare<[string]>('DELETE FROM tickets WHERE branch_id = ?'),
+  deleteTicketsByIdPrefix: db.prepare<[string, string]>('DELETE FROM tickets WHERE branch_id = ? AND instr(id, ?) = 1'),
+  anyTicket: db.prepare<[], { id: string }>('SELECT id FROM tickets LIMIT 1'),
+
+  ticketEvents: db.prepare<[string], TicketEventRow>('SELECT * FROM ticket_events WHERE ticket_id = ? ORDER BY seq'),
+  recentTicketEvents: db.prepare<[string, number], TicketEventRow>('SELECT * FROM ticket_events WHERE branch_id = ? ORDER BY seq DESC LIMIT ?'),
+  insertTicketEvent: db.prepare(`
+    INSERT INTO ticket_events (id, ticket_id, branch_id, type, at, counter_id, user_id, ticket_before, ticket_after, counter_before, counter_after, undoes)
+    VALUES (@id, @ticket_id, @branch_id, @type, @at, @counter_id, @user_id, @ticket_before, @ticket_after, @counter_before, @counter_after, @undoes)
+  `),
+  deleteBranchTicketEvents: db.prepare<[string]>('DELETE FROM ticket_events WHERE branch_id = ?'),
+
+  allSurveyResponses: db.prepare<[], SurveyResponseRow>('SELECT * FROM survey_responses ORDER BY submitted_at'),
+  surveyResponseForTicket: db.prepare<[string], SurveyResponseRow>('SELECT * FROM survey_responses WHERE ticket_id = ?'),
+  insertSurveyResponse: db.prepare(`
+    INSERT INTO survey_responses (id, ticket_id, branch_id, category_id, counter_id, user_id, rating, reasons, channel, submitted_at)
+    VALUES (@id, @ticket_id, @branch_id, @category_id, @counter_id, @user_id, @rating, @reasons, @channel, @submitted_at)
+  `),
+  deleteBranchSurveyResponses: db.prepare<[string]>('DELETE FROM survey_responses WHERE branch_id = ?'),
+
+  allAppointments: db.prepare<[], AppointmentRow>('SELECT * FROM appointments ORDER BY scheduled_at'),
+  getAppointment: db.prepare<[string], AppointmentRow>('SELECT * FROM appointments WHERE id = ?'),
+  getAppointmentByCode: db.prepare<[string], AppointmentRow>('SELECT * FROM appointments WHERE code = ?'),
+  bookedAppointmentsBefore: db.prepare<[number], AppointmentRow>("SELECT * FROM appointments WHERE status = 'booked' AND scheduled_at < ?"),
+  upsertAppointment: db.prepare(`
+    INSERT INTO appointments (id, code, category_id, scheduled_at, customer_name, status, created_at, created_by, checked_in_at, ticket_id)
+    VALUES (@id, @code, @category_id, @scheduled_at, @customer_name, @status, @created_at, @created_by, @checked_in_at, @ticket_id)
+    ON CONFLICT (id) DO UPDATE SET
+      status = excluded.status,
+      checked_in_at = excluded.checked_in_at,
+      ticket_id = excluded.ticket_id
+  `),
+  deletePastAppointments: db.prepare<[string]>(
+    "DELETE FROM appointments WHERE status != 'booked' AND category_id IN (SELECT id FROM categories WHERE branch_id = ?)",
+  ),
+
+  allSettings: db.prepare<[], { key: string; value: string }>('SELECT * FROM settings'),
+  upsertSetting: db.prepare<[string, string]>('INSERT INTO settings (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value'),
+
+  allUsers: db.prepare<[], UserRow>('SELECT * FROM users ORDER BY name'),
+  getUser: db.prepare<[string], UserRow>('SELECT * FROM users WHERE id = ?'),
+  getUserByUsername: db.prepare<[string], UserRow>('SELECT * FROM users WHERE username = ?'),
+  insertUser: db.prepare('INSERT INTO users (id, username, name, role, branch_id, password_hash, active) VALUES (@id, @username, @name, @role, @branch_id, @password_hash, @active)'),
+  updateUser: db.prepare('UPDATE users SET username = @username, name = @name, role = @role, branch_id = @branch_id, active = @active WHERE id = @id'),
+  setPassword: db.prepare<[string, string]>('UPDATE users SET password_hash = ? WHERE id = ?'),
+
+  getSession: db.prepare<[string], SessionRow>('SELECT * FROM sessions WHERE token = ?'),
+  insertSession: db.prepare('INSERT INTO sessions (token, user_id, expires_at) VALUES (@token, @user_id, @expires_at)'),
+  deleteSession: db.prepare<[string]>('DELETE FROM sessions WHERE token = ?'),
+  deleteUserSessions: db.prepare<[string]>('DELETE FROM sessions WHERE user_id = ?'),
+  deleteExpiredSessions: db.prepare<[number]>('DELETE FROM sessions WHERE expires_at < ?'),
+
+  latestBusinessDay: db.prepare<[string], BusinessDayRow>('SELECT * FROM business_days WHERE branch_id = ? ORDER BY date DESC LIMIT 1'),
+  latestBusinessDays: db.prepare<[], BusinessDayRow>(
+    'SELECT * FROM business_days d WHERE date = (SELECT MAX(date) FROM business_days WHERE branch_id = d.branch_id) ORDER BY branch_id'
+  ),
+  upsertBusinessDay: db.prepare(
+    'INSERT INTO business_days (branch_id, date, opened_at, closed_at) VALUES (@branch_id, @date, @opened_at, @closed_at) ON CONFLICT (branch_id, date) DO UPDATE SET closed_at = excluded.closed_at'
+  ),
+  deleteBusinessDays: db.prepare<[string]>('DELETE FROM business_days WHERE branch_id = ?'),
+};
+
+export const getBranches = () => statements.allBranches.all().map(toBranch);
+
+export const getBranch = (id: string) => {
+  const row = statements.getBranch.get(id);
+  return row ? toBranch(row) : undefined;
+};
+
+export const insertBranch = (branch: Branch) => {
+  statements.insertBranch.run(branch);
+};
+
+export const saveBranch = (branch: Branch) => {
+  statements.updateBranch.run(branch);
+};
+
+export const deleteBranch = (id: string) => {
+  statements.deleteBranch.run(id);
+};
+
+export const deleteAllBranches = () => {
+  statements.deleteAllBranches.run();
+};
+
+export const getCategories = () => statements.allCategories.all().map(toCategory);
+
+export const getCategory = (id: string) => {
+  const row = statements.getCategory.get(id);
+  return row ? toCategory(row) : undefined;
+};
+
+export const getNextTicketNumbers = (): Record<string, number> =>
+  Object.fromEntries(statements.allCategories.all().map(row => [row.id, row.next_number]));
+
+export const insertCategory = (category: Category, nextNumber = 1) => {
+  statements.insertCategory.run({ ...categoryParams(category), next_number: nextNumber });
+};
+
+export const saveCategory = (category: Category) => {
+  statements.updateCategory.run(categoryParams(category));
+};
+
+export const deleteCategory = (id: string) => {
+  statements.deleteCategory.run(id);
+};
+
+export const deleteAllCategories = () => {
+  statements.deleteAllCategories.run();
+};
+
+export const setNextTicketNumber = (categoryId: string, value: number) => {
+  statements.setNextNumber.run(value, categoryId);
+};
+
+export const resetTicketNumbers = (branchId: string) => {
+  statements.resetNextNumbers.run(branchId);
+};
+
+export const getCounters = () => statements.allCounters.all().map(toCounter);
+
+export const getCounter = (id: number) => {
+  const row = statements.getCounter.get(id);
+  return row ? toCounter(row) : undefined;
+};
+
+export const insertCounter = (counter: Counter) => {
+  statements.insertCounter.run(counterParams(counter));
+};
+
+export const saveCounter = (counter: Counter) => {
+  statements.updateCounter.run(counterParams(counter));
+};
+
+export const deleteCounter = (id: number) => {
+  statements.deleteCounter.run(id);
+};
+
+export const deleteAllCounters = () => {
+  statements.deleteAllCounters.run();
+};
+
+export const nextCounterId = () => statements.nextCounterId.get()!.id;
+
+export const getDisplayProfiles = () => statements.allDisplayProfiles.all().map(toDisplayProfile);
+
+export const getDisplayProfile = (id: string) => {
+  const row = statements.getDisplayProfile.get(id);
+  return row ? toDisplayProfile(row) : undefined;
+};
+
+export const insertDisplayProfile = (profile: DisplayProfile) => {
+  statements.insertDisplayProfile.run(displayProfileParams(profile));
+};
+
+export const saveDisplayProfile = (profile: DisplayProfile) => {
+  statements.updateDisplayProfile.run(displayProfileParams(profile));
+};
+
+export const deleteDisplayProfile = (id: string) => {
+  statements.deleteDisplayProfile.run(id);
+};
+
+export const deleteAllDisplayProfiles = () => {
+  statements.deleteAllDisplayProfiles.run();
+};
+
+export const getCounterBreaks = () => statements.allCounterBreaks.all().map(toCounterBreak);
+
+export const getOpenCounterBreaks = () => statements.openCounterBreaks.all().map(toCounterBreak);
+
+export const saveCounterBreak = (counterBreak: CounterBreak) => {
+  statements.upsertCounterBreak.run({
+    id: counterBreak.id,
+    counter_id: counterBreak.counterId,
+    user_id: counterBreak.userId ?? null,
+    reason: counterBreak.reason,
+    started_at: counterBreak.startedAt,
+    ended_at: counterBreak.endedAt ?? null,
+  });
+};
+
+export const deleteBranchCounterBreaks = (branchId: string) => {
+  statements.deleteBranchCounterBreaks.run(branchId);
+};
+
+export const getTickets = () => statements.allTickets.all().map(toTicket);
+
+export const getTicket = (id: string) => {
+  const row = statements.getTicket.get(id);
+  return row ? toTicket(row) : undefined;
+};
+
+export const getTicketsByStatus = (status: Ticket['status']) =>
+  statements.ticketsByStatus.all(status).map(toTicket);
+
+// One branch's tickets still waiting, being called or being served.
+export const getActiveBranchTickets = (branchId: string) => statements.activeBranchTickets.all(branchId).map(toTicket);
+
+export const getBranchTicketsSince = (branchId: string, since: number) => statements.branchTicketsSince.all(branchId, since).map(toTicket);
+
+// Latest called tickets of one branch, newest first.
+export const getRecentCalls = (branchId: string, limit: number) => statements.recentCalls.all(branchId, limit).map(toTicket);
+
+export const saveTicket = (ticket: Ticket) => {
+  statements.upsertTicket.run(ticketParams(ticket));
+};
+
+export const saveTickets = db.transaction((tickets: Ticket[]) => {
+  for (const ticket of tickets) statements.upsertTicket.run(ticketParams(ticket));
+});
+
+export const hasTickets = () => statements.anyTicket.get() !== undefined;
+
+export const deleteBranchTickets = (branchId: string) => {
+  statements.deleteBranchTickets.run(branchId);
+};
+
+export const deleteTicketsByIdPrefix = (branchId: string, prefix: string) => {
+  statements.deleteTicketsByIdPrefix.run(branchId, prefix);
+};
+
+// A ticket's events, oldest first.
+export const getTicketEvents = (ticketId: string) => statements.ticketEvents.all(ticketId).map(toTicketEvent);
+
+// Latest events of one branch, newest first.
+export const getRecentTicketEvents = (branchId: string, limit: number) => statements.recentTicketEvents.all(branchId, limit).map(toTicketEvent);
+
+export const insertTicketEvent = (event: TicketEvent) => {
+  statements.insertTicketEvent.run(ticketEventParams(event));
+};
+
+export const deleteBranchTicketEvents = (branchId: string) => {
+  statements.deleteBranchTicketEvents.run(branchId);
+};
+
+export const getSurveyResponses = () => statements.allSurveyResponses.all().map(toSurveyResponse);
+
+export const getSurveyResponseForTicket = (ticketId: string) => {
+  const row = statements.surveyResponseForTicket.get(ticketId);
+  return row ? toSurveyResponse(row) : undefined;
+};
+
+export const insertSurveyResponse = (response: SurveyResponse) => {
+  statements.insertSurveyResponse.run({
+    id: response.id,
+    ticket_id: response.ticketId,
+    branch_id: response.branchId,
+    category_id: response.categoryId,
+    counter_id: response.counterId ?? null,
+    user_id: response.userId ?? null,
+    rating: response.rating,
+    reasons: JSON.stringify(response.reasons),
+    channel: response.channel,
+    submitted_at: response.submittedAt,
+  });
+};
+
+export const deleteBranchSurveyResponses = (branchId: string) => {
+  statements.deleteBranchSurveyResponses.run(branchId);
+};
+
+export const getAppointments = () => statements.allAppointments.all().map(toAppointment);
+
+export const getAppointment = (id: string) => {
+  const row = statements.getAppointment.get(id);
+  return row ? toAppointment(row) : undefined;
+};
+
+export const getAppointmentByCode = (code: string) => {
+  const row = statements.getAppointmentByCode.get(code);
+  return row ? toAppointment(row) : undefined;
+};
+
+// Still-booked appointments whose slot started before `time`.
+export const getBookedAppointmentsBefore = (time: number) => statements.bookedAppointmentsBefore.all(time).map(toAppointment);
+
+export const saveAppointment = (appointment: Appointment) => {
+  statements.upsertAppointment.run(appointmentParams(appointment));
+};
+
+// Keeps the bookings still to come.
+export const deletePastAppointments = (branchId: string) => {
+  statements.deletePastAppointments.run(branchId);
+};
+
+// Each settings section is stored as one JSON row; missing keys fall back to the defaults.
+export const getSettings = (): AppSettings => {
+  const stored: Record<string, unknown> = Object.fromEntries(statements.allSettings.all().map(row => [row.key, JSON.parse(row.value)]));
+  // Fields added since a section was saved take their defaults
+  const section = <K extends keyof AppSettings>(key: K) =>
+    parseSettingsSection(key, { ...DEFAULT_SETTINGS[key], ...(stored[key] as Partial<AppSettings[K]> | undefined) });
+  return {
+    queue: section('queue'),
+    announcements: section('announcements'),
+    printing: section('printing'),
+    schedule: section('schedule'),
+    appointments: section('appointments'),
+  };
+};
+
+export const saveSettings = db.transaction((settings: Partial<AppSettings>) => {
+  Object.entries(settings).forEach(([key, value]) => statements.upsertSetting.run(key, JSON.stringify(value)));
+});
+
+export const getUsers = () => statements.allUsers.all().map(toUser);
+
+export const getUser = (id: string) => {
+  const row = statements.getUser.get(id);
+  return row ? toUser(row) : undefined;
+};
+
+// Includes the password hash, for signing in.
+export const getUserCredentials = (username: string) => {
+  const row = statements.getUserByUsername.get(username);
+  return row ? { user: toUser(row), passwordHash: row.password_hash } : undefined;
+};
+
+export const insertUser = (user: User, passwordHash: string) => {
+  statements.insertUser.run({ ...userParams(user), password_hash: passwordHash });
+};
+
+export const saveUser = (user: User) => {
+  statements.updateUser.run(userParams(user));
+};
+
+export const setPasswordHash = (userId: string, passwordHash: string) => {
+  statements.setPassword.run(passwordHash, userId);
+};
+
+export const getSessionRecord = (token: string) => {
+  const row = statements.getSession.get(token);
+  return row ? { token: row.token, userId: row.user_id, expiresAt: row.expires_at } : undefined;
+};
+
+export const insertSession = (session: { token: string; userId: string; expiresAt: number }) => {
+  statements.deleteExpiredSessions.run(Date.now());
+  statements.insertSession.run({ token: session.token, user_id: session.userId, expires_at: session.expiresAt });
+};
+
+export const deleteSession = (token: string) => {
+  statements.deleteSession.run(token);
+};
+
+export const deleteUserSessions = (userId: string) => {
+  statements.deleteUserSessions.run(userId);
+};
+
+export const getLatestBusinessDay = (branchId: string) => {
+  const row = statements.latestBusinessDay.get(branchId);
+  return row ? toBusinessDay(row) : null;
+};
+
+// The latest day of every branch.
+export const getLatestBusinessDays = () => statements.latestBusinessDays.all().map(toBusinessDay);
+
+export const saveBusinessDay = (day: BusinessDay) => {
+  statements.upsertBusinessDay.run({ branch_id: day.branchId, date: day.date, opened_at: day.openedAt, closed_at: day.closedAt ?? null });
+};
+
+export const deleteBusinessDays = (branchId: string) => {
+  statements.deleteBusinessDays.run(branchId);
+};
+
+export const getState = (): AppState => ({
+  branches: getBranches(),
+  categories: getCategories(),
+  counters: getCounters(),
+  displayProfiles: getDisplayProfiles(),
+  tickets: getTickets(),
+  nextTicketNumber: getNextTicketNumbers(),
+  settings: getSettings(),
+  businessDays: getLatestBusinessDays(),
+  users: getUsers(),
+  counterBreaks: getCounterBreaks(),
+  appointments: getAppointments(),
+  surveyResponses: getSurveyResponses(),
+});
+
+/**
+ * Copy the live database to a temporary file with SQLite's online backup, so writes still in the WAL are
+ * included and the copy is consistent. Resolves to the file, which the caller removes.
+ */
+export async function backupDatabase() {
+  const file = path.join(os.tmpdir(), `queuemaster-${Date.now()}.db`);
+  try {
+    await db.backup(file);
+  } catch (err) {
+    fs.rmSync(file, { force: true });
+    throw err;
+  }
+  return file;
+}
+
+// Seed a fresh database with the default branch layout.
+const isEmpty = (db.prepare('SELECT COUNT(*) AS n FROM categories').get() as { n: number }).n === 0
+  && (db.prepare('SELECT COUNT(*) AS n FROM counters').get() as { n: number }).n === 0;
+
+if (getBranches().length === 0) insertBranch(DEFAULT_BRANCH);
+
+if (isEmpty) {
+  db.transaction(() => {
+    DEFAULT_CATEGORIES.forEach(c => insertCategory(c));
+    DEFAULT_COUNTERS.forEach(insertCounter);
+  })();
+}
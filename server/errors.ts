@@ -0,0 +1,7 @@
+// Error carrying the HTTP status the API should answer with.
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
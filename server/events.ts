@@ -0,0 +1,87 @@
+import { Request, Response } from 'express';
+import { StatePatch, SyncMessage, TicketTrackingMessage, User } from '../src/types';
+import { sessionOf } from './auth';
+import { getTicketTracking } from './tracking';
+import { audienceKey, isEmptyPatch, visiblePatch } from './visibility';
+
+const HEARTBEAT_MS = 25_000;
+// Estimates drift with the clock even when nothing happens, so tracked tickets are also refreshed periodically.
+const TRACKING_REFRESH_MS = 30_000;
+
+interface Tracker {
+  ticketId: string;
+  // Last payload sent, to skip updates that change nothing for this customer.
+  last?: string;
+}
+
+// Each staff stream with the user it was opened by, whose branch and role decide what it is sent.
+const clients = new Map<Response, User>();
+const trackers = new Map<Response, Tracker>();
+
+function openStream(req: Request, res: Response, onClose: () => void) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write('retry: 3000\n\n');
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    onClose();
+  });
+}
+
+// Server-Sent Events stream shared by kiosks, advisor desks and TV screens.
+export function subscribe(req: Request, res: Response) {
+  openStream(req, res, () => clients.delete(res));
+  clients.set(res, sessionOf(res).user);
+}
+
+// Public stream for a single ticket: carries only that ticket's tracking view, never state patches.
+export function subscribeTicket(req: Request, res: Response, ticketId: string) {
+  openStream(req, res, () => trackers.delete(res));
+  const tracker = { ticketId };
+  trackers.set(res, tracker);
+  // A new connection only gets its own ticket; the others are up to date
+  refreshTrackers(new Map([[res, tracker]]));
+}
+
+// One read per branch with tracked tickets, however many customers follow them.
+function refreshTrackers(targets: Map<Response, Tracker> = trackers) {
+  if (targets.size === 0) return;
+  const views = getTicketTracking([...new Set([...targets.values()].map(t => t.ticketId))]);
+  targets.forEach((tracker, res) => {
+    const message: TicketTrackingMessage = { ticket: views.get(tracker.ticketId) ?? null };
+    const payload = JSON.stringify(message);
+    if (payload === tracker.last) return;
+    tracker.last = payload;
+    res.write(`data: ${payload}\n\n`);
+  });
+}
+
+setInterval(() => refreshTrackers(), TRACKING_REFRESH_MS).unref();
+
+export function broadcast(message: SyncMessage) {
+  const payloads = new Map<string, string>();
+  clients.forEach((user, res) => {
+    const key = audienceKey(user);
+    let payload = payloads.get(key);
+    if (payload === undefined) {
+      const visible: SyncMessage = message.type === 'patch' ? { type: 'patch', patch: visiblePatch(message.patch, user) } : message;
+      // Nothing of another branch's change is left to send
+      payload = visible.type === 'patch' && isEmptyPatch(visible.patch) ? '' : `data: ${JSON.stringify(visible)}\n\n`;
+      payloads.set(key, payload);
+    }
+    if (payload) res.write(payload);
+  });
+  refreshTrackers();
+}
+
+export const broadcastPatch = (patch: StatePatch) => {
+  if (Object.keys(patch).length > 0) broadcast({ type: 'patch', patch });
+};
+
+export const broadcastResync = () => broadcast({ type: 'resync' });
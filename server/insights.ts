@@ -0,0 +1,112 @@
+import { GoogleGenAI } from '@google/genai';
+import { Insights, InsightsInput } from '../src/utils/insights';
+import { HttpError } from './errors';
+
+/** Writes the Analytics narrative from aggregated figures. */
+export interface InsightsProvider {
+  name: string;
+  summarize(input: InsightsInput): Promise<string>;
+}
+
+const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-2.5-flash';
+
+const INSTRUCTIONS = `Eres analista de operaciones de un sistema de gestión de filas de atención al público.
+Con los indicadores agregados que recibes en JSON, escribe en español un informe breve para el supervisor de la sucursal.
+Usa exactamente tres secciones con estos títulos en líneas propias: "Tendencias:", "Anomalías:" y "Sugerencias de dotación:".
+Bajo cada título escribe de una a cuatro viñetas que empiecen con "- ", sin negritas ni otro formato.
+Los tiempos están en minutos (tme: espera media hasta el llamado, tma: atención media) y las tasas en porcentaje.
+"previous" es el período de igual duración inmediatamente anterior. Cita cifras concretas y no inventes datos que no estén en el JSON.`;
+
+function geminiProvider(apiKey: string): InsightsProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    name: 'gemini',
+    async summarize(input) {
+      const response = await ai.models.generateContent({
+        model: GEMINI_MODEL,
+        contents: JSON.stringify(input),
+        config: { systemInstruction: INSTRUCTIONS, temperature: 0.2 },
+      });
+      const text = response.text?.trim();
+      if (!text) throw new Error('respuesta vacía');
+      return text;
+    },
+  };
+}
+
+const average = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / (values.length || 1);
+
+const change = (current: number, previous: number) => (previous ? Math.round(((current - previous) / previous) * 100) : undefined);
+
+// Offline stand-in with the same sections as the model's report, built from fixed rules:
+// the same figures always give the same text.
+function mockSummary(input: InsightsInput): string {
+  const { kpis, previous } = input;
+  if (kpis.total === 0) return `No hubo turnos entre el ${input.from} y el ${input.to}: no hay tendencias que analizar.`;
+
+  const trends: string[] = [];
+  const volume = change(kpis.total, previous.total);
+  trends.push(`- Se emitieron ${kpis.total} turnos entre el ${input.from} y el ${input.to}${volume === undefined ? '' : ` (${volume >= 0 ? '+' : ''}${volume}% frente al período anterior)`}.`);
+  trends.push(kpis.tme === previous.tme || !previous.total
+    ? `- La espera media fue de ${kpis.tme} min y la atención media de ${kpis.tma} min.`
+    : `- La espera media ${kpis.tme > previous.tme ? 'subió' : 'bajó'} de ${previous.tme} a ${kpis.tme} min; la atención media fue de ${kpis.tma} min.`);
+  const open = input.daily.filter(d => d.count > 0);
+  if (open.length >= 4) {
+    const half = Math.floor(open.length / 2);
+    const first = average(open.slice(0, half).map(d => d.count));
+    const second = average(open.slice(half).map(d => d.count));
+    const shift = change(second, first) ?? 0;
+    if (Math.abs(shift) >= 10) trends.push(`- La demanda diaria ${shift > 0 ? 'creció' : 'cayó'} un ${Math.abs(shift)}% en la segunda mitad del período.`);
+  }
+
+  const anomalies: string[] = [];
+  const mean = average(open.map(d => d.count));
+  open.filter(d => d.count >= mean * 1.5 && d.count - mean >= 5)
+    .forEach(d => anomalies.push(`- El ${d.date} llegaron ${d.count} clientes, frente a un promedio de ${Math.round(mean)} por día con atención.`));
+  input.categories
+    .filter(c => c.slaCompliance !== undefined && c.slaCompliance < input.slaTargetPercent)
+    .forEach(c => anomalies.push(`- ${c.name} llamó al ${c.slaCompliance}% de sus clientes dentro de ${c.maxWaitMinutes} min, por debajo de la meta del ${input.slaTargetPercent}%.`));
+  if (kpis.abandonmentRate >= 10) anomalies.push(`- El ${kpis.abandonmentRate}% de los turnos no se presentó al ser llamado.`);
+  if (anomalies.length === 0) anomalies.push('- No se detectaron días ni trámites fuera de lo habitual.');
+
+  const staffing: string[] = [];
+  const maxWait = Math.min(...input.categories.map(c => c.maxWaitMinutes));
+  input.peakHours
+    .filter(h => h.avgWait !== undefined && h.avgWait > maxWait)
+    .forEach(h => staffing.push(`- Reforzar la atención cada ${h.day.toLowerCase()} a las ${String(h.hour).padStart(2, '0')}:00: llegan ${h.arrivals} clientes y esperan ${h.avgWait} min en promedio.`));
+  const slowest = [...input.categories].sort((a, b) => b.tma - a.tma)[0];
+  if (slowest && slowest.tma > kpis.tma) staffing.push(`- ${slowest.name} tiene la atención más larga (${slowest.tma} min): conviene asignarle ventanillas dedicadas en las horas pico.`);
+  if (staffing.length === 0) {
+    const peak = input.peakHours[0];
+    staffing.push(peak
+      ? `- La dotación actual alcanza; la hora de mayor demanda es cada ${peak.day.toLowerCase()} a las ${String(peak.hour).padStart(2, '0')}:00.`
+      : '- La dotación actual alcanza para la demanda del período.');
+  }
+
+  return ['Tendencias:', ...trends, '', 'Anomalías:', ...anomalies, '', 'Sugerencias de dotación:', ...staffing].join('\n');
+}
+
+export const mockProvider: InsightsProvider = {
+  name: 'mock',
+  summarize: input => Promise.resolve(mockSummary(input)),
+};
+
+// INSIGHTS_PROVIDER picks one explicitly; by default Gemini is used whenever a key is configured.
+function configuredProvider(): InsightsProvider {
+  const apiKey = process.env.GEMINI_API_KEY;
+  const choice = process.env.INSIGHTS_PROVIDER || (apiKey && apiKey !== 'MY_GEMINI_API_KEY' ? 'gemini' : 'mock');
+  if (choice === 'mock') return mockProvider;
+  if (choice !== 'gemini') throw new Error(`INSIGHTS_PROVIDER desconocido: ${choice}`);
+  if (!apiKey) throw new Error('INSIGHTS_PROVIDER=gemini requiere GEMINI_API_KEY');
+  return geminiProvider(apiKey);
+}
+
+const provider = configuredProvider();
+
+export async function generateInsights(input: InsightsInput): Promise<Insights> {
+  try {
+    return { provider: provider.name, text: await provider.summarize(input), generatedAt: Date.now() };
+  } catch (err) {
+    throw new HttpError(502, `No se pudo generar el análisis: ${(err as Error).message}`);
+  }
+}
@@ -0,0 +1,65 @@
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { Locale, PrintingSettings } from '../src/types';
+import { TicketPrintData, renderTicketEscPos, sampleTicketData, ticketPrintData } from '../src/utils/printing/ticketPrint';
+import { estimateWait } from '../src/utils/waitEstimator';
+import * as store from './db';
+import { HttpError } from './errors';
+import { branchHistory, branchQueue } from './tracking';
+
+const PRINT_OUTPUT_DIR = process.env.PRINT_OUTPUT_DIR || path.join('data', 'prints');
+const PRINTER_TIMEOUT_MS = 5_000;
+// Base of the tracking URL in the QR code; must be reachable from customers' phones.
+const PUBLIC_URL = process.env.APP_URL || `http://localhost:${Number(process.env.PORT) || 3000}`;
+
+function sendToNetworkPrinter(host: string, port: number, job: Uint8Array) {
+  return new Promise<string>((resolve, reject) => {
+    const socket = net.createConnection({ host, port });
+    socket.setTimeout(PRINTER_TIMEOUT_MS);
+    socket.once('connect', () => socket.end(job));
+    socket.once('close', hadError => { if (!hadError) resolve(`${host}:${port}`); });
+    socket.once('timeout', () => socket.destroy(new Error('La impresora no responde')));
+    socket.once('error', err => reject(new HttpError(502, `No se pudo imprimir en ${host}:${port}: ${err.message}`)));
+  });
+}
+
+// Stand-in printer for testing: each job lands in its own .bin file, ready to inspect or `cat` to a device.
+function writeToFile(name: string, job: Uint8Array) {
+  fs.mkdirSync(PRINT_OUTPUT_DIR, { recursive: true });
+  const file = path.join(PRINT_OUTPUT_DIR, `${Date.now()}-${name.replace(/[^\w-]/g, '_')}.bin`);
+  fs.writeFileSync(file, job);
+  return Promise.resolve(file);
+}
+
+/** Send an ESC/POS job to the configured server-side printer; resolves to where it went. */
+export function printJob(data: TicketPrintData, settings: PrintingSettings) {
+  const job = renderTicketEscPos(data);
+  if (settings.target === 'network') return sendToNetworkPrinter(settings.host, settings.port, job);
+  if (settings.target === 'file') return writeToFile(data.displayId, job);
+  return Promise.reject(new HttpError(400, 'La impresora está configurada en el navegador del kiosco'));
+}
+
+export function printTicket(ticketId: string, locale?: Locale) {
+  const ticket = store.getTicket(ticketId);
+  if (!ticket) return Promise.reject(new HttpError(404, 'Turno no encontrado'));
+  const estimate = ticket.status === 'waiting'
+    ? estimateWait(branchHistory(ticket.branchId), branchQueue(ticket.branchId), ticket.categoryId, ticket.id)
+    : undefined;
+  const { printing } = store.getSettings();
+  return printJob(ticketPrintData(ticket, store.getCategory(ticket.categoryId), printing, PUBLIC_URL, estimate, locale), printing);
+}
+
+/** Print a sample ticket with the saved template to check the printer connection. */
+export function printTestTicket() {
+  const { printing } = store.getSettings();
+  return printJob(sampleTicketData(printing, PUBLIC_URL), printing);
+}
+
+// Print a freshly issued ticket when a server-side printer is configured. Failures are only
+// logged: the customer still gets a number on screen and staff can reprint.
+export function autoPrintTicket(ticketId: string, locale?: Locale) {
+  const { printing } = store.getSettings();
+  if (!printing.enabled || printing.target === 'browser') return;
+  printTicket(ticketId, locale).catch(err => console.error('Error de impresión:', (err as Error).message));
+}
@@ -0,0 +1,862 @@
+import crypto from 'crypto';
+import { AppSettings, AppState, Appointment, Branch, BreakReason, BusinessDay, Category, Counter, CounterBreak, DisplayProfile, Locale, StatePatch, SurveyChannel, SurveyResponse, Ticket, TicketEventType, User } from '../src/types';
+import { bookedInSlot, checkInBlock, daySlots, isLateCheckIn, normalizeBookingCode, randomBookingCode } from '../src/utils/appointments';
+import { SimulationComparison, SimulationInput, SimulationParams, simulate, simulatedIdPrefix, summarizeRun } from '../src/utils/simulator';
+import { orderWaitingTickets } from '../src/utils/prioritization';
+import { waitingTicketsFor } from '../src/utils/counters';
+import { ConfigBackup, LegacyImport } from '../src/utils/exportImport';
+import { surveyStatus } from '../src/utils/satisfaction';
+import { DEFAULT_LOCALE, translator } from '../src/utils/i18n';
+import { businessDate, closingTime, ticketIssueBlock } from '../src/utils/schedule';
+import { isUndoable, undoCandidate } from '../src/utils/ticketEvents';
+import * as store from './db';
+import { HttpError } from './errors';
+import { isSettingsSection, parseSettingsSection } from './settings';
+
+const requireCounter = (counterId: number) => {
+  const counter = store.getCounter(counterId);
+  if (!counter) throw new HttpError(404, `Ventanilla ${counterId} no existe`);
+  return counter;
+};
+
+const requireBranch = (branchId: string) => {
+  const branch = store.getBranch(branchId);
+  if (!branch) throw new HttpError(404, 'Sucursal no encontrada');
+  return branch;
+};
+
+const branchCategories = (branchId: string) => store.getCategories().filter(c => c.branchId === branchId);
+
+// --- Ticket log ---
+
+interface EventContext {
+  userId?: string;
+  counterId?: number;
+  // The counter as it was before the event, when the event also changed it.
+  counterBefore?: Counter;
+  undoes?: string;
+}
+
+// Append one event to a ticket's log once the change is saved. The after-states are read back
+// from the store, so they compare equal to what later reads of the ticket and counter return.
+const recordEvent = (type: TicketEventType, ticketBefore: Ticket | undefined, ticketId: string, context: EventContext = {}) => {
+  const ticketAfter = store.getTicket(ticketId)!;
+  store.insertTicketEvent({
+    id: crypto.randomUUID(),
+    ticketId,
+    branchId: ticketAfter.branchId,
+    type,
+    at: Date.now(),
+    counterId: context.counterId ?? context.counterBefore?.id,
+    userId: context.userId,
+    ticketBefore,
+    ticketAfter,
+    counterBefore: context.counterBefore,
+    counterAfter: context.counterBefore && store.getCounter(context.counterBefore.id),
+    undoes: context.undoes,
+  });
+};
+
+// --- Breaks ---
+
+// Close the open breaks of these counters; returns the closed records.
+const endOpenBreaks = (counterIds: number[], now: number): CounterBreak[] => {
+  const counterBreaks = store.getOpenCounterBreaks()
+    .filter(b => counterIds.includes(b.counterId))
+    .map(b => ({ ...b, endedAt: now }));
+  counterBreaks.forEach(store.saveCounterBreak);
+  return counterBreaks;
+};
+
+const backFromBreak = (counter: Counter): Counter =>
+  counter.status === 'away' ? { ...counter, status: 'idle', awayReason: undefined, awaySince: undefined } : counter;
+
+// --- Business day ---
+
+// Expire the branch's tickets still waiting or being called, free the counters that were calling them
+// and end any break still running there.
+const closeDay = (day: BusinessDay, now: number): StatePatch => {
+  const pending = store.getActiveBranchTickets(day.branchId).filter(t => t.status === 'waiting' || t.status === 'calling');
+  const tickets = pending.map(t => ({ ...t, status: 'expired' as const, completedAt: now }));
+  tickets.forEach(store.saveTicket);
+  pending.forEach(t => recordEvent('expired', t, t.id, { counterId: t.counterId }));
+
+  const expired = new Set(tickets.map(t => t.id));
+  const counters = store.getCounters()
+    .filter(c => c.branchId === day.branchId && ((c.currentTicketId && expired.has(c.currentTicketId)) || c.status === 'away'))
+    .map(c => ({ ...backFromBreak(c), status: 'idle' as const, currentTicketId: undefined }));
+  counters.forEach(store.saveCounter);
+  const counterBreaks = endOpenBreaks(counters.map(c => c.id), now);
+
+  const closed = { ...day, closedAt: now };
+  store.saveBusinessDay(closed);
+  return { tickets, counters, counterBreaks, businessDays: [closed] };
+};
+
+// Start the branch's business day for today if its latest one is from an earlier date: whatever that
+// day left pending expires and the numbering of the branch's categories starts again at 1.
+const rollOverDay = (branchId: string, now: number): StatePatch => {
+  const latest = store.getLatestBusinessDay(branchId);
+  if (latest?.date === businessDate(now)) return {};
+
+  const patch = latest && latest.closedAt === undefined ? closeDay(latest, now) : {};
+  store.resetTicketNumbers(branchId);
+  const day: BusinessDay = { branchId, date: businessDate(now), openedAt: now };
+  store.saveBusinessDay(day);
+  return { ...patch, businessDays: [day], nextTicketNumber: store.getNextTicketNumbers() };
+};
+
+const currentDay = (branchId: string) => store.getLatestBusinessDay(branchId)!;
+
+// Merge a roll-over with the changes that follow it, keeping the tickets, counters, breaks, appointments and days of both.
+const combine = (first: StatePatch, second: StatePatch): StatePatch => ({
+  ...first,
+  ...second,
+  tickets: [...(first.tickets ?? []), ...(second.tickets ?? [])],
+  counters: [...(first.counters ?? []), ...(second.counters ?? [])],
+  counterBreaks: [...(first.counterBreaks ?? []), ...(second.counterBreaks ?? [])],
+  appointments: [...(first.appointments ?? []), ...(second.appointments ?? [])],
+  businessDays: [...(first.businessDays ?? []), ...(second.businessDays ?? [])],
+});
+
+// Appointments nobody checked in for within the allowed delay.
+const markMissedAppointments = (now: number): StatePatch => {
+  const { missedAfterMinutes } = store.getSettings().appointments;
+  const appointments = store.getBookedAppointmentsBefore(now - missedAfterMinutes * 60_000)
+    .map(a => ({ ...a, status: 'missed' as const }));
+  appointments.forEach(store.saveAppointment);
+  return { appointments };
+};
+
+/**
+ * Periodic tick: roll every branch over after midnight, mark missed appointments and close each
+ * branch's day once the schedule's closing time has passed.
+ */
+export const advanceBusinessDay = store.db.transaction((now: number = Date.now()): StatePatch => {
+  const { schedule } = store.getSettings();
+  const closesAt = closingTime(schedule, now);
+  return store.getBranches().reduce((patch, { id }) => {
+    const rolled = combine(patch, rollOverDay(id, now));
+    const day = currentDay(id);
+    if (!schedule.enforceHours || day.closedAt !== undefined || closesAt === undefined || now < closesAt) return rolled;
+    return combine(rolled, closeDay(day, now));
+  }, markMissedAppointments(now));
+});
+
+export const closeBusinessDay = store.db.transaction((branchId: string): StatePatch => {
+  requireBranch(branchId);
+  const now = Date.now();
+  const patch = rollOverDay(branchId, now);
+  const day = currentDay(branchId);
+  if (day.closedAt !== undefined) throw new HttpError(409, 'La jornada de hoy ya está cerrada');
+  return combine(patch, closeDay(day, now));
+});
+
+// Undo a close made by mistake; tickets that already expired stay expired.
+export const reopenBusinessDay = store.db.transaction((branchId: string): StatePatch => {
+  requireBranch(branchId);
+  const patch = rollOverDay(branchId, Date.now());
+  const day = currentDay(branchId);
+  if (day.closedAt === undefined) return patch;
+  const reopened = { ...day, closedAt: undefined };
+  store.saveBusinessDay(reopened);
+  return { ...patch, businessDays: [reopened] };
+});
+
+// --- Ticket actions ---
+
+// Number and save a new waiting ticket, rolling over to today first. The kiosk rules apply to check-ins too,
+// and their refusals are in the customer's language.
+const issueTicket = (categoryId: string, userId: string, now: number, locale: Locale, appointment: Pick<Ticket, 'appointmentId' | 'appointmentAt'> = {}): StatePatch => {
+  const category = store.getCategory(categoryId);
+  if (!category) throw new HttpError(404, translator(locale)('kiosk.serviceUnavailable'));
+
+  const dayPatch = rollOverDay(category.branchId, now);
+  const blocked = ticketIssueBlock(store.getSettings().schedule, currentDay(category.branchId), now, locale);
+  if (blocked) throw new HttpError(409, blocked);
+
+  const num = store.getNextTicketNumbers()[categoryId] || 1;
+  const ticket: Ticket = {
+    id: crypto.randomUUID(),
+    branchId: category.branchId,
+    displayId: `${category.prefix}${String(num).padStart(3, '0')}`,
+    categoryId,
+    status: 'waiting',
+    createdAt: now,
+    actors: { issuedBy: userId },
+    ...appointment,
+  };
+
+  store.saveTicket(ticket);
+  store.setNextTicketNumber(categoryId, num + 1);
+  recordEvent('issued', undefined, ticket.id, { userId });
+
+  // The new ticket goes first: callers read it from tickets[0]
+  return {
+    ...dayPatch,
+    tickets: [ticket, ...(dayPatch.tickets ?? [])],
+    nextTicketNumber: { ...dayPatch.nextTicketNumber, [categoryId]: num + 1 },
+  };
+};
+
+export const createTicket = store.db.transaction((categoryId: string, userId: string, locale: Locale = DEFAULT_LOCALE): StatePatch =>
+  issueTicket(categoryId, userId, Date.now(), locale)
+);
+
+export const callNextTicket = store.db.transaction((counterId: number, userId: string): StatePatch => {
+  const counter = requireCounter(counterId);
+  if (counter.status === 'away') throw new HttpError(409, 'La ventanilla está en pausa');
+  if (counter.currentTicketId) throw new HttpError(409, 'La ventanilla ya tiene un turno asignado');
+
+  const categories = branchCategories(counter.branchId);
+  const recentCalls = store.getRecentCalls(counter.branchId, categories.reduce((acc, c) => acc + Math.max(c.priority, 1), 0));
+  const waitingTickets = orderWaitingTickets(
+    waitingTicketsFor(counter, store.getTicketsByStatus('waiting')),
+    categories,
+    store.getSettings().queue,
+    recentCalls
+  );
+
+  if (waitingTickets.length === 0) return {};
+
+  const ticket: Ticket = {
+    ...waitingTickets[0],
+    status: 'calling',
+    calledAt: Date.now(),
+    counterId,
+    actors: { ...waitingTickets[0].actors, calledBy: userId },
+  };
+  const updatedCounter = { ...counter, status: 'busy' as const, currentTicketId: ticket.id };
+
+  store.saveTicket(ticket);
+  store.saveCounter(updatedCounter);
+  recordEvent('called', waitingTickets[0], ticket.id, { userId, counterBefore: counter });
+
+  return { tickets: [ticket], counters: [updatedCounter] };
+});
+
+// Announce the counter's ticket again while the customer has not shown up yet.
+export const recallTicket = store.db.transaction((counterId: number, userId: string): StatePatch => {
+  const counter = requireCounter(counterId);
+  const current = counter.currentTicketId && store.getTicket(counter.currentTicketId);
+  if (!current || current.status !== 'calling') throw new HttpError(409, 'Solo se puede volver a llamar un turno en llamado');
+
+  const ticket: Ticket = {
+    ...current,
+    recallCount: (current.recallCount ?? 0) + 1,
+    recalledAt: Date.now(),
+    actors: { ...current.actors, recalledBy: userId },
+  };
+  store.saveTicket(ticket);
+  recordEvent('recalled', current, ticket.id, { userId, counterId });
+
+  return { tickets: [ticket] };
+});
+
+export const startServing = store.db.transaction((counterId: number, userId: string): StatePatch => {
+  const counter = requireCounter(counterId);
+  const current = counter.currentTicketId && store.getTicket(counter.currentTicketId);
+  if (!current || current.status !== 'calling') throw new HttpError(409, 'Solo se puede iniciar la atención de un turno en llamado');
+
+  const ticket: Ticket = { ...current, status: 'serving', startedAt: Date.now(), actors: { ...current.actors, startedBy: userId } };
+  store.saveTicket(ticket);
+  recordEvent('started', current, ticket.id, { userId, counterId });
+
+  return { tickets: [ticket] };
+});
+
+export const completeTicket = store.db.transaction((counterId: number, status: 'completed' | 'no-show', userId: string): StatePatch => {
+  const counter = requireCounter(counterId);
+  const current = counter.currentTicketId && store.getTicket(counter.currentTicketId);
+  if (!current || (current.status !== 'calling' && current.status !== 'serving')) {
+    throw new HttpError(409, 'La ventanilla no tiene un turno en llamado ni en atención');
+  }
+
+  const ticket: Ticket = { ...current, status, completedAt: Date.now(), actors: { ...current.actors, completedBy: userId } };
+  const updatedCounter = { ...counter, status: 'idle' as const, currentTicketId: undefined };
+
+  store.saveTicket(ticket);
+  store.saveCounter(updatedCounter);
+  recordEvent(status, current, ticket.id, { userId, counterBefore: counter });
+
+  return { tickets: [ticket], counters: [updatedCounter] };
+});
+
+// Put a no-show back in the waiting queue, keeping its arrival time, if the customer turns up within the grace period.
+export const reinstateTicket = store.db.transaction((ticketId: string, userId: string): StatePatch => {
+  const current = store.getTicket(ticketId);
+  if (!current) throw new HttpError(404, 'Turno no encontrado');
+  if (current.status !== 'no-show') throw new HttpError(409, 'Solo se pueden reincorporar turnos marcados como no presentados');
+
+  const graceMs = store.getSettings().queue.noShowGraceMinutes * 60_000;
+  if (Date.now() - (current.completedAt ?? 0) > graceMs) throw new HttpError(409, 'El período de gracia de este turno ya venció');
+
+  const ticket: Ticket = {
+    ...current,
+    status: 'waiting',
+    calledAt: undefined,
+    startedAt: undefined,
+    completedAt: undefined,
+    counterId: undefined,
+    recallCount: undefined,
+    recalledAt: undefined,
+    actors: { issuedBy: current.actors?.issuedBy, reinstatedBy: userId },
+  };
+  store.saveTicket(ticket);
+  recordEvent('reinstated', current, ticket.id, { userId, counterId: current.counterId });
+
+  return { tickets: [ticket] };
+});
+
+// Send the counter's current ticket back to the queue of another category and/or counter,
+// keeping its number and original arrival time.
+export const transferTicket = store.db.transaction((counterId: number, target: { categoryId?: string; counterId?: number }, userId: string): StatePatch => {
+  const counter = requireCounter(counterId);
+  const current = counter.currentTicketId && store.getTicket(counter.currentTicketId);
+  if (!current) throw new HttpError(409, 'La ventanilla no tiene un turno activo');
+
+  const toCategoryId = target.categoryId ?? current.categoryId;
+  const toCategory = store.getCategory(toCategoryId);
+  if (!toCategory) throw new HttpError(404, 'Categoría no encontrada');
+  if (toCategory.branchId !== counter.branchId) throw new HttpError(400, 'No se puede transferir a otra sucursal');
+  if (target.counterId !== undefined) {
+    if (requireCounter(target.counterId).branchId !== counter.branchId) throw new HttpError(400, 'No se puede transferir a otra sucursal');
+    if (target.counterId === counterId) throw new HttpError(400, 'No se puede transferir a la misma ventanilla');
+  } else if (toCategoryId === current.categoryId) {
+    throw new HttpError(400, 'Seleccione otra categoría o una ventanilla de destino');
+  }
+
+  const ticket: Ticket = {
+    ...current,
+    status: 'waiting',
+    categoryId: toCategoryId,
+    counterId: undefined,
+    calledAt: undefined,
+    startedAt: undefined,
+    targetCounterId: target.counterId,
+    transfers: [...(current.transfers ?? []), {
+      at: Date.now(),
+      fromCategoryId: current.categoryId,
+      fromCounterId: counterId,
+      calledAt: current.calledAt,
+      startedAt: current.startedAt,
+      toCategoryId,
+      toCounterId: target.counterId,
+      actors: { ...current.actors, transferredBy: userId },
+    }],
+    actors: { issuedBy: current.actors?.issuedBy },
+  };
+  const updatedCounter = { ...counter, status: 'idle' as const, currentTicketId: undefined };
+
+  store.saveTicket(ticket);
+  store.saveCounter(updatedCounter);
+  recordEvent('transferred', current, ticket.id, { userId, counterBefore: counter });
+
+  return { tickets: [ticket], counters: [updatedCounter] };
+});
+
+// Revert the latest action on a ticket that is not undone yet, as long as neither the ticket nor its
+// counter changed since. The log keeps both the action and the correction.
+export const undoTicketEvent = store.db.transaction((ticketId: string, userId: string): StatePatch => {
+  const current = store.getTicket(ticketId);
+  if (!current) throw new HttpError(404, 'Turno no encontrado');
+  const event = undoCandidate(store.getTicketEvents(ticketId));
+  if (!isUndoable(event) || !event.ticketBefore) throw new HttpError(409, 'La última acción de este turno no se puede deshacer');
+
+  // Both sides come from the store's row mapping, so equal records serialize equally
+  if (JSON.stringify(current) !== JSON.stringify(event.ticketAfter)) throw new HttpError(409, 'El turno cambió después de esa acción');
+  const counter = event.counterAfter && store.getCounter(event.counterAfter.id);
+  if (event.counterAfter && (!counter || counter.status !== event.counterAfter.status || counter.currentTicketId !== event.counterAfter.currentTicketId)) {
+    throw new HttpError(409, 'La ventanilla ya avanzó a otro turno');
+  }
+  // The rating belongs to that service: reopening it would leave the answer on a ticket that may end otherwise
+  if (event.type === 'completed' && store.getSurveyResponseForTicket(ticketId)) {
+    throw new HttpError(409, 'El cliente ya calificó esta atención');
+  }
+
+  store.saveTicket(event.ticketBefore);
+  // Only what the action changed goes back: whoever holds the counter now keeps it
+  const restored = counter && { ...counter, status: event.counterBefore!.status, currentTicketId: event.counterBefore!.currentTicketId };
+  if (restored) store.saveCounter(restored);
+  recordEvent('edited', current, ticketId, { userId, counterId: event.counterId, counterBefore: counter, undoes: event.id });
+
+  return { tickets: [store.getTicket(ticketId)!], counters: restored ? [restored] : [] };
+});
+
+// Put a counter on a break. Only a free counter can go away, and it calls no tickets until it resumes.
+export const startBreak = store.db.transaction((counterId: number, reason: BreakReason): StatePatch => {
+  const counter = requireCounter(counterId);
+  if (counter.status === 'away') throw new HttpError(409, 'La ventanilla ya está en pausa');
+  if (counter.currentTicketId) throw new HttpError(409, 'Finalice o transfiera el turno actual antes de la pausa');
+
+  const now = Date.now();
+  const counterBreak: CounterBreak = { id: crypto.randomUUID(), counterId, userId: counter.userId, reason, startedAt: now };
+  const updated: Counter = { ...counter, status: 'away', awayReason: reason, awaySince: now };
+  store.saveCounterBreak(counterBreak);
+  store.saveCounter(updated);
+
+  return { counters: [updated], counterBreaks: [counterBreak] };
+});
+
+export const endBreak = store.db.transaction((counterId: number): StatePatch => {
+  const counter = requireCounter(counterId);
+  if (counter.status !== 'away') throw new HttpError(409, 'La ventanilla no está en pausa');
+
+  const counterBreaks = endOpenBreaks([counterId], Date.now());
+  const updated = backFromBreak(counter);
+  store.saveCounter(updated);
+
+  return { counters: [updated], counterBreaks };
+});
+
+// --- Appointments ---
+
+export const bookAppointment = store.db.transaction((
+  input: Pick<Appointment, 'categoryId' | 'scheduledAt' | 'customerName'>,
+  userId: string
+): StatePatch => {
+  if (!store.getCategory(input.categoryId)) throw new HttpError(404, 'Categoría no encontrada');
+  const { schedule, appointments: settings } = store.getSettings();
+  if (input.scheduledAt <= Date.now()) throw new HttpError(400, 'No se pueden reservar citas en el pasado');
+  if (!daySlots(schedule, settings, input.scheduledAt).includes(input.scheduledAt)) {
+    throw new HttpError(400, 'El horario elegido no corresponde a un turno de cita');
+  }
+  if (bookedInSlot(store.getAppointments(), input.categoryId, input.scheduledAt) >= settings.slotCapacity) {
+    throw new HttpError(409, 'Ese horario ya está completo');
+  }
+
+  let code = randomBookingCode();
+  while (store.getAppointmentByCode(code)) code = randomBookingCode();
+
+  const appointment: Appointment = { ...input, id: crypto.randomUUID(), code, status: 'booked', createdAt: Date.now(), createdBy: userId };
+  store.saveAppointment(appointment);
+  return { appointments: [appointment] };
+});
+
+export const cancelAppointment = store.db.transaction((id: string): StatePatch => {
+  const current = store.getAppointment(id);
+  if (!current) throw new HttpError(404, 'Cita no encontrada');
+  if (current.status !== 'booked') throw new HttpError(409, 'Solo se pueden cancelar citas pendientes');
+  const appointment: Appointment = { ...current, status: 'cancelled' };
+  store.saveAppointment(appointment);
+  return { appointments: [appointment] };
+});
+
+// Check a customer in with their booking code: they get a ticket called around their slot,
+// or queued as a walk-in when they arrive past the tolerance. A kiosk only finds its own branch's bookings.
+export const checkInAppointment = store.db.transaction((code: string, userId: string, branchId?: string, locale: Locale = DEFAULT_LOCALE): StatePatch => {
+  const current = store.getAppointmentByCode(normalizeBookingCode(code));
+  if (!current || (branchId && store.getCategory(current.categoryId)?.branchId !== branchId)) {
+    throw new HttpError(404, translator(locale)('kiosk.appointmentNotFound'));
+  }
+
+  const now = Date.now();
+  const settings = store.getSettings().appointments;
+  const blocked = checkInBlock(current, settings, now, locale);
+  if (blocked) throw new HttpError(409, blocked);
+
+  const late = isLateCheckIn(current, settings, now);
+  const patch = issueTicket(current.categoryId, userId, now, locale, {
+    appointmentId: current.id,
+    appointmentAt: late ? undefined : current.scheduledAt,
+  });
+  const appointment: Appointment = { ...current, status: late ? 'late' : 'checked-in', checkedInAt: now, ticketId: patch.tickets![0].id };
+  store.saveAppointment(appointment);
+
+  return { ...patch, appointments: [appointment] };
+});
+
+// --- Satisfaction ---
+
+// Record the customer's rating of a completed service, once, against the counter and advisor that finished it.
+export const submitSurvey = store.db.transaction((
+  ticketId: string,
+  answer: Pick<SurveyResponse, 'rating' | 'reasons'>,
+  channel: SurveyChannel
+): StatePatch => {
+  const ticket = store.getTicket(ticketId);
+  if (!ticket) throw new HttpError(404, 'Turno no encontrado');
+  const status = surveyStatus(ticket, store.getSurveyResponseForTicket(ticketId) !== undefined);
+  if (status === 'answered') throw new HttpError(409, 'Este turno ya fue calificado');
+  if (status !== 'open') throw new HttpError(409, 'La encuesta de este turno no está disponible');
+
+  const response: SurveyResponse = {
+    id: crypto.randomUUID(),
+    ticketId,
+    branchId: ticket.branchId,
+    categoryId: ticket.categoryId,
+    counterId: ticket.counterId,
+    userId: ticket.actors?.completedBy,
+    ...answer,
+    channel,
+    submittedAt: Date.now(),
+  };
+  store.insertSurveyResponse(response);
+  return { surveyResponses: [response] };
+});
+
+// --- Users ---
+
+// Free the counters held by a user, e.g. when they sign out or lose access. A break in progress ends with them.
+const releaseCounters = (userId: string) => {
+  const held = store.getCounters().filter(c => c.userId === userId);
+  const counterBreaks = endOpenBreaks(held.map(c => c.id), Date.now());
+  const counters: Counter[] = held.map(c => ({ ...backFromBreak(c), userId: undefined }));
+  counters.forEach(store.saveCounter);
+  return { counters, counterBreaks };
+};
+
+// Sign a user in at a counter, taking it over from whoever held it, or out of any counter when counterId is undefined.
+// Whoever takes over a counter on a break ends the break.
+export const assignCounter = store.db.transaction((userId: string, counterId?: number): StatePatch => {
+  const released = releaseCounters(userId);
+  if (counterId === undefined) return released;
+
+  const current = requireCounter(counterId);
+  const counterBreaks = [...released.counterBreaks, ...endOpenBreaks([counterId], Date.now())];
+  const counter = { ...backFromBreak(current), userId };
+  store.saveCounter(counter);
+  return { counters: [...released.counters.filter(c => c.id !== counterId), counter], counterBreaks };
+});
+
+export const signOut = store.db.transaction((userId: string): StatePatch => releaseCounters(userId));
+
+// Screens and advisors work one branch; admins and supervisors may be bound to one or not.
+const checkUserBranch = (user: Pick<User, 'role' | 'branchId'>) => {
+  if (user.branchId !== undefined) requireBranch(user.branchId);
+  else if (user.role === 'kiosk' || user.role === 'display' || user.role === 'advisor') {
+    throw new HttpError(400, 'Asigne una sucursal a este usuario');
+  }
+};
+
+export const createUser = store.db.transaction((input: Omit<User, 'id' | 'active'>, passwordHash: string): StatePatch => {
+  if (store.getUserCredentials(input.username)) throw new HttpError(409, 'Ya existe un usuario con ese nombre');
+  checkUserBranch(input);
+  const user: User = { ...input, id: crypto.randomUUID(), active: true };
+  store.insertUser(user, passwordHash);
+  return { users: [user] };
+});
+
+// Users are deactivated rather than deleted so past tickets stay attributed to them.
+export const updateUser = store.db.transaction((
+  id: string,
+  changes: Partial<Pick<User, 'name' | 'role' | 'active' | 'branchId'>>,
+  actingUserId: string,
+  passwordHash?: string
+): StatePatch => {
+  const current = store.getUser(id);
+  if (!current) throw new HttpError(404, 'Usuario no encontrado');
+  const user: User = { ...current, ...changes };
+  checkUserBranch(user);
+
+  if (id === actingUserId && !user.active) throw new HttpError(409, 'No puede desactivar su propio usuario');
+  const activeAdmins = store.getUsers().filter(u => u.role === 'admin' && u.active);
+  if (current.role === 'admin' && current.active && !(user.role === 'admin' && user.active) && activeAdmins.length === 1) {
+    throw new HttpError(409, 'Debe quedar al menos un administrador activo');
+  }
+
+  store.saveUser(user);
+  if (passwordHash) store.setPasswordHash(id, passwordHash);
+
+  // Any change to access signs the user out everywhere
+  if (!user.active || user.role !== current.role || user.branchId !== current.branchId || passwordHash) {
+    store.deleteUserSessions(id);
+    return { users: [user], ...releaseCounters(id) };
+  }
+  return { users: [user] };
+});
+
+// --- Branches ---
+
+// Copy the categories of one branch into another as a template. Prefixes the target already
+// uses are skipped, so copying twice adds nothing.
+const copyBranchCategories = (fromBranchId: string, toBranchId: string): Category[] => {
+  const taken = new Set(branchCategories(toBranchId).map(c => c.prefix));
+  const categories = branchCategories(fromBranchId)
+    .filter(c => !taken.has(c.prefix))
+    .map(c => ({ ...c, id: crypto.randomUUID(), branchId: toBranchId }));
+  categories.forEach(c => store.insertCategory(c));
+  return categories;
+};
+
+// A new branch starts with one counter serving everything, and the categories of `templateBranchId` if given.
+export const addBranch = store.db.transaction((name: string, templateBranchId?: string): StatePatch => {
+  if (templateBranchId !== undefined) requireBranch(templateBranchId);
+  const branch: Branch = { id: crypto.randomUUID(), name };
+  store.insertBranch(branch);
+  const categories = templateBranchId !== undefined ? copyBranchCategories(templateBranchId, branch.id) : [];
+  const counter: Counter = { id: store.nextCounterId(), branchId: branch.id, name: 'Ventanilla 1', status: 'idle', categoryIds: [] };
+  store.insertCounter(counter);
+  return {
+    branches: [branch],
+    categories,
+    counters: [counter],
+    nextTicketNumber: Object.fromEntries(categories.map(c => [c.id, 1])),
+  };
+});
+
+export const renameBranch = store.db.transaction((id: string, name: string): StatePatch => {
+  const branch = { ...requireBranch(id), name };
+  store.saveBranch(branch);
+  return { branches: [branch] };
+});
+
+// Only an emptied branch can go; its ticket history stays, still attributed to it.
+export const removeBranch = store.db.transaction((id: string): StatePatch => {
+  requireBranch(id);
+  if (store.getBranches().length === 1) throw new HttpError(409, 'Debe quedar al menos una sucursal');
+  if (branchCategories(id).length > 0 || store.getCounters().some(c => c.branchId === id)) {
+    throw new HttpError(409, 'Elimine primero las categorías y ventanillas de la sucursal');
+  }
+  if (store.getUsers().some(u => u.branchId === id && u.active)) throw new HttpError(409, 'Hay usuarios activos asignados a esta sucursal');
+  // Its screens have nothing left to show
+  const removedDisplayProfileIds = store.getDisplayProfiles().filter(p => p.branchId === id).map(p => p.id);
+  removedDisplayProfileIds.forEach(store.deleteDisplayProfile);
+  store.deleteBusinessDays(id);
+  store.deleteBranch(id);
+  return { removedBranchIds: [id], removedDisplayProfileIds };
+});
+
+export const copyCategories = store.db.transaction((fromBranchId: string, toBranchId: string): StatePatch => {
+  requireBranch(fromBranchId);
+  requireBranch(toBranchId);
+  if (fromBranchId === toBranchId) throw new HttpError(400, 'Seleccione otra sucursal de origen');
+  const categories = copyBranchCategories(fromBranchId, toBranchId);
+  return { categories, nextTicketNumber: Object.fromEntries(categories.map(c => [c.id, 1])) };
+});
+
+// --- Administration ---
+
+export const addCategory = store.db.transaction((input: Omit<Category, 'id'>): StatePatch => {
+  requireBranch(input.branchId);
+  const category: Category = { ...input, id: crypto.randomUUID() };
+  store.insertCategory(category);
+  return { categories: [category], nextTicketNumber: { [category.id]: 1 } };
+});
+
+export const updateCategory = store.db.transaction((id: string, changes: Partial<Omit<Category, 'id'>>): StatePatch => {
+  const current = store.getCategory(id);
+  if (!current) throw new HttpError(404, 'Categoría no encontrada');
+  const category: Category = { ...current, ...changes, id };
+  store.saveCategory(category);
+  return { categories: [category] };
+});
+
+// Refused while the category has customers in line, who could no longer be called.
+export const removeCategory = store.db.transaction((id: string): StatePatch => {
+  if (!store.getCategory(id)) throw new HttpError(404, 'Categoría no encontrada');
+  const active = (['waiting', 'calling', 'serving'] as const).some(status => store.getTicketsByStatus(status).some(t => t.categoryId === id));
+  if (active) throw new HttpError(409, 'La categoría tiene turnos en espera o en atención');
+  store.deleteCategory(id);
+  const counters = store.getCounters()
+    .filter(c => c.categoryIds.includes(id))
+    .map(c => ({ ...c, categoryIds: c.categoryIds.filter(catId => catId !== id) }));
+  counters.forEach(store.saveCounter);
+  // Nobody could serve these bookings any more
+  const appointments = store.getAppointments()
+    .filter(a => a.categoryId === id && a.status === 'booked')
+    .map(a => ({ ...a, status: 'cancelled' as const }));
+  appointments.forEach(store.saveAppointment);
+  return { removedCategoryIds: [id], counters, appointments, displayProfiles: pruneDisplayProfiles() };
+});
+
+// A counter may only serve categories of its own branch.
+const checkCategoryIds = (branchId: string, categoryIds: string[]) => {
+  const known = new Set(branchCategories(branchId).map(c => c.id));
+  const unknown = categoryIds.find(id => !known.has(id));
+  if (unknown) throw new HttpError(400, `Categoría ${unknown} no existe en esta sucursal`);
+};
+
+export const addCounter = store.db.transaction((input: Pick<Counter, 'branchId' | 'name' | 'categoryIds'>): StatePatch => {
+  requireBranch(input.branchId);
+  checkCategoryIds(input.branchId, input.categoryIds);
+  const counter: Counter = { ...input, id: store.nextCounterId(), status: 'idle' };
+  store.insertCounter(counter);
+  return { counters: [counter] };
+});
+
+export const updateCounter = store.db.transaction((counterId: number, changes: Partial<Pick<Counter, 'name' | 'categoryIds'>>): StatePatch => {
+  const counter = requireCounter(counterId);
+  if (changes.categoryIds) checkCategoryIds(counter.branchId, changes.categoryIds);
+
+  const updated = { ...counter, ...changes };
+  store.saveCounter(updated);
+  return { counters: [updated] };
+});
+
+// Tickets transferred to a removed counter go back to their category's queue.
+export const removeCounter = store.db.transaction((counterId: number): StatePatch => {
+  const counter = requireCounter(counterId);
+  if (counter.currentTicketId) throw new HttpError(409, 'La ventanilla tiene un turno en curso');
+  if (store.getCounters().filter(c => c.branchId === counter.branchId).length === 1) {
+    throw new HttpError(409, 'Debe quedar al menos una ventanilla en la sucursal');
+  }
+
+  const counterBreaks = endOpenBreaks([counterId], Date.now());
+  const targeted = store.getTicketsByStatus('waiting').filter(t => t.targetCounterId === counterId);
+  const tickets = targeted.map(t => ({ ...t, targetCounterId: undefined }));
+  tickets.forEach(store.saveTicket);
+  targeted.forEach(t => recordEvent('edited', t, t.id, { counterId }));
+  store.deleteCounter(counterId);
+
+  return { removedCounterIds: [counterId], tickets, counterBreaks, displayProfiles: pruneDisplayProfiles() };
+});
+
+// A screen may only show categories and counters of its own branch.
+const checkDisplayFilters = (branchId: string, profile: Pick<DisplayProfile, 'categoryIds' | 'counterIds'>) => {
+  checkCategoryIds(branchId, profile.categoryIds);
+  const known = new Set(store.getCounters().filter(c => c.branchId === branchId).map(c => c.id));
+  const unknown = profile.counterIds.find(id => !known.has(id));
+  if (unknown !== undefined) throw new HttpError(400, `Ventanilla ${unknown} no existe en esta sucursal`);
+};
+
+// Drop removed categories and counters from the screens that showed them; returns the profiles changed.
+const pruneDisplayProfiles = (): DisplayProfile[] => {
+  const categoryIds = new Set(store.getCategories().map(c => c.id));
+  const counterIds = new Set(store.getCounters().map(c => c.id));
+  const changed = store.getDisplayProfiles()
+    .filter(p => p.categoryIds.some(id => !categoryIds.has(id)) || p.counterIds.some(id => !counterIds.has(id)))
+    .map(p => ({ ...p, categoryIds: p.categoryIds.filter(id => categoryIds.has(id)), counterIds: p.counterIds.filter(id => counterIds.has(id)) }));
+  changed.forEach(store.saveDisplayProfile);
+  return changed;
+};
+
+export const addDisplayProfile = store.db.transaction((input: Omit<DisplayProfile, 'id'>): StatePatch => {
+  requireBranch(input.branchId);
+  checkDisplayFilters(input.branchId, input);
+  const profile: DisplayProfile = { ...input, id: crypto.randomUUID() };
+  store.insertDisplayProfile(profile);
+  return { displayProfiles: [profile] };
+});
+
+export const updateDisplayProfile = store.db.transaction((id: string, changes: Omit<DisplayProfile, 'id' | 'branchId'>): StatePatch => {
+  const current = store.getDisplayProfile(id);
+  if (!current) throw new HttpError(404, 'Perfil de pantalla no encontrado');
+  checkDisplayFilters(current.branchId, changes);
+  const profile: DisplayProfile = { ...current, ...changes };
+  store.saveDisplayProfile(profile);
+  return { displayProfiles: [profile] };
+});
+
+export const removeDisplayProfile = store.db.transaction((id: string): StatePatch => {
+  if (!store.getDisplayProfile(id)) throw new HttpError(404, 'Perfil de pantalla no encontrado');
+  store.deleteDisplayProfile(id);
+  return { removedDisplayProfileIds: [id] };
+});
+
+export const updateSettings = (changes: Partial<AppSettings>): StatePatch => {
+  store.saveSettings(changes);
+  return { settings: store.getSettings() };
+};
+
+// Tickets in line or at a counter must still find their category, and the counter serving or awaiting them,
+// in the branch they were issued in; otherwise nobody could call or close them.
+function checkActiveTicketsKept(backup: ConfigBackup) {
+  const categoryBranches = new Map(backup.categories.map(c => [c.id, c.branchId]));
+  const counterBranches = new Map(backup.counters.map(c => [c.id, c.branchId]));
+  const orphan = (['waiting', 'calling', 'serving'] as const)
+    .flatMap(status => store.getTicketsByStatus(status))
+    .find(t => {
+      const counterId = t.status === 'waiting' ? t.targetCounterId : t.counterId;
+      return categoryBranches.get(t.categoryId) !== t.branchId
+        || (counterId !== undefined && counterBranches.get(counterId) !== t.branchId);
+    });
+  if (orphan) throw new HttpError(409, `El respaldo quita la categoría o ventanilla del turno ${orphan.displayId}, que sigue en espera o en atención`);
+}
+
+// Replace categories, counters, display profiles, numbering and settings with a validated backup, creating or
+// renaming its branches. Counters that stay in their branch keep their live status, current ticket, advisor
+// and break; the ones it moves to another branch start idle.
+export const restoreConfig = store.db.transaction((backup: ConfigBackup): AppState => {
+  checkActiveTicketsKept(backup);
+  backup.branches.forEach(b => (store.getBranch(b.id) ? store.saveBranch(b) : store.insertBranch(b)));
+  const live = new Map(store.getCounters().map(c => [c.id, c]));
+  store.deleteAllCounters();
+  backup.counters.forEach(c => {
+    const previous = live.get(c.id);
+    const current = previous?.branchId === c.branchId ? previous : undefined;
+    store.insertCounter({
+      ...c,
+      status: current?.status ?? 'idle',
+      currentTicketId: current?.currentTicketId,
+      userId: current?.userId,
+      awayReason: current?.awayReason,
+      awaySince: current?.awaySince,
+    });
+  });
+  const kept = new Set(backup.counters.filter(c => live.get(c.id)?.branchId === c.branchId).map(c => c.id));
+  endOpenBreaks([...live.keys()].filter(id => !kept.has(id)), Date.now());
+
+  store.deleteAllCategories();
+  backup.categories.forEach(c => store.insertCategory(c, backup.nextTicketNumber[c.id] ?? 1));
+
+  // Backups from before display profiles keep the current screens
+  if (backup.displayProfiles) {
+    store.deleteAllDisplayProfiles();
+    backup.displayProfiles.forEach(store.insertDisplayProfile);
+  }
+  pruneDisplayProfiles();
+
+  const settings = Object.fromEntries(
+    Object.entries(backup.settings ?? {})
+      .filter(([section]) => isSettingsSection(section))
+      .map(([section, value]) => [section, parseSettingsSection(section as keyof AppSettings, value)])
+  );
+  store.saveSettings(settings);
+
+  return store.getState();
+});
+
+// One-time import of what the first version kept in the kiosk's browser. Only into a system without tickets,
+// so the imported history cannot mix with its own; existing branches keep their names.
+export const importLegacyState = store.db.transaction(({ config, tickets }: LegacyImport): AppState => {
+  if (store.hasTickets()) throw new HttpError(409, 'El sistema ya tiene turnos: los datos anteriores solo se importan en una instalación nueva');
+  restoreConfig({ ...config, branches: config.branches.map(b => store.getBranch(b.id) ?? b) });
+  store.saveTickets(tickets);
+  return store.getState();
+});
+
+const simulationInput = (branchId: string): SimulationInput => {
+  requireBranch(branchId);
+  const { queue, schedule } = store.getSettings();
+  return {
+    branchId,
+    categories: branchCategories(branchId),
+    counters: store.getCounters().filter(c => c.branchId === branchId),
+    queue,
+    schedule,
+  };
+};
+
+// Fill a branch's history with a simulated past of its current configuration. Re-running a seed replaces its tickets.
+export const generateData = store.db.transaction((branchId: string, params: SimulationParams): AppState => {
+  const { tickets } = simulate(simulationInput(branchId), { ...params, extraCounters: 0 });
+  store.deleteTicketsByIdPrefix(branchId, simulatedIdPrefix(branchId, params.seed));
+  store.saveTickets(tickets);
+  return store.getState();
+});
+
+/** What-if: a branch's counters against the same customers with `params.extraCounters` more. Nothing is saved. */
+export function compareScenario(branchId: string, params: SimulationParams): SimulationComparison {
+  const input = simulationInput(branchId);
+  return {
+    baseline: summarizeRun(simulate(input, { ...params, extraCounters: 0 }), input.categories),
+    scenario: summarizeRun(simulate(input, params), input.categories),
+  };
+}
+
+// Wipes one branch's history. Its numbering and business day start over with the next ticket.
+export const clearData = store.db.transaction((branchId: string): AppState => {
+  requireBranch(branchId);
+  store.deleteBranchTickets(branchId);
+  store.deleteBranchTicketEvents(branchId);
+  store.deleteBranchSurveyResponses(branchId);
+  store.deleteBranchCounterBreaks(branchId);
+  store.deletePastAppointments(branchId);
+  store.getCounters()
+    .filter(c => c.branchId === branchId)
+    .forEach(c => store.saveCounter({ ...backFromBreak(c), status: 'idle', currentTicketId: undefined }));
+  store.resetTicketNumbers(branchId);
+  store.deleteBusinessDays(branchId);
+  return store.getState();
+});
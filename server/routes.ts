@@ -0,0 +1,505 @@
+import express, { NextFunction, Request, Response } from 'express';
+import fs from 'fs';
+import { AppState, BreakReason, Category, Role, StatePatch } from '../src/types';
+import { validateConfigBackup, validateLegacyState } from '../src/utils/exportImport';
+import { BREAK_REASON_LABEL_KEYS } from '../src/utils/counters';
+import { validateDisplayProfile } from '../src/utils/displayProfiles';
+import { DEFAULT_LOCALE, isLocale, translator } from '../src/utils/i18n';
+import { validateInsightsInput } from '../src/utils/insights';
+import { ROLE_LABEL_KEYS } from '../src/utils/permissions';
+import { validateSurveyAnswer } from '../src/utils/satisfaction';
+import { validateSimulationParams } from '../src/utils/simulator';
+import { SLA_DEFAULTS } from '../src/utils/sla';
+import * as store from './db';
+import * as queue from './queue';
+import { HttpError } from './errors';
+import * as events from './events';
+import { isSettingsSection, parseSettingsSection } from './settings';
+import * as printing from './printing';
+import { generateInsights } from './insights';
+import { getTicketTracking } from './tracking';
+import { visiblePatch, visibleState } from './visibility';
+import { ALL_ROLES, allow, hashPassword, login, logout, publicSession, sessionOf } from './auth';
+
+export const api = express.Router();
+
+const counterIdParam = (req: Request) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) throw new HttpError(400, 'Identificador de ventanilla inválido');
+  return id;
+};
+
+// Send the action result to the caller and push it to every other connected screen.
+const sendPatch = (res: Response, patch: StatePatch, status = 200) => {
+  events.broadcastPatch(patch);
+  res.status(status).json(visiblePatch(patch, sessionOf(res).user));
+};
+
+const sendState = (res: Response, state: AppState, status = 200) => {
+  events.broadcastResync();
+  res.status(status).json(state);
+};
+
+const userIdOf = (res: Response) => sessionOf(res).user.id;
+
+// Users bound to a branch only act on that branch; unknown targets are left for the action to reject.
+const checkBranch = (res: Response, branchId: string | undefined) => {
+  const { user } = sessionOf(res);
+  if (user.branchId && branchId !== undefined && branchId !== user.branchId) {
+    throw new HttpError(403, 'Solo puede operar en su sucursal');
+  }
+};
+
+// Advisors may only operate the counter they are signed in at; supervisors and admins any of their branch.
+const operableCounterId = (req: Request, res: Response) => {
+  const id = counterIdParam(req);
+  const { user } = sessionOf(res);
+  const counter = store.getCounter(id);
+  if (user.role === 'advisor' && counter?.userId !== user.id) {
+    throw new HttpError(403, 'Solo puede operar la ventanilla en la que inició sesión');
+  }
+  checkBranch(res, counter?.branchId);
+  return id;
+};
+
+const branchIdParam = (value: unknown) => {
+  if (typeof value !== 'string' || !value) throw new HttpError(400, 'branchId es obligatorio');
+  return value;
+};
+
+const COUNTER_STAFF: Role[] = ['admin', 'supervisor', 'advisor'];
+const ISSUERS: Role[] = ['admin', 'supervisor', 'kiosk'];
+
+// --- Session ---
+
+api.post('/auth/login', (req, res) => {
+  const { username, password } = req.body ?? {};
+  if (typeof username !== 'string' || typeof password !== 'string') throw new HttpError(400, 'Usuario y contraseña son obligatorios');
+  res.json(login(res, username, password));
+});
+
+api.post('/auth/logout', (req, res) => {
+  const userId = logout(req, res);
+  if (userId) events.broadcastPatch(queue.signOut(userId));
+  res.status(204).end();
+});
+
+api.get('/auth/me', allow(...ALL_ROLES), (_req, res) => {
+  res.json(publicSession(sessionOf(res).user));
+});
+
+api.put('/auth/counter', allow('advisor'), (req, res) => {
+  const { counterId } = req.body ?? {};
+  if (counterId !== null && !Number.isInteger(counterId)) throw new HttpError(400, 'counterId inválido');
+  if (counterId !== null) checkBranch(res, store.getCounter(counterId)?.branchId);
+  events.broadcastPatch(queue.assignCounter(userIdOf(res), counterId ?? undefined));
+  res.json(publicSession(sessionOf(res).user));
+});
+
+api.get('/state', allow(...ALL_ROLES), (_req, res) => {
+  res.json(visibleState(store.getState(), sessionOf(res).user));
+});
+
+api.get('/events', allow(...ALL_ROLES), events.subscribe);
+
+// Customer-facing endpoints, reached from the QR code on the printed ticket. The ticket id is the only key.
+api.get('/public/tickets/:id', (req, res) => {
+  const tracking = getTicketTracking([req.params.id]).get(req.params.id);
+  if (!tracking) throw new HttpError(404, 'Turno no encontrado');
+  res.json(tracking);
+});
+
+api.get('/public/tickets/:id/events', (req, res) => {
+  events.subscribeTicket(req, res, req.params.id);
+});
+
+const surveyAnswer = (req: Request) => {
+  try {
+    return validateSurveyAnswer(req.body);
+  } catch (err) {
+    throw new HttpError(400, (err as Error).message);
+  }
+};
+
+// Answered on the customer's phone after the service. Staff screens get the patch; the customer only an acknowledgement.
+api.post('/public/tickets/:id/survey', (req, res) => {
+  events.broadcastPatch(queue.submitSurvey(req.params.id, surveyAnswer(req), 'qr'));
+  res.status(204).end();
+});
+
+// Language the customer picked at the kiosk, for the printed ticket and its reprints.
+const localeParam = (value: unknown) => (isLocale(value) ? value : undefined);
+
+api.post('/tickets', allow(...ISSUERS), (req, res) => {
+  const { categoryId, locale } = req.body ?? {};
+  if (typeof categoryId !== 'string') throw new HttpError(400, 'categoryId es obligatorio');
+  checkBranch(res, store.getCategory(categoryId)?.branchId);
+  const patch = queue.createTicket(categoryId, userIdOf(res), localeParam(locale));
+  sendPatch(res, patch, 201);
+  printing.autoPrintTicket(patch.tickets![0].id, localeParam(locale));
+});
+
+api.post('/appointments', allow(...COUNTER_STAFF), (req, res) => {
+  const { categoryId, scheduledAt, customerName } = req.body ?? {};
+  if (typeof categoryId !== 'string') throw new HttpError(400, 'categoryId es obligatorio');
+  if (!Number.isInteger(scheduledAt)) throw new HttpError(400, 'scheduledAt inválido');
+  if (typeof customerName !== 'string' || !customerName.trim()) throw new HttpError(400, 'El nombre del cliente es obligatorio');
+  checkBranch(res, store.getCategory(categoryId)?.branchId);
+  sendPatch(res, queue.bookAppointment({ categoryId, scheduledAt, customerName: customerName.trim() }, userIdOf(res)), 201);
+});
+
+api.post('/appointments/check-in', allow(...ISSUERS), (req, res) => {
+  const { code, locale } = req.body ?? {};
+  if (typeof code !== 'string' || !code.trim()) throw new HttpError(400, translator(localeParam(locale) ?? DEFAULT_LOCALE)('kiosk.enterCode'));
+  const patch = queue.checkInAppointment(code, userIdOf(res), sessionOf(res).user.branchId, localeParam(locale));
+  sendPatch(res, patch, 201);
+  printing.autoPrintTicket(patch.tickets![0].id, localeParam(locale));
+});
+
+api.post('/appointments/:id/cancel', allow(...COUNTER_STAFF), (req, res) => {
+  const appointment = store.getAppointment(req.params.id);
+  checkBranch(res, appointment && store.getCategory(appointment.categoryId)?.branchId);
+  sendPatch(res, queue.cancelAppointment(req.params.id));
+});
+
+api.delete('/tickets', allow('admin'), (req, res) => {
+  sendState(res, queue.clearData(branchIdParam(req.query.branchId)));
+});
+
+const simulationParams = (req: Request) => {
+  try {
+    return validateSimulationParams(req.body);
+  } catch (err) {
+    throw new HttpError(400, (err as Error).message);
+  }
+};
+
+api.post('/tickets/synthetic', allow('admin'), (req, res) => {
+  sendState(res, queue.generateData(branchIdParam(req.body?.branchId), simulationParams(req)), 201);
+});
+
+api.post('/simulations', allow('admin', 'supervisor'), (req, res) => {
+  const branchId = branchIdParam(req.body?.branchId);
+  checkBranch(res, branchId);
+  res.json(queue.compareScenario(branchId, simulationParams(req)));
+});
+
+// Written summary of the Analytics selection; only aggregated figures reach the provider.
+const insightsInput = (req: Request) => {
+  try {
+    return validateInsightsInput(req.body);
+  } catch (err) {
+    throw new HttpError(400, (err as Error).message);
+  }
+};
+
+api.post('/insights', allow('admin', 'supervisor'), (req, res, next) => {
+  generateInsights(insightsInput(req)).then(insights => res.json(insights), next);
+});
+
+api.post('/tickets/:id/reinstate', allow(...COUNTER_STAFF), (req, res) => {
+  checkBranch(res, store.getTicket(req.params.id)?.branchId);
+  sendPatch(res, queue.reinstateTicket(req.params.id, userIdOf(res)));
+});
+
+// Answered on the tablet at the counter, signed in as a kiosk.
+api.post('/tickets/:id/survey', allow(...ISSUERS), (req, res) => {
+  checkBranch(res, store.getTicket(req.params.id)?.branchId);
+  sendPatch(res, queue.submitSurvey(req.params.id, surveyAnswer(req), 'counter'), 201);
+});
+
+// --- Ticket log ---
+
+const EVENT_LIMIT_MAX = 500;
+
+api.get('/tickets/:id/events', allow('admin', 'supervisor'), (req, res) => {
+  const ticket = store.getTicket(req.params.id);
+  if (!ticket) throw new HttpError(404, 'Turno no encontrado');
+  checkBranch(res, ticket.branchId);
+  res.json(store.getTicketEvents(ticket.id));
+});
+
+api.get('/ticket-events', allow('admin', 'supervisor'), (req, res) => {
+  const branchId = branchIdParam(req.query.branchId);
+  checkBranch(res, branchId);
+  const limit = Number(req.query.limit ?? 50);
+  if (!Number.isInteger(limit) || limit < 1 || limit > EVENT_LIMIT_MAX) throw new HttpError(400, `El límite debe estar entre 1 y ${EVENT_LIMIT_MAX}`);
+  res.json(store.getRecentTicketEvents(branchId, limit));
+});
+
+api.post('/tickets/:id/undo', allow('admin', 'supervisor'), (req, res) => {
+  checkBranch(res, store.getTicket(req.params.id)?.branchId);
+  sendPatch(res, queue.undoTicketEvent(req.params.id, userIdOf(res)));
+});
+
+api.post('/tickets/:id/print', allow(...ISSUERS), (req, res, next) => {
+  checkBranch(res, store.getTicket(req.params.id)?.branchId);
+  printing.printTicket(req.params.id, localeParam(req.body?.locale)).then(destination => res.json({ destination }), next);
+});
+
+api.post('/printing/test', allow('admin'), (_req, res, next) => {
+  printing.printTestTicket().then(destination => res.json({ destination }), next);
+});
+
+api.post('/counters/:id/call', allow(...COUNTER_STAFF), (req, res) => {
+  sendPatch(res, queue.callNextTicket(operableCounterId(req, res), userIdOf(res)));
+});
+
+api.post('/counters/:id/recall', allow(...COUNTER_STAFF), (req, res) => {
+  sendPatch(res, queue.recallTicket(operableCounterId(req, res), userIdOf(res)));
+});
+
+api.post('/counters/:id/start', allow(...COUNTER_STAFF), (req, res) => {
+  sendPatch(res, queue.startServing(operableCounterId(req, res), userIdOf(res)));
+});
+
+api.post('/counters/:id/complete', allow(...COUNTER_STAFF), (req, res) => {
+  const { status } = req.body ?? {};
+  if (status !== 'completed' && status !== 'no-show') throw new HttpError(400, 'Estado de cierre inválido');
+  sendPatch(res, queue.completeTicket(operableCounterId(req, res), status, userIdOf(res)));
+});
+
+const priorityParam = (value: unknown) => {
+  const priority = Number(value ?? 1);
+  if (!Number.isInteger(priority) || priority < 1 || priority > 5) throw new HttpError(400, 'La prioridad debe ser un entero entre 1 y 5');
+  return priority;
+};
+
+api.post('/counters/:id/transfer', allow(...COUNTER_STAFF), (req, res) => {
+  const { categoryId, counterId } = req.body ?? {};
+  if (categoryId === undefined && counterId === undefined) throw new HttpError(400, 'Indique la categoría o ventanilla de destino');
+  if (categoryId !== undefined && typeof categoryId !== 'string') throw new HttpError(400, 'categoryId inválido');
+  if (counterId !== undefined && !Number.isInteger(counterId)) throw new HttpError(400, 'counterId inválido');
+  sendPatch(res, queue.transferTicket(operableCounterId(req, res), { categoryId, counterId }, userIdOf(res)));
+});
+
+api.post('/counters/:id/break', allow(...COUNTER_STAFF), (req, res) => {
+  const { reason } = req.body ?? {};
+  if (typeof reason !== 'string' || !Object.keys(BREAK_REASON_LABEL_KEYS).includes(reason)) throw new HttpError(400, 'Motivo de pausa desconocido');
+  sendPatch(res, queue.startBreak(operableCounterId(req, res), reason as BreakReason));
+});
+
+api.post('/counters/:id/resume', allow(...COUNTER_STAFF), (req, res) => {
+  sendPatch(res, queue.endBreak(operableCounterId(req, res)));
+});
+
+const counterNameParam = (value: unknown) => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, 'El nombre de la ventanilla es obligatorio');
+  return value.trim();
+};
+
+const categoryIdsParam = (value: unknown) => {
+  if (!Array.isArray(value) || value.some(id => typeof id !== 'string')) {
+    throw new HttpError(400, 'categoryIds debe ser una lista de identificadores');
+  }
+  return value as string[];
+};
+
+api.post('/counters', allow('admin'), (req, res) => {
+  const { branchId, name, categoryIds } = req.body ?? {};
+  sendPatch(res, queue.addCounter({
+    branchId: branchIdParam(branchId),
+    name: counterNameParam(name),
+    categoryIds: categoryIdsParam(categoryIds ?? []),
+  }), 201);
+});
+
+api.patch('/counters/:id', allow('admin'), (req, res) => {
+  const { name, categoryIds } = req.body ?? {};
+  sendPatch(res, queue.updateCounter(counterIdParam(req), {
+    ...(name !== undefined && { name: counterNameParam(name) }),
+    ...(categoryIds !== undefined && { categoryIds: categoryIdsParam(categoryIds) }),
+  }));
+});
+
+api.delete('/counters/:id', allow('admin'), (req, res) => {
+  sendPatch(res, queue.removeCounter(counterIdParam(req)));
+});
+
+const minutesParam = (value: unknown, label: string) => {
+  const minutes = Number(value);
+  if (!Number.isInteger(minutes) || minutes < 1) throw new HttpError(400, `${label} debe ser un número entero de minutos mayor que cero`);
+  return minutes;
+};
+
+// Customer-facing names in other languages; blank entries fall back to the category name.
+const translationsParam = (value: unknown) => {
+  if (typeof value !== 'object' || value === null || Object.entries(value).some(([locale, name]) => !isLocale(locale) || typeof name !== 'string')) {
+    throw new HttpError(400, 'Traducciones inválidas');
+  }
+  const names = Object.entries(value as Record<string, string>).map(([locale, name]) => [locale, name.trim()]).filter(([, name]) => name);
+  return names.length ? Object.fromEntries(names) as Category['translations'] : undefined;
+};
+
+api.post('/categories', allow('admin'), (req, res) => {
+  const { branchId, name, prefix, color, priority, maxWaitMinutes, maxServiceMinutes, translations } = req.body ?? {};
+  if (!name || !prefix || typeof color !== 'string') throw new HttpError(400, 'Nombre, prefijo y color son obligatorios');
+  sendPatch(res, queue.addCategory({
+    branchId: branchIdParam(branchId),
+    name: String(name),
+    prefix: String(prefix).toUpperCase(),
+    color,
+    priority: priorityParam(priority),
+    maxWaitMinutes: minutesParam(maxWaitMinutes ?? SLA_DEFAULTS.maxWaitMinutes, 'La espera máxima'),
+    maxServiceMinutes: minutesParam(maxServiceMinutes ?? SLA_DEFAULTS.maxServiceMinutes, 'La atención máxima'),
+    translations: translationsParam(translations ?? {}),
+  }), 201);
+});
+
+api.patch('/categories/:id', allow('admin'), (req, res) => {
+  const { priority, maxWaitMinutes, maxServiceMinutes, translations } = req.body ?? {};
+  sendPatch(res, queue.updateCategory(req.params.id, {
+    ...(translations !== undefined && { translations: translationsParam(translations) }),
+    ...(priority !== undefined && { priority: priorityParam(priority) }),
+    ...(maxWaitMinutes !== undefined && { maxWaitMinutes: minutesParam(maxWaitMinutes, 'La espera máxima') }),
+    ...(maxServiceMinutes !== undefined && { maxServiceMinutes: minutesParam(maxServiceMinutes, 'La atención máxima') }),
+  }));
+});
+
+api.delete('/categories/:id', allow('admin'), (req, res) => {
+  sendPatch(res, queue.removeCategory(req.params.id));
+});
+
+const branchNameParam = (value: unknown) => {
+  if (typeof value !== 'string' || !value.trim()) throw new HttpError(400, 'El nombre de la sucursal es obligatorio');
+  return value.trim();
+};
+
+api.post('/branches', allow('admin'), (req, res) => {
+  const { name, templateBranchId } = req.body ?? {};
+  if (templateBranchId !== undefined && typeof templateBranchId !== 'string') throw new HttpError(400, 'templateBranchId inválido');
+  sendPatch(res, queue.addBranch(branchNameParam(name), templateBranchId), 201);
+});
+
+api.patch('/branches/:id', allow('admin'), (req, res) => {
+  sendPatch(res, queue.renameBranch(req.params.id, branchNameParam(req.body?.name)));
+});
+
+api.delete('/branches/:id', allow('admin'), (req, res) => {
+  sendPatch(res, queue.removeBranch(req.params.id));
+});
+
+// Use another branch's categories as a template.
+api.post('/branches/:id/categories/copy', allow('admin'), (req, res) => {
+  sendPatch(res, queue.copyCategories(branchIdParam(req.body?.fromBranchId), req.params.id), 201);
+});
+
+const displayProfileParams = (req: Request) => {
+  try {
+    return validateDisplayProfile(req.body);
+  } catch (err) {
+    throw new HttpError(400, (err as Error).message);
+  }
+};
+
+api.post('/display-profiles', allow('admin'), (req, res) => {
+  sendPatch(res, queue.addDisplayProfile({ ...displayProfileParams(req), branchId: branchIdParam(req.body?.branchId) }), 201);
+});
+
+api.put('/display-profiles/:id', allow('admin'), (req, res) => {
+  sendPatch(res, queue.updateDisplayProfile(req.params.id, displayProfileParams(req)));
+});
+
+api.delete('/display-profiles/:id', allow('admin'), (req, res) => {
+  sendPatch(res, queue.removeDisplayProfile(req.params.id));
+});
+
+// Each branch opens and closes its own day.
+api.post('/business-day/close', allow('admin', 'supervisor'), (req, res) => {
+  const branchId = branchIdParam(req.body?.branchId);
+  checkBranch(res, branchId);
+  sendPatch(res, queue.closeBusinessDay(branchId));
+});
+
+api.post('/business-day/reopen', allow('admin', 'supervisor'), (req, res) => {
+  const branchId = branchIdParam(req.body?.branchId);
+  checkBranch(res, branchId);
+  sendPatch(res, queue.reopenBusinessDay(branchId));
+});
+
+api.put('/config', allow('admin'), (req, res) => {
+  let backup;
+  try {
+    backup = validateConfigBackup(req.body);
+  } catch (err) {
+    throw new HttpError(400, (err as Error).message);
+  }
+  sendState(res, queue.restoreConfig(backup));
+});
+
+api.post('/config/legacy', allow('admin'), (req, res) => {
+  let legacy;
+  try {
+    legacy = validateLegacyState(req.body);
+  } catch (err) {
+    throw new HttpError(400, (err as Error).message);
+  }
+  sendState(res, queue.importLegacyState(legacy));
+});
+
+// Whole database, tickets and history included. Copying the file of a running server can miss recent writes.
+api.get('/database/backup', allow('admin'), (_req, res, next) => {
+  store.backupDatabase().then(file => {
+    res.download(file, `queuemaster-${new Date().toISOString().slice(0, 10)}.db`, err => {
+      fs.rm(file, { force: true }, () => undefined);
+      if (err && !res.headersSent) next(err);
+    });
+  }, next);
+});
+
+api.put('/settings/:section', allow('admin'), (req, res) => {
+  const { section } = req.params;
+  if (!isSettingsSection(section)) throw new HttpError(404, 'Sección de configuración desconocida');
+  sendPatch(res, queue.updateSettings({ [section]: parseSettingsSection(section, req.body) }));
+});
+
+// --- Users ---
+
+const roleParam = (value: unknown) => {
+  if (typeof value !== 'string' || !Object.keys(ROLE_LABEL_KEYS).includes(value)) throw new HttpError(400, 'Rol desconocido');
+  return value as Role;
+};
+
+const passwordParam = (value: unknown) => {
+  if (typeof value !== 'string' || value.length < 6) throw new HttpError(400, 'La contraseña debe tener al menos 6 caracteres');
+  return value;
+};
+
+// null unbinds the user from any branch.
+const userBranchParam = (value: unknown) => {
+  if (value !== null && typeof value !== 'string') throw new HttpError(400, 'branchId inválido');
+  return (value as string | null) || undefined;
+};
+
+api.post('/users', allow('admin'), (req, res) => {
+  const { username, name, role, password, branchId } = req.body ?? {};
+  if (typeof username !== 'string' || !/^[\w.-]{3,32}$/.test(username)) {
+    throw new HttpError(400, 'El usuario debe tener de 3 a 32 letras, números, puntos o guiones');
+  }
+  if (typeof name !== 'string' || !name.trim()) throw new HttpError(400, 'El nombre es obligatorio');
+  const input = { username, name: name.trim(), role: roleParam(role), branchId: userBranchParam(branchId ?? null) };
+  sendPatch(res, queue.createUser(input, hashPassword(passwordParam(password))), 201);
+});
+
+api.patch('/users/:id', allow('admin'), (req, res) => {
+  const { name, role, active, password, branchId } = req.body ?? {};
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) throw new HttpError(400, 'El nombre es obligatorio');
+  if (active !== undefined && typeof active !== 'boolean') throw new HttpError(400, 'active debe ser verdadero o falso');
+  const changes = {
+    ...(name !== undefined && { name: name.trim() }),
+    ...(role !== undefined && { role: roleParam(role) }),
+    ...(active !== undefined && { active }),
+    ...(branchId !== undefined && { branchId: userBranchParam(branchId) }),
+  };
+  const passwordHash = password !== undefined ? hashPassword(passwordParam(password)) : undefined;
+  sendPatch(res, queue.updateUser(req.params.id, changes, userIdOf(res), passwordHash));
+});
+
+api.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+  if (err instanceof HttpError) {
+    res.status(err.status).json({ error: err.message });
+    return;
+  }
+  console.error(err);
+  res.status(500).json({ error: 'Error interno del servidor' });
+});
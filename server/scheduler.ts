@@ -0,0 +1,17 @@
+import * as events from './events';
+import * as queue from './queue';
+
+const TICK_MS = 60_000;
+
+// Keep the business day in step with the clock even when nobody touches the kiosk.
+export function startScheduler() {
+  const tick = () => {
+    try {
+      events.broadcastPatch(queue.advanceBusinessDay());
+    } catch (err) {
+      console.error('Error al actualizar la jornada:', err);
+    }
+  };
+  tick();
+  setInterval(tick, TICK_MS).unref();
+}
@@ -0,0 +1,109 @@
+import { AppSettings } from '../src/types';
+import { QUEUE_POLICY_LABEL_KEYS } from '../src/utils/prioritization';
+import { DEFAULT_LOCALE, translator } from '../src/utils/i18n';
+import { WEEKDAY_KEYS } from '../src/utils/schedule';
+import { HttpError } from './errors';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const weekdayName = (day: number) => translator(DEFAULT_LOCALE)(WEEKDAY_KEYS[day]).toLowerCase();
+
+type SettingsParsers = { [K in keyof AppSettings]: (body: Record<string, unknown>) => AppSettings[K] };
+
+// Validate one settings section as sent by the admin panel or found in a configuration backup.
+export const settingsParsers: SettingsParsers = {
+  queue: ({ policy, agingMinutesPerLevel, noShowGraceMinutes, slaTargetPercent }) => {
+    if (typeof policy !== 'string' || !Object.keys(QUEUE_POLICY_LABEL_KEYS).includes(policy)) {
+      throw new HttpError(400, 'Política de atención desconocida');
+    }
+    const aging = Number(agingMinutesPerLevel);
+    if (!(aging > 0)) throw new HttpError(400, 'Los minutos por nivel deben ser mayores que cero');
+    const grace = Number(noShowGraceMinutes);
+    if (!(grace >= 0)) throw new HttpError(400, 'El período de gracia no puede ser negativo');
+    const target = Number(slaTargetPercent ?? 90);
+    if (!(target > 0 && target <= 100)) throw new HttpError(400, 'La meta de nivel de servicio debe estar entre 1 y 100%');
+    return { policy: policy as AppSettings['queue']['policy'], agingMinutesPerLevel: aging, noShowGraceMinutes: grace, slaTargetPercent: target };
+  },
+
+  announcements: ({ enabled, chime, volume, lang, voiceURI, repeat }) => {
+    const vol = Number(volume);
+    const times = Number(repeat);
+    if (!(vol >= 0 && vol <= 1)) throw new HttpError(400, 'El volumen debe estar entre 0 y 1');
+    if (!Number.isInteger(times) || times < 1 || times > 5) throw new HttpError(400, 'Las repeticiones deben estar entre 1 y 5');
+    if (typeof lang !== 'string' || !lang) throw new HttpError(400, 'Idioma inválido');
+    return {
+      enabled: Boolean(enabled),
+      chime: Boolean(chime),
+      volume: vol,
+      lang,
+      voiceURI: typeof voiceURI === 'string' ? voiceURI : '',
+      repeat: times,
+    };
+  },
+
+  printing: ({ enabled, target, host, port, branchName, headerText, footerText, showEstimate, showQr }) => {
+    if (target !== 'browser' && target !== 'network' && target !== 'file') {
+      throw new HttpError(400, 'Destino de impresión desconocido');
+    }
+    const printerPort = Number(port);
+    if (!Number.isInteger(printerPort) || printerPort < 1 || printerPort > 65535) throw new HttpError(400, 'Puerto de impresora inválido');
+    const printerHost = typeof host === 'string' ? host.trim() : '';
+    if (target === 'network' && !printerHost) throw new HttpError(400, 'Indique la dirección de la impresora');
+    const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+    return {
+      enabled: Boolean(enabled),
+      target,
+      host: printerHost,
+      port: printerPort,
+      branchName: text(branchName),
+      headerText: text(headerText),
+      footerText: text(footerText),
+      showEstimate: Boolean(showEstimate),
+      showQr: Boolean(showQr),
+    };
+  },
+
+  schedule: ({ enforceHours, week, holidays }) => {
+    if (!Array.isArray(week) || week.length !== 7) throw new HttpError(400, 'El horario debe incluir los siete días de la semana');
+    const parsedWeek = week.map((hours, day) => {
+      if (hours === null) return null;
+      const { open, close } = (hours ?? {}) as Record<string, unknown>;
+      if (typeof open !== 'string' || !TIME_PATTERN.test(open) || typeof close !== 'string' || !TIME_PATTERN.test(close)) {
+        throw new HttpError(400, `Horario inválido para el ${weekdayName(day)}`);
+      }
+      // 'HH:mm' strings compare in time order
+      if (open >= close) throw new HttpError(400, `El ${weekdayName(day)} debe cerrar después de abrir`);
+      return { open, close };
+    });
+    if (!Array.isArray(holidays) || holidays.some(date => typeof date !== 'string' || !DATE_PATTERN.test(date))) {
+      throw new HttpError(400, 'Los feriados deben ser fechas AAAA-MM-DD');
+    }
+    return {
+      enforceHours: Boolean(enforceHours),
+      week: parsedWeek,
+      holidays: [...new Set(holidays as string[])].sort(),
+    };
+  },
+
+  appointments: ({ slotMinutes, slotCapacity, earlyCheckInMinutes, lateToleranceMinutes, missedAfterMinutes }) => {
+    const slot = Number(slotMinutes);
+    const capacity = Number(slotCapacity);
+    const early = Number(earlyCheckInMinutes);
+    const tolerance = Number(lateToleranceMinutes);
+    const missed = Number(missedAfterMinutes);
+    if (!Number.isInteger(slot) || slot < 5 || slot > 240) throw new HttpError(400, 'La duración del turno de cita debe estar entre 5 y 240 minutos');
+    if (!Number.isInteger(capacity) || capacity < 1) throw new HttpError(400, 'Cada turno de cita debe admitir al menos una cita');
+    if (!(early >= 0) || !(tolerance >= 0)) throw new HttpError(400, 'Los márgenes de llegada no pueden ser negativos');
+    if (!(missed > tolerance)) throw new HttpError(400, 'Una cita solo puede darse por perdida después de la tolerancia de retraso');
+    return { slotMinutes: slot, slotCapacity: capacity, earlyCheckInMinutes: early, lateToleranceMinutes: tolerance, missedAfterMinutes: missed };
+  },
+};
+
+export const isSettingsSection = (section: string): section is keyof AppSettings =>
+  Object.prototype.hasOwnProperty.call(settingsParsers, section);
+
+export function parseSettingsSection<K extends keyof AppSettings>(section: K, body: unknown): AppSettings[K] {
+  if (typeof body !== 'object' || body === null) throw new HttpError(400, 'Configuración inválida');
+  return settingsParsers[section](body as Record<string, unknown>);
+}
@@ -0,0 +1,49 @@
+import { AppState, Ticket, TicketTracking } from '../src/types';
+import { trackTicket } from '../src/utils/ticketTracking';
+import { HISTORY_DAYS, WaitHistory, buildWaitHistory } from '../src/utils/waitEstimator';
+import * as store from './db';
+
+// Past waits move slowly, so each branch's history is rebuilt at most this often.
+const HISTORY_TTL_MS = 5 * 60_000;
+// Latest calls read for the queue policies, as many as the estimator looks at.
+const RECENT_CALLS = 20;
+
+const histories = new Map<string, { history: WaitHistory; builtAt: number }>();
+
+/** Past waits of one branch, rebuilt at most every HISTORY_TTL_MS. */
+export function branchHistory(branchId: string, now = Date.now()) {
+  const cached = histories.get(branchId);
+  if (cached && now - cached.builtAt < HISTORY_TTL_MS) return cached.history;
+  const history = buildWaitHistory(store.getBranchTicketsSince(branchId, now - HISTORY_DAYS * 24 * 3_600_000), now);
+  histories.set(branchId, { history, builtAt: now });
+  return history;
+}
+
+// What estimating a wait needs from one branch, without the rest of its history.
+export function branchQueue(branchId: string): Pick<AppState, 'tickets' | 'counters' | 'categories' | 'settings'> {
+  const active = store.getActiveBranchTickets(branchId);
+  const ids = new Set(active.map(t => t.id));
+  return {
+    tickets: [...active, ...store.getRecentCalls(branchId, RECENT_CALLS).filter(t => !ids.has(t.id))],
+    counters: store.getCounters().filter(c => c.branchId === branchId),
+    categories: store.getCategories().filter(c => c.branchId === branchId),
+    settings: store.getSettings(),
+  };
+}
+
+/** Public view of each requested ticket, reading each branch's queue once for all of them. */
+export function getTicketTracking(ticketIds: string[]): Map<string, TicketTracking | undefined> {
+  const now = Date.now();
+  const tickets = new Map(ticketIds.map(id => [id, store.getTicket(id)]));
+  const queues = new Map<string, ReturnType<typeof branchQueue>>();
+  const queueOf = (ticket: Ticket) => {
+    if (!queues.has(ticket.branchId)) queues.set(ticket.branchId, branchQueue(ticket.branchId));
+    return queues.get(ticket.branchId)!;
+  };
+  return new Map(ticketIds.map(id => {
+    const ticket = tickets.get(id);
+    if (!ticket) return [id, undefined];
+    const answered = ticket.status === 'completed' && store.getSurveyResponseForTicket(id) !== undefined;
+    return [id, trackTicket(ticket, queueOf(ticket), branchHistory(ticket.branchId, now), answered, now)];
+  }));
+}
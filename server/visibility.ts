@@ -0,0 +1,75 @@
+import { AppState, StatePatch, User } from '../src/types';
+import { scopeToBranch } from '../src/utils/branches';
+import { isUnattended } from '../src/utils/permissions';
+import * as store from './db';
+
+// What of the state each session is sent. Admins run every branch and get all of it; anyone else bound
+// to a branch gets only that branch. Kiosks and TVs stand unattended in public areas, so they get no
+// user accounts and no appointments (booking codes and customer names).
+
+interface Audience {
+  branchId?: string;
+  unattended: boolean;
+}
+
+const audienceOf = (user: User): Audience => ({
+  branchId: user.role === 'admin' ? undefined : user.branchId,
+  unattended: isUnattended(user.role),
+});
+
+/** Same key, same view of the state: lets a broadcast scope each patch once per audience. */
+export function audienceKey(user: User) {
+  const { branchId, unattended } = audienceOf(user);
+  return `${branchId ?? '*'}:${unattended}`;
+}
+
+const pickKeys = (numbers: Record<string, number>, ids: Set<string>) =>
+  Object.fromEntries(Object.entries(numbers).filter(([id]) => ids.has(id)));
+
+// Users of the branch, plus the unbound ones who may cover its counters.
+const branchUsers = (users: User[], branchId: string) => users.filter(u => !u.branchId || u.branchId === branchId);
+
+export function visibleState(state: AppState, user: User): AppState {
+  const { branchId, unattended } = audienceOf(user);
+  let visible = state;
+  if (branchId) {
+    const scoped = scopeToBranch(state, branchId);
+    visible = {
+      ...scoped,
+      branches: state.branches.filter(b => b.id === branchId),
+      nextTicketNumber: pickKeys(state.nextTicketNumber, new Set(scoped.categories.map(c => c.id))),
+      users: branchUsers(state.users, branchId),
+    };
+  }
+  return unattended ? { ...visible, users: [], appointments: [] } : visible;
+}
+
+// What is left once a patch is scoped may be only empty lists and maps.
+export const isEmptyPatch = (patch: StatePatch) =>
+  Object.values(patch).every(value => value === undefined || (typeof value === 'object' && Object.keys(value).length === 0));
+
+export function visiblePatch(patch: StatePatch, user: User): StatePatch {
+  const { branchId, unattended } = audienceOf(user);
+  let visible = patch;
+  if (branchId) {
+    // Breaks and appointments only point at their counter or category, so look up which are this branch's
+    const categoryIds = new Set(store.getCategories().filter(c => c.branchId === branchId).map(c => c.id));
+    const counterIds = new Set(store.getCounters().filter(c => c.branchId === branchId).map(c => c.id));
+    const inBranch = <T extends { branchId: string }>(items?: T[]) => items?.filter(item => item.branchId === branchId);
+    visible = {
+      ...patch,
+      branches: patch.branches?.filter(b => b.id === branchId),
+      categories: inBranch(patch.categories),
+      counters: inBranch(patch.counters),
+      displayProfiles: inBranch(patch.displayProfiles),
+      tickets: inBranch(patch.tickets),
+      nextTicketNumber: patch.nextTicketNumber && pickKeys(patch.nextTicketNumber, categoryIds),
+      businessDays: inBranch(patch.businessDays),
+      users: patch.users && branchUsers(patch.users, branchId),
+      counterBreaks: patch.counterBreaks?.filter(b => counterIds.has(b.counterId)),
+      appointments: patch.appointments?.filter(a => categoryIds.has(a.categoryId)),
+      surveyResponses: inBranch(patch.surveyResponses),
+    };
+  }
+  return unattended ? { ...visible, users: undefined, appointments: undefined } : visible;
+}
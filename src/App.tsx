@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   LayoutDashboard, 
   Monitor, 
@@ -17,163 +17,362 @@ import {
   ArrowRight,
   Plus,
   Trash2,
-  Volume2
+  Volume2,
+  Printer,
+  LogOut,
+  Coffee,
+  Activity,
+  CalendarDays,
+  Building2,
+  Languages,
+  History,
+  Undo2,
+  Sparkles,
+  Star
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import { 
-  LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend 
+  LineChart, Line, BarChart, Bar, ComposedChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend, ReferenceLine 
 } from 'recharts';
-import { format, differenceInMinutes, startOfDay, subDays, isWithinInterval } from 'date-fns';
-import { Category, Counter, Ticket, AppState, TicketStatus } from './types';
-import { generateSyntheticData } from './utils/dataGenerator';
+import { format, differenceInMinutes, startOfDay, subDays, addDays, parseISO, isWithinInterval } from 'date-fns';
+import { Appointment, AppointmentSettings, AppointmentStatus, Branch, BreakReason, Category, Counter, CounterBreak, DisplayProfile, TickerMessage, Ticket, AppState, StatePatch, TicketEvent, SurveyResponse, QueueSettings, AnnouncementSettings, PrintingSettings, ScheduleSettings, BusinessDay, AppView, Locale, Role, Session, User } from './types';
+import SurveyForm from './SurveyForm';
+import * as api from './utils/api';
+import { applyPatch } from './utils/statePatch';
+import { BranchComparison, activeBranchId, branchComparison, scopeToBranch } from './utils/branches';
+import { connectToServer } from './utils/sync';
+import { QUEUE_POLICY_LABEL_KEYS } from './utils/prioritization';
+import { FORECAST_HISTORY_WEEKS, staffingPlan } from './utils/forecast';
+import { DEFAULT_SIMULATION_PARAMS, SimulationComparison, SimulationParams, SimulationSummary } from './utils/simulator';
+import { APPOINTMENT_STATUS_LABEL_KEYS, appointmentStats, bookedInSlot, daySlots } from './utils/appointments';
+import { SLA_DEFAULTS, SlaStatus, complianceByCategory, dailyCompliance, slaCompliance, ticketSlaStatus, waitingSince } from './utils/sla';
+import { BREAK_REASON_LABEL_KEYS, servesCategory, waitingTicketsFor } from './utils/counters';
+import { Announcer, announcementText } from './utils/announcer';
+import { buildWaitHistory, estimateWait, WaitEstimate } from './utils/waitEstimator';
+import {
+  AnalyticsFilters, HeatmapCell, breakSummary, buildHeatmap, categoryDistribution, computeKpis, dailyVolume, filterTickets, serviceByUser, trendLabel
+} from './utils/analytics';
+import {
+  CONFIG_BACKUP_VERSION, ConfigBackup, LEGACY_STORAGE_KEY, downloadFile, filterTicketsForExport, ticketExportRows, toCsv, validateConfigBackup
+} from './utils/exportImport';
+import { ROLE_LABEL_KEYS, ROLE_VIEWS, canOpenView, isUnattended } from './utils/permissions';
+import { WEEKDAY_KEYS, WEEKDAY_SHORT_KEYS, businessDate, hoursLabel, hoursOn, ticketIssueBlock } from './utils/schedule';
+import { printHtml, renderTicketHtml, sampleTicketData, ticketPrintData } from './utils/printing/ticketPrint';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_NAMES, Translate, categoryName, formatDate, isLocale, translator } from './utils/i18n';
+import { Insights, InsightsInput, insightsInput } from './utils/insights';
+import { TICKET_EVENT_LABEL_KEYS, isUndoable, undoCandidate } from './utils/ticketEvents';
+import { SURVEY_PROMPT_MS, SURVEY_REASON_KEYS, csatByCategory, csatByCounter, csatByWait, csatSummary, dailyCsat, reasonCounts, surveyCounterId, surveyUrl, waitRatingCorrelation } from './utils/satisfaction';
+import { DEFAULT_DISPLAY_PROFILE, DisplayLayout, MAX_HISTORY_ROWS, currentTickerMessages, displayProfileId, displayProfileUrl, displayedCategories, displayedTickets, isVideoUrl } from './utils/displayProfiles';
 
-// --- Constants & Defaults ---
-const DEFAULT_CATEGORIES: Category[] = [
-  { id: '1', name: 'General', prefix: 'G', color: '#3b82f6' },
-  { id: '2', name: 'Preferencial', prefix: 'P', color: '#ef4444' },
-  { id: '3', name: 'Caja', prefix: 'C', color: '#10b981' },
-];
+// A TV opened at /tv/<id> shows that display profile.
+const urlDisplayProfileId = displayProfileId(window.location.pathname);
+// A counter tablet opened at /survey/<counterId> asks that counter's customers.
+const urlSurveyCounterId = surveyCounterId(window.location.pathname);
 
-const DEFAULT_COUNTERS: Counter[] = [
-  { id: 1, name: 'Ventanilla 1', status: 'idle' },
-  { id: 2, name: 'Ventanilla 2', status: 'idle' },
-  { id: 3, name: 'Ventanilla 3', status: 'idle' },
-];
-
-const STORAGE_KEY = 'queuemaster_state';
+// Staff screens use the language last picked on this device; customer screens have their own switch.
+const STAFF_LOCALE_KEY = 'queuemaster_staff_locale';
+const savedStaffLocale = (): Locale => {
+  const saved = localStorage.getItem(STAFF_LOCALE_KEY);
+  return isLocale(saved) ? saved : DEFAULT_LOCALE;
+};
 
 export default function App() {
-  const [view, setView] = useState<'kiosk' | 'advisor' | 'tv' | 'admin' | 'analytics'>('kiosk');
-  const [state, setState] = useState<AppState>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) return JSON.parse(saved);
-    return {
-      categories: DEFAULT_CATEGORIES,
-      counters: DEFAULT_COUNTERS,
-      tickets: [],
-      nextTicketNumber: { '1': 1, '2': 1, '3': 1 }
-    };
-  });
+  const [view, setView] = useState<AppView>(urlDisplayProfileId ? 'tv' : urlSurveyCounterId !== undefined ? 'survey' : 'kiosk');
+  const [session, setSession] = useState<Session | null | undefined>(undefined);
+  const [state, setState] = useState<AppState | null>(null);
+  const [connected, setConnected] = useState(true);
+  // Branch picked by users who are not bound to one
+  const [pickedBranchId, setPickedBranchId] = useState<string>();
+  const [locale, setLocale] = useState<Locale>(savedStaffLocale);
+  const t = translator(locale);
+
+  const changeLocale = (next: Locale) => {
+    localStorage.setItem(STAFF_LOCALE_KEY, next);
+    setLocale(next);
+  };
+
+  const signedOut = () => {
+    setSession(null);
+    setState(null);
+  };
+
+  useEffect(() => {
+    api.fetchSession().then(setSession, () => setSession(null));
+  }, []);
+
+  // Land on the role's first view, and never stay on one it may not open
+  useEffect(() => {
+    if (session) setView(current => (canOpenView(session.user.role, current) ? current : ROLE_VIEWS[session.user.role][0]));
+  }, [session?.user.role]);
+
+  const applyServerPatch = (patch: StatePatch) => {
+    setState(prev => prev && applyPatch(prev, patch));
+  };
+
+  const loadState = () => {
+    api.fetchState().then(setState, err => (err instanceof api.AuthError ? signedOut() : console.error(err)));
+  };
 
-  // Persist state
+  // Live sync with the server; a full reload on every (re)connect covers changes missed while offline
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  }, [state]);
+    if (!session) return;
+    return connectToServer({
+      onConnect: () => {
+        setConnected(true);
+        loadState();
+      },
+      onDisconnect: () => setConnected(false),
+      onMessage: message => {
+        if (message.type === 'patch') applyServerPatch(message.patch);
+        else loadState();
+      },
+    });
+  }, [session?.user.id]);
+
+  const reportError = (err: Error) => {
+    console.error(err);
+    if (err instanceof api.AuthError) signedOut();
+    else alert(err.message);
+  };
+
+  // The first version kept everything in the kiosk's browser; offer it to the server once, to an admin
+  useEffect(() => {
+    const saved = session?.user.role === 'admin' ? localStorage.getItem(LEGACY_STORAGE_KEY) : null;
+    if (!saved) return;
+    if (!confirm(t('app.legacyImport'))) {
+      if (confirm(t('app.legacyDiscard'))) localStorage.removeItem(LEGACY_STORAGE_KEY);
+      return;
+    }
+    let legacy: unknown;
+    try {
+      legacy = JSON.parse(saved);
+    } catch {
+      alert(t('app.legacyInvalid'));
+      return;
+    }
+    api.importLegacyState(legacy).then(imported => {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+      setState(imported);
+    }, reportError);
+  }, [session?.user.id]);
+
+  const logout = () => {
+    api.logout().then(signedOut, reportError);
+  };
+
+  // Advisors claim a counter on the server; null leaves it.
+  const assignCounter = (counterId: number | null) => {
+    api.assignCounter(counterId).then(setSession, reportError);
+  };
+
+  const createUser = (user: { username: string; name: string; role: Role; password: string; branchId: string | null }) => {
+    api.createUser(user).then(applyServerPatch, reportError);
+  };
+
+  const updateUser = (id: string, changes: Partial<Pick<User, 'name' | 'role' | 'active'>> & { password?: string; branchId?: string | null }) => {
+    api.updateUser(id, changes).then(applyServerPatch, reportError);
+  };
 
   // --- Actions ---
-  const createTicket = (categoryId: string) => {
-    const category = state.categories.find(c => c.id === categoryId);
-    if (!category) return;
-
-    const num = state.nextTicketNumber[categoryId] || 1;
-    const newTicket: Ticket = {
-      id: crypto.randomUUID(),
-      displayId: `${category.prefix}${String(num).padStart(3, '0')}`,
-      categoryId,
-      status: 'waiting',
-      createdAt: Date.now(),
-    };
+  const createTicket = async (categoryId: string, locale: Locale) => {
+    try {
+      const patch = await api.createTicket(categoryId, locale);
+      applyServerPatch(patch);
+      return patch.tickets?.[0];
+    } catch (err) {
+      reportError(err as Error);
+    }
+  };
 
-    setState(prev => ({
-      ...prev,
-      tickets: [...prev.tickets, newTicket],
-      nextTicketNumber: {
-        ...prev.nextTicketNumber,
-        [categoryId]: num + 1
-      }
-    }));
-    
-    return newTicket;
+  const checkInAppointment = async (code: string, locale: Locale) => {
+    try {
+      const patch = await api.checkInAppointment(code, locale);
+      applyServerPatch(patch);
+      return patch.tickets?.[0];
+    } catch (err) {
+      reportError(err as Error);
+    }
+  };
+
+  // The counter tablet shows its own error to the customer instead of an alert.
+  const submitSurvey = async (ticketId: string, answer: Pick<SurveyResponse, 'rating' | 'reasons'>) => {
+    try {
+      applyServerPatch(await api.submitSurvey(ticketId, answer));
+      return true;
+    } catch (err) {
+      console.error(err);
+      if (err instanceof api.AuthError) signedOut();
+      return false;
+    }
+  };
+
+  const bookAppointment = (appointment: Pick<Appointment, 'categoryId' | 'scheduledAt' | 'customerName'>) => {
+    api.bookAppointment(appointment).then(applyServerPatch, reportError);
+  };
+
+  const cancelAppointment = (id: string) => {
+    if (confirm(t('app.confirmCancelAppointment'))) {
+      api.cancelAppointment(id).then(applyServerPatch, reportError);
+    }
   };
 
   const callNextTicket = (counterId: number) => {
-    // Simple priority: Preferencial first, then oldest
-    const waitingTickets = state.tickets
-      .filter(t => t.status === 'waiting')
-      .sort((a, b) => {
-        const catA = state.categories.find(c => c.id === a.categoryId);
-        const catB = state.categories.find(c => c.id === b.categoryId);
-        if (catA?.prefix === 'P' && catB?.prefix !== 'P') return -1;
-        if (catA?.prefix !== 'P' && catB?.prefix === 'P') return 1;
-        return a.createdAt - b.createdAt;
-      });
+    api.callNextTicket(counterId).then(applyServerPatch, reportError);
+  };
 
-    if (waitingTickets.length === 0) return;
+  const recallTicket = (counterId: number) => {
+    api.recallTicket(counterId).then(applyServerPatch, reportError);
+  };
 
-    const ticket = waitingTickets[0];
-    const now = Date.now();
+  const reinstateTicket = (ticketId: string) => {
+    api.reinstateTicket(ticketId).then(applyServerPatch, reportError);
+  };
 
-    setState(prev => ({
-      ...prev,
-      tickets: prev.tickets.map(t => 
-        t.id === ticket.id 
-          ? { ...t, status: 'calling', calledAt: now, counterId } 
-          : t
-      ),
-      counters: prev.counters.map(c => 
-        c.id === counterId 
-          ? { ...c, status: 'busy', currentTicketId: ticket.id } 
-          : c
-      )
-    }));
+  const undoTicketEvent = (ticketId: string) => {
+    api.undoTicketEvent(ticketId).then(applyServerPatch, reportError);
   };
 
   const startServing = (counterId: number) => {
-    const counter = state.counters.find(c => c.id === counterId);
-    if (!counter?.currentTicketId) return;
-
-    setState(prev => ({
-      ...prev,
-      tickets: prev.tickets.map(t => 
-        t.id === counter.currentTicketId 
-          ? { ...t, status: 'serving', startedAt: Date.now() } 
-          : t
-      )
-    }));
+    api.startServing(counterId).then(applyServerPatch, reportError);
   };
 
   const completeTicket = (counterId: number, status: 'completed' | 'no-show') => {
-    const counter = state.counters.find(c => c.id === counterId);
-    if (!counter?.currentTicketId) return;
-
-    setState(prev => ({
-      ...prev,
-      tickets: prev.tickets.map(t => 
-        t.id === counter.currentTicketId 
-          ? { ...t, status, completedAt: Date.now() } 
-          : t
-      ),
-      counters: prev.counters.map(c => 
-        c.id === counterId 
-          ? { ...c, status: 'idle', currentTicketId: undefined } 
-          : c
-      )
-    }));
-  };
-
-  const generateData = () => {
-    const synthetic = generateSyntheticData(state.categories);
-    setState(prev => ({
-      ...prev,
-      tickets: [...prev.tickets, ...synthetic]
-    }));
-  };
-
-  const clearData = () => {
-    if (confirm('¿Estás seguro de borrar todo el historial?')) {
-      setState(prev => ({ ...prev, tickets: [] }));
+    api.completeTicket(counterId, status).then(applyServerPatch, reportError);
+  };
+
+  const transferTicket = (counterId: number, target: { categoryId?: string; counterId?: number }) => {
+    api.transferTicket(counterId, target).then(applyServerPatch, reportError);
+  };
+
+  const startBreak = (counterId: number, reason: BreakReason) => {
+    api.startBreak(counterId, reason).then(applyServerPatch, reportError);
+  };
+
+  const endBreak = (counterId: number) => {
+    api.endBreak(counterId).then(applyServerPatch, reportError);
+  };
+
+  const updateAnnouncementSettings = (settings: AnnouncementSettings) => {
+    api.updateAnnouncementSettings(settings).then(applyServerPatch, reportError);
+  };
+
+  const updatePrintingSettings = (settings: PrintingSettings) => {
+    api.updatePrintingSettings(settings).then(applyServerPatch, reportError);
+  };
+
+  const addCounter = (counter: Pick<Counter, 'branchId' | 'name' | 'categoryIds'>) => {
+    api.addCounter(counter).then(applyServerPatch, reportError);
+  };
+
+  const updateCounter = (counterId: number, changes: Partial<Pick<Counter, 'name' | 'categoryIds'>>) => {
+    api.updateCounter(counterId, changes).then(applyServerPatch, reportError);
+  };
+
+  const removeCounter = (counterId: number) => {
+    api.removeCounter(counterId).then(applyServerPatch, reportError);
+  };
+
+  const addCategory = (category: Omit<Category, 'id'>) => {
+    api.addCategory(category).then(applyServerPatch, reportError);
+  };
+
+  const updateCategory = (id: string, changes: Partial<Pick<Category, 'priority' | 'maxWaitMinutes' | 'maxServiceMinutes' | 'translations'>>) => {
+    api.updateCategory(id, changes).then(applyServerPatch, reportError);
+  };
+
+  const removeCategory = (id: string) => {
+    api.removeCategory(id).then(applyServerPatch, reportError);
+  };
+
+  // The new branch becomes the one being administered.
+  const addBranch = (name: string, templateBranchId?: string) => {
+    api.addBranch(name, templateBranchId).then(patch => {
+      applyServerPatch(patch);
+      setPickedBranchId(patch.branches?.[0]?.id);
+    }, reportError);
+  };
+
+  const renameBranch = (id: string, name: string) => {
+    api.renameBranch(id, name).then(applyServerPatch, reportError);
+  };
+
+  const removeBranch = (id: string) => {
+    api.removeBranch(id).then(applyServerPatch, reportError);
+  };
+
+  const copyCategories = (fromBranchId: string, toBranchId: string) => {
+    api.copyCategories(fromBranchId, toBranchId).then(applyServerPatch, reportError);
+  };
+
+  const addDisplayProfile = (profile: Omit<DisplayProfile, 'id'>) => {
+    api.addDisplayProfile(profile).then(applyServerPatch, reportError);
+  };
+
+  const updateDisplayProfile = (id: string, profile: DisplayLayout & Pick<DisplayProfile, 'name'>) => {
+    api.updateDisplayProfile(id, profile).then(applyServerPatch, reportError);
+  };
+
+  const removeDisplayProfile = (id: string) => {
+    api.removeDisplayProfile(id).then(applyServerPatch, reportError);
+  };
+
+  const updateQueueSettings = (settings: QueueSettings) => {
+    api.updateQueueSettings(settings).then(applyServerPatch, reportError);
+  };
+
+  const updateScheduleSettings = (settings: ScheduleSettings) => {
+    api.updateScheduleSettings(settings).then(applyServerPatch, reportError);
+  };
+
+  const updateAppointmentSettings = (settings: AppointmentSettings) => {
+    api.updateAppointmentSettings(settings).then(applyServerPatch, reportError);
+  };
+
+  const closeBusinessDay = (branchId: string) => {
+    api.closeBusinessDay(branchId).then(applyServerPatch, reportError);
+  };
+
+  const reopenBusinessDay = (branchId: string) => {
+    api.reopenBusinessDay(branchId).then(applyServerPatch, reportError);
+  };
+
+  const restoreConfig = (backup: ConfigBackup) => {
+    api.restoreConfig(backup).then(setState, reportError);
+  };
+
+  const generateData = (branchId: string, params: SimulationParams) => {
+    api.generateSyntheticData(branchId, params).then(setState, reportError);
+  };
+
+  const clearData = (branchId: string) => {
+    if (confirm(t('app.confirmClearHistory'))) {
+      api.clearTickets(branchId).then(setState, reportError);
     }
   };
 
   // --- Components ---
 
-  const Navigation = () => (
+  const Navigation = ({ user }: { user: User }) => (
     <nav className="fixed bottom-0 left-0 right-0 bg-white border-t border-gray-200 px-4 py-2 flex justify-around items-center z-50 md:relative md:border-t-0 md:border-r md:w-20 md:flex-col md:h-screen md:py-8">
-      <NavButton icon={<TicketIcon size={24} />} label="Kiosco" active={view === 'kiosk'} onClick={() => setView('kiosk')} />
-      <NavButton icon={<UserRound size={24} />} label="Asesor" active={view === 'advisor'} onClick={() => setView('advisor')} />
-      <NavButton icon={<Monitor size={24} />} label="TV" active={view === 'tv'} onClick={() => setView('tv')} />
-      <NavButton icon={<LayoutDashboard size={24} />} label="Analytics" active={view === 'analytics'} onClick={() => setView('analytics')} />
-      <NavButton icon={<Settings size={24} />} label="Admin" active={view === 'admin'} onClick={() => setView('admin')} />
+      {canOpenView(user.role, 'kiosk') && <NavButton icon={<TicketIcon size={24} />} label={t('nav.kiosk')} active={view === 'kiosk'} onClick={() => setView('kiosk')} />}
+      {canOpenView(user.role, 'advisor') && <NavButton icon={<UserRound size={24} />} label={t('nav.advisor')} active={view === 'advisor'} onClick={() => setView('advisor')} />}
+      {canOpenView(user.role, 'supervisor') && <NavButton icon={<Activity size={24} />} label={t('nav.supervisor')} active={view === 'supervisor'} onClick={() => setView('supervisor')} />}
+      {canOpenView(user.role, 'appointments') && <NavButton icon={<CalendarDays size={24} />} label={t('nav.appointments')} active={view === 'appointments'} onClick={() => setView('appointments')} />}
+      {canOpenView(user.role, 'tv') && <NavButton icon={<Monitor size={24} />} label={t('nav.tv')} active={view === 'tv'} onClick={() => setView('tv')} />}
+      {canOpenView(user.role, 'survey') && <NavButton icon={<Star size={24} />} label={t('nav.survey')} active={view === 'survey'} onClick={() => setView('survey')} />}
+      {canOpenView(user.role, 'analytics') && <NavButton icon={<LayoutDashboard size={24} />} label={t('nav.analytics')} active={view === 'analytics'} onClick={() => setView('analytics')} />}
+      {canOpenView(user.role, 'admin') && <NavButton icon={<Settings size={24} />} label={t('nav.admin')} active={view === 'admin'} onClick={() => setView('admin')} />}
+      <div className="md:mt-auto" title={t('common.language')}>
+        <NavButton
+          icon={<Languages size={24} />}
+          label={LOCALE_NAMES[LOCALES[(LOCALES.indexOf(locale) + 1) % LOCALES.length]]}
+          active={false}
+          onClick={() => changeLocale(LOCALES[(LOCALES.indexOf(locale) + 1) % LOCALES.length])}
+        />
+      </div>
+      <div title={t('nav.signedInAs', { name: user.name, role: t(ROLE_LABEL_KEYS[user.role]) })}>
+        <NavButton icon={<LogOut size={24} />} label={t('nav.logout')} active={false} onClick={logout} />
+      </div>
     </nav>
   );
 
@@ -187,33 +386,163 @@ export default function App() {
     </button>
   );
 
+  const waitHistory = useMemo(() => buildWaitHistory(state?.tickets ?? []), [state?.tickets]);
+
+  // Every screen works on one branch: the user's own, or the one picked in the branch selector
+  const branchId = session && state ? activeBranchId(state, session.user, pickedBranchId) : '';
+  const branchState = useMemo(() => state && scopeToBranch(state, branchId), [state, branchId]);
+
+  if (session === null) return <LoginView locale={locale} onLocaleChange={changeLocale} onLogin={setSession} />;
+
+  if (!session || !state || !branchState) {
+    return (
+      <div className="min-h-screen bg-[#F8FAFC] flex flex-col items-center justify-center gap-4 font-sans text-slate-500">
+        <Clock size={40} className="text-slate-300" />
+        <p className="font-medium">{connected ? t('common.loading') : t('app.unreachable')}</p>
+      </div>
+    );
+  }
+
+  const estimateFor = (categoryId: string, ticketId?: string) => estimateWait(waitHistory, state, categoryId, ticketId);
+  // Screens bound to a branch only open that branch's profiles
+  const displayProfile = state.displayProfiles.find(p => p.id === urlDisplayProfileId && (!session.user.branchId || p.branchId === session.user.branchId));
+  const tvState = displayProfile ? scopeToBranch(state, displayProfile.branchId) : branchState;
+  const tvLayout = displayProfile ?? DEFAULT_DISPLAY_PROFILE;
+  const shows = (target: AppView) => view === target && canOpenView(session.user.role, target);
+
   return (
     <div className="min-h-screen bg-[#F8FAFC] flex flex-col md:flex-row font-sans text-slate-900">
-      <Navigation />
+      {!isUnattended(session.user.role) && <Navigation user={session.user} />}
       <main className="flex-1 overflow-y-auto pb-20 md:pb-0">
+        {!connected && (
+          <div className="sticky top-0 z-40 bg-amber-500 text-white text-sm font-bold text-center py-2">
+            {t('app.offline')}
+          </div>
+        )}
+        {!session.user.branchId && state.branches.length > 1 && (
+          <div className="flex justify-end px-6 md:px-10 pt-6">
+            <label className="flex items-center gap-2 text-xs font-bold text-slate-400 uppercase tracking-widest">
+              <Building2 size={16} />
+              {t('app.branch')}
+              <select
+                className="px-3 py-2 rounded-xl border border-slate-200 text-sm text-slate-700 normal-case tracking-normal font-medium bg-white"
+                value={branchId}
+                onChange={e => setPickedBranchId(e.target.value)}
+              >
+                {state.branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+              </select>
+            </label>
+          </div>
+        )}
         <AnimatePresence mode="wait">
-          {view === 'kiosk' && <KioskView key="kiosk" categories={state.categories} onIssue={createTicket} />}
-          {view === 'advisor' && (
+          {shows('kiosk') && <KioskView key="kiosk" categories={branchState.categories} printing={state.settings.printing} schedule={state.settings.schedule} businessDay={branchState.businessDays[0] ?? null} onIssue={createTicket} onCheckIn={checkInAppointment} estimateFor={estimateFor} />}
+          {shows('advisor') && (
             <AdvisorView 
               key="advisor" 
-              counters={state.counters} 
-              tickets={state.tickets}
+              locale={locale}
+              session={session}
+              users={state.users}
+              counters={branchState.counters} 
+              categories={branchState.categories}
+              tickets={branchState.tickets}
+              onAssignCounter={assignCounter}
               onCall={callNextTicket}
               onStart={startServing}
               onComplete={completeTicket}
+              onTransfer={transferTicket}
+              onRecall={recallTicket}
+              onReinstate={reinstateTicket}
+              onBreak={startBreak}
+              onResume={endBreak}
+              noShowGraceMinutes={state.settings.queue.noShowGraceMinutes}
             />
           )}
-          {view === 'tv' && <TVView key="tv" tickets={state.tickets} counters={state.counters} />}
-          {view === 'admin' && (
+          {shows('supervisor') && (
+            <SupervisorView
+              key="supervisor"
+              locale={locale}
+              tickets={branchState.tickets}
+              categories={branchState.categories}
+              counters={branchState.counters}
+              users={state.users}
+              slaTargetPercent={state.settings.queue.slaTargetPercent}
+              branchId={branchId}
+              onUndo={undoTicketEvent}
+            />
+          )}
+          {shows('appointments') && (
+            <AppointmentsView
+              key="appointments"
+              locale={locale}
+              appointments={branchState.appointments}
+              categories={branchState.categories}
+              tickets={branchState.tickets}
+              schedule={state.settings.schedule}
+              settings={state.settings.appointments}
+              onBook={bookAppointment}
+              onCancel={cancelAppointment}
+            />
+          )}
+          {shows('tv') && (urlDisplayProfileId && !displayProfile ? (
+            <div key="tv" className="min-h-screen flex flex-col items-center justify-center gap-4 text-slate-500">
+              <Monitor size={40} className="text-slate-300" />
+              <p className="font-medium">{t('app.displayProfileNotFound')}</p>
+            </div>
+          ) : (
+            <TVView
+              key="tv"
+              tickets={displayedTickets(tvLayout, tvState.tickets)}
+              counters={tvState.counters}
+              announcements={state.settings.announcements}
+              waitEstimates={displayedCategories(tvLayout, tvState.categories).map(category => ({ category, estimate: estimateFor(category.id) }))}
+              layout={tvLayout}
+            />
+          ))}
+          {shows('survey') && (
+            <SurveyView
+              key="survey"
+              counters={branchState.counters}
+              tickets={branchState.tickets}
+              surveyResponses={branchState.surveyResponses}
+              initialCounterId={urlSurveyCounterId}
+              onSubmit={submitSurvey}
+            />
+          )}
+          {shows('admin') && (
             <AdminView 
               key="admin" 
+              locale={locale}
               state={state} 
-              setState={setState} 
+              branchId={branchId}
+              currentUserId={session.user.id}
+              onCreateUser={createUser}
+              onUpdateUser={updateUser}
+              onAddCategory={addCategory}
+              onUpdateCategory={updateCategory}
+              onRemoveCategory={removeCategory}
+              onUpdateQueueSettings={updateQueueSettings}
+              onAddCounter={addCounter}
+              onUpdateCounter={updateCounter}
+              onRemoveCounter={removeCounter}
+              onAddBranch={addBranch}
+              onRenameBranch={renameBranch}
+              onRemoveBranch={removeBranch}
+              onCopyCategories={copyCategories}
+              onAddDisplayProfile={addDisplayProfile}
+              onUpdateDisplayProfile={updateDisplayProfile}
+              onRemoveDisplayProfile={removeDisplayProfile}
+              onUpdateAnnouncementSettings={updateAnnouncementSettings}
+              onUpdatePrintingSettings={updatePrintingSettings}
+              onUpdateScheduleSettings={updateScheduleSettings}
+              onUpdateAppointmentSettings={updateAppointmentSettings}
+              onCloseBusinessDay={closeBusinessDay}
+              onReopenBusinessDay={reopenBusinessDay}
+              onRestoreConfig={restoreConfig}
               onGenerateSynth={generateData}
               onClear={clearData}
             />
           )}
-          {view === 'analytics' && <AnalyticsView key="analytics" tickets={state.tickets} categories={state.categories} />}
+          {shows('analytics') && <AnalyticsView key="analytics" locale={locale} tickets={branchState.tickets} categories={branchState.categories} counters={branchState.counters} users={state.users} counterBreaks={branchState.counterBreaks} appointments={branchState.appointments} surveyResponses={branchState.surveyResponses} slaTargetPercent={state.settings.queue.slaTargetPercent} headOffice={!session.user.branchId && state.branches.length > 1 ? state : undefined} />}
         </AnimatePresence>
       </main>
     </div>
@@ -222,13 +551,136 @@ export default function App() {
 
 // --- Sub-Views ---
 
-function KioskView({ categories, onIssue }: { categories: Category[], onIssue: (id: string) => void, key?: React.Key }) {
+function LoginView({ locale, onLocaleChange, onLogin }: { locale: Locale, onLocaleChange: (locale: Locale) => void, onLogin: (session: Session) => void }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const t = translator(locale);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError('');
+    api.login(username, password).then(onLogin, (err: Error) => {
+      setError(err.message);
+      setBusy(false);
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFC] flex items-center justify-center p-6 font-sans text-slate-900">
+      <form onSubmit={submit} className="bg-white p-10 rounded-[32px] border border-slate-200 shadow-sm w-full max-w-sm space-y-6">
+        <div className="text-center space-y-3">
+          <div className="w-16 h-16 bg-blue-600 rounded-2xl flex items-center justify-center mx-auto shadow-xl shadow-blue-200">
+            <TicketIcon className="text-white" size={32} />
+          </div>
+          <h1 className="text-2xl font-bold">QueueMaster Pro</h1>
+          <p className="text-slate-500 text-sm">{t('login.prompt')}</p>
+        </div>
+        <input
+          autoFocus
+          autoComplete="username"
+          placeholder={t('login.username')}
+          className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+          value={username}
+          onChange={e => setUsername(e.target.value)}
+        />
+        <input
+          type="password"
+          autoComplete="current-password"
+          placeholder={t('login.password')}
+          className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+        />
+        {error && <p className="text-sm font-medium text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={busy || !username || !password}
+          className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all disabled:opacity-40"
+        >
+          {t('login.submit')}
+        </button>
+        <div className="flex justify-center gap-2">
+          {LOCALES.map(code => (
+            <button
+              key={code}
+              type="button"
+              onClick={() => onLocaleChange(code)}
+              className={`px-3 py-1 rounded-lg text-xs font-bold ${locale === code ? 'bg-slate-100 text-slate-700' : 'text-slate-400'}`}
+            >
+              {LOCALE_NAMES[code]}
+            </button>
+          ))}
+        </div>
+      </form>
+    </div>
+  );
+}
+
+// A customer who walks away mid-session leaves the kiosk in the default language for the next one.
+const KIOSK_IDLE_MS = 60_000;
+
+function KioskView({ categories, printing, schedule, businessDay, onIssue, onCheckIn, estimateFor }: { 
+  categories: Category[], 
+  printing: PrintingSettings,
+  schedule: ScheduleSettings,
+  businessDay: BusinessDay | null,
+  onIssue: (id: string, locale: Locale) => Promise<Ticket | undefined>, 
+  onCheckIn: (code: string, locale: Locale) => Promise<Ticket | undefined>,
+  estimateFor: (categoryId: string, ticketId?: string) => WaitEstimate,
+  key?: React.Key 
+}) {
   const [lastTicket, setLastTicket] = useState<Ticket | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [bookingCode, setBookingCode] = useState<string | null>(null);
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const [touchedAt, setTouchedAt] = useState(0);
+  const t = translator(locale);
+
+  // Opening and closing happen with nobody touching the screen
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (locale === DEFAULT_LOCALE) return;
+    const timer = setTimeout(() => {
+      setLocale(DEFAULT_LOCALE);
+      setBookingCode(null);
+    }, KIOSK_IDLE_MS);
+    return () => clearTimeout(timer);
+  }, [locale, touchedAt]);
 
-  const handleIssue = (id: string) => {
-    const ticket = (onIssue as any)(id);
+  const closedReason = ticketIssueBlock(schedule, businessDay, now, locale);
+
+  const lastEstimate = lastTicket && estimateFor(lastTicket.categoryId, lastTicket.id);
+
+  const showTicket = (ticket: Ticket | undefined) => {
+    if (!ticket) return;
     setLastTicket(ticket);
-    setTimeout(() => setLastTicket(null), 5000);
+    // Network and file printers are driven by the server when the ticket is created
+    if (printing.enabled && printing.target === 'browser') {
+      const data = ticketPrintData(ticket, categories.find(c => c.id === ticket.categoryId), printing, window.location.origin, estimateFor(ticket.categoryId, ticket.id), locale);
+      renderTicketHtml(data).then(printHtml, err => console.error(err));
+    }
+    // The customer's session ends with the ticket
+    setTimeout(() => {
+      setLastTicket(null);
+      setLocale(DEFAULT_LOCALE);
+    }, 5000);
+  };
+
+  const handleIssue = async (id: string) => showTicket(await onIssue(id, locale));
+
+  const handleCheckIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bookingCode?.trim()) return;
+    const ticket = await onCheckIn(bookingCode, locale);
+    if (ticket) setBookingCode(null);
+    showTicket(ticket);
   };
 
   return (
@@ -236,36 +688,82 @@ function KioskView({ categories, onIssue }: { categories: Category[], onIssue: (
       initial={{ opacity: 0, y: 20 }}
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, y: -20 }}
+      onPointerDown={() => setTouchedAt(Date.now())}
       className="h-full flex flex-col items-center justify-center p-8 text-center"
+      lang={locale}
     >
       <div className="max-w-2xl w-full space-y-12">
+        <div className="flex justify-end items-center gap-2">
+          <Languages size={18} className="text-slate-400" aria-label={t('common.language')} />
+          {LOCALES.map(code => (
+            <button
+              key={code}
+              onClick={() => setLocale(code)}
+              className={`px-3 py-1.5 rounded-xl text-sm font-bold transition-all ${locale === code ? 'bg-blue-600 text-white' : 'bg-white border border-slate-200 text-slate-500 hover:text-blue-600'}`}
+            >
+              {LOCALE_NAMES[code]}
+            </button>
+          ))}
+        </div>
         <header className="space-y-4">
           <div className="w-20 h-20 bg-blue-600 rounded-3xl flex items-center justify-center mx-auto shadow-xl shadow-blue-200">
             <TicketIcon className="text-white" size={40} />
           </div>
-          <h1 className="text-4xl font-bold tracking-tight text-slate-900">Bienvenido</h1>
-          <p className="text-slate-500 text-lg">Seleccione el tipo de trámite para obtener su turno</p>
+          <h1 className="text-4xl font-bold tracking-tight text-slate-900">{t('kiosk.welcome')}</h1>
+          <p className="text-slate-500 text-lg">{t('kiosk.chooseService')}</p>
         </header>
 
-        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
-          {categories.map(cat => (
-            <button
-              key={cat.id}
-              onClick={() => handleIssue(cat.id)}
-              className="group relative overflow-hidden bg-white p-8 rounded-3xl border border-slate-200 shadow-sm hover:shadow-xl hover:border-blue-200 transition-all text-left"
-            >
-              <div className="flex items-center justify-between mb-4">
-                <div className="w-12 h-12 rounded-2xl flex items-center justify-center" style={{ backgroundColor: `${cat.color}15`, color: cat.color }}>
-                  <TicketIcon size={24} />
+        {closedReason ? (
+          <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm space-y-3">
+            <Clock className="mx-auto text-slate-300" size={40} />
+            <h2 className="text-2xl font-bold text-slate-800">{closedReason}</h2>
+            <p className="text-slate-500">{t('kiosk.todayHours', { hours: hoursLabel(hoursOn(schedule, now), locale) })}</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            {categories.map(cat => (
+              <button
+                key={cat.id}
+                onClick={() => handleIssue(cat.id)}
+                className="group relative overflow-hidden bg-white p-8 rounded-3xl border border-slate-200 shadow-sm hover:shadow-xl hover:border-blue-200 transition-all text-left"
+              >
+                <div className="flex items-center justify-between mb-4">
+                  <div className="w-12 h-12 rounded-2xl flex items-center justify-center" style={{ backgroundColor: `${cat.color}15`, color: cat.color }}>
+                    <TicketIcon size={24} />
+                  </div>
+                  <ArrowRight className="text-slate-300 group-hover:text-blue-500 transition-colors" />
                 </div>
-                <ArrowRight className="text-slate-300 group-hover:text-blue-500 transition-colors" />
-              </div>
-              <h3 className="text-xl font-bold text-slate-800">{cat.name}</h3>
-              <p className="text-slate-400 text-sm mt-1">Prefijo: {cat.prefix}</p>
-              <div className="absolute bottom-0 left-0 h-1 w-0 group-hover:w-full transition-all duration-500" style={{ backgroundColor: cat.color }} />
-            </button>
-          ))}
-        </div>
+                <h3 className="text-xl font-bold text-slate-800">{categoryName(cat, locale)}</h3>
+                <p className="text-slate-400 text-sm mt-1">{t('kiosk.prefix', { prefix: cat.prefix })}</p>
+                <div className="absolute bottom-0 left-0 h-1 w-0 group-hover:w-full transition-all duration-500" style={{ backgroundColor: cat.color }} />
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!closedReason && (bookingCode === null ? (
+          <button
+            onClick={() => setBookingCode('')}
+            className="inline-flex items-center gap-2 px-6 py-3 rounded-2xl bg-white border border-slate-200 text-slate-600 font-bold hover:border-blue-200 hover:text-blue-600 transition-all"
+          >
+            <CalendarDays size={20} /> {t('kiosk.haveAppointment')}
+          </button>
+        ) : (
+          <form onSubmit={handleCheckIn} className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm space-y-4">
+            <p className="text-slate-500">{t('kiosk.enterCode')}</p>
+            <input
+              autoFocus
+              value={bookingCode}
+              onChange={e => setBookingCode(e.target.value.toUpperCase())}
+              maxLength={8}
+              className="w-full text-center text-3xl font-black tracking-[0.3em] p-4 bg-slate-50 border border-slate-200 rounded-2xl outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <div className="flex gap-3">
+              <button type="button" onClick={() => setBookingCode(null)} className="flex-1 py-3 rounded-2xl bg-slate-100 text-slate-600 font-bold">{t('common.cancel')}</button>
+              <button type="submit" className="flex-1 py-3 rounded-2xl bg-blue-600 text-white font-bold hover:bg-blue-700">{t('kiosk.confirmArrival')}</button>
+            </div>
+          </form>
+        ))}
 
         <AnimatePresence>
           {lastTicket && (
@@ -280,10 +778,22 @@ function KioskView({ categories, onIssue }: { categories: Category[], onIssue: (
                   <CheckCircle2 size={32} />
                 </div>
                 <div>
-                  <p className="text-slate-400 uppercase tracking-widest text-xs font-bold">Su Turno es</p>
+                  <p className="text-slate-400 uppercase tracking-widest text-xs font-bold">{t('kiosk.yourTicket')}</p>
                   <h2 className="text-7xl font-black text-slate-900 tracking-tighter">{lastTicket.displayId}</h2>
                 </div>
-                <p className="text-slate-500 text-sm">Por favor, espere a ser llamado en la pantalla principal.</p>
+                {lastEstimate && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="p-4 bg-slate-50 rounded-2xl">
+                      <p className="text-slate-400 uppercase tracking-widest text-[10px] font-bold">{t('common.position')}</p>
+                      <p className="text-2xl font-black text-slate-800">{t('common.ordinal', { n: lastEstimate.position })}</p>
+                    </div>
+                    <div className="p-4 bg-slate-50 rounded-2xl">
+                      <p className="text-slate-400 uppercase tracking-widest text-[10px] font-bold">{t('common.estimatedWait')}</p>
+                      <p className="text-2xl font-black text-slate-800">{t('common.approxMinutes', { minutes: lastEstimate.minutes })}</p>
+                    </div>
+                  </div>
+                )}
+                <p className="text-slate-500 text-sm">{t('kiosk.waitForCall')}</p>
                 <div className="pt-4">
                   <div className="h-1 w-full bg-slate-100 rounded-full overflow-hidden">
                     <motion.div 
@@ -303,19 +813,189 @@ function KioskView({ categories, onIssue }: { categories: Category[], onIssue: (
   );
 }
 
-function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: { 
+const SURVEY_THANKS_MS = 5000;
+
+function SurveyView({ counters, tickets, surveyResponses, initialCounterId, onSubmit }: {
+  counters: Counter[],
+  tickets: Ticket[],
+  surveyResponses: SurveyResponse[],
+  initialCounterId?: number,
+  onSubmit: (ticketId: string, answer: Pick<SurveyResponse, 'rating' | 'reasons'>) => Promise<boolean>,
+  key?: React.Key
+}) {
+  const [counterId, setCounterId] = useState(initialCounterId);
+  const [now, setNow] = useState(Date.now());
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  // Services the customer chose not to rate, so the tablet stops asking
+  const [skipped, setSkipped] = useState<string[]>([]);
+  const [sending, setSending] = useState(false);
+  const [failed, setFailed] = useState(false);
+  const [thanked, setThanked] = useState(false);
+  const t = translator(locale);
+
+  // The question goes away by itself once the service is no longer fresh
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 10_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!thanked) return;
+    const timer = setTimeout(() => setThanked(false), SURVEY_THANKS_MS);
+    return () => clearTimeout(timer);
+  }, [thanked]);
+
+  const counter = counters.find(c => c.id === counterId);
+  // The service this counter finished last, while the customer is likely still in front of it
+  const latest = counter && tickets
+    .filter(ticket => ticket.status === 'completed' && ticket.counterId === counter.id && now - (ticket.completedAt ?? 0) <= SURVEY_PROMPT_MS)
+    .sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0))[0];
+  const pending = latest && !skipped.includes(latest.id) && !surveyResponses.some(r => r.ticketId === latest.id) ? latest : undefined;
+
+  useEffect(() => setFailed(false), [pending?.id]);
+
+  // The next customer starts in the default language
+  const finish = () => setLocale(DEFAULT_LOCALE);
+
+  const handleSubmit = async (answer: Pick<SurveyResponse, 'rating' | 'reasons'>) => {
+    if (!pending) return;
+    setSending(true);
+    const sent = await onSubmit(pending.id, answer);
+    setSending(false);
+    setFailed(!sent);
+    if (!sent) return;
+    setThanked(true);
+    finish();
+  };
+
+  const handleSkip = () => {
+    if (!pending) return;
+    setSkipped(ids => [...ids, pending.id]);
+    finish();
+  };
+
+  if (!counter) {
+    return (
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        className="p-6 md:p-10 max-w-2xl mx-auto space-y-6"
+      >
+        <header>
+          <h1 className="text-3xl font-bold tracking-tight">{t('survey.setupTitle')}</h1>
+          <p className="text-slate-500">
+            {initialCounterId === undefined ? t('survey.pickCounter') : t('survey.counterNotFound')}
+          </p>
+        </header>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          {counters.map(c => (
+            <button
+              key={c.id}
+              onClick={() => setCounterId(c.id)}
+              className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm hover:border-blue-200 hover:shadow-md transition-all text-left"
+            >
+              <p className="text-lg font-bold text-slate-800">{c.name}</p>
+              <p className="text-xs text-slate-400 mt-1 break-all">{surveyUrl(window.location.origin, c.id)}</p>
+            </button>
+          ))}
+        </div>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="min-h-screen bg-blue-600 flex flex-col items-center justify-center p-8 text-center"
+      lang={locale}
+    >
+      <div className="max-w-xl w-full space-y-10">
+        <div className="flex justify-between items-center gap-2">
+          <p className="text-white/70 text-sm font-bold uppercase tracking-widest">{counter.name}</p>
+          <div className="flex items-center gap-2">
+            <Languages size={18} className="text-white/60" aria-label={t('common.language')} />
+            {LOCALES.map(code => (
+              <button
+                key={code}
+                onClick={() => setLocale(code)}
+                className={`px-3 py-1.5 rounded-xl text-sm font-bold transition-all ${locale === code ? 'bg-white text-blue-700' : 'border border-white/30 text-white'}`}
+              >
+                {LOCALE_NAMES[code]}
+              </button>
+            ))}
+          </div>
+        </div>
+        {thanked ? (
+          <div className="space-y-4">
+            <CheckCircle2 size={56} className="mx-auto text-white" />
+            <h1 className="text-3xl font-bold text-white">{t('survey.thanks')}</h1>
+          </div>
+        ) : pending ? (
+          <div className="space-y-4">
+            <p className="text-white/70 font-bold">{pending.displayId}</p>
+            <SurveyForm key={pending.id} t={t} dark sending={sending} onSubmit={handleSubmit} onSkip={handleSkip} />
+            {failed && <p className="text-amber-200 text-sm font-bold">{t('survey.error')}</p>}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Star size={56} className="mx-auto text-white/40" />
+            <h1 className="text-3xl font-bold text-white">{t('survey.idle')}</h1>
+            <p className="text-white/70">{t('survey.idleHint')}</p>
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
+
+function AdvisorView({ locale, session, users, counters, categories, tickets, onAssignCounter, onCall, onStart, onComplete, onTransfer, onRecall, onReinstate, onBreak, onResume, noShowGraceMinutes }: { 
+  locale: Locale,
+  session: Session,
+  users: User[],
   counters: Counter[], 
+  categories: Category[],
   tickets: Ticket[],
+  onAssignCounter: (counterId: number | null) => void,
   onCall: (id: number) => void,
   onStart: (id: number) => void,
   onComplete: (id: number, status: 'completed' | 'no-show') => void,
+  onTransfer: (id: number, target: { categoryId?: string; counterId?: number }) => void,
+  onRecall: (id: number) => void,
+  onReinstate: (ticketId: string) => void,
+  onBreak: (id: number, reason: BreakReason) => void,
+  onResume: (id: number) => void,
+  noShowGraceMinutes: number,
   key?: React.Key
 }) {
-  const [selectedCounterId, setSelectedCounterId] = useState<number | null>(null);
+  const [localCounterId, setLocalCounterId] = useState<number | null>(null);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const t = translator(locale);
+
+  // Waits grow with nobody acting, so service-level warnings are refreshed on a timer
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Advisors sign in at a counter on the server, so losing it to a colleague shows up here live.
+  // Supervisors and admins just look at whichever counter they pick.
+  const claimsCounter = session.user.role === 'advisor';
+  const selectedCounterId = claimsCounter ? counters.find(c => c.userId === session.user.id)?.id ?? null : localCounterId;
+  const setSelectedCounterId = (id: number | null) => (claimsCounter ? onAssignCounter(id) : setLocalCounterId(id));
+  const userName = (id?: string) => users.find(u => u.id === id)?.name;
   
   const activeCounter = counters.find(c => c.id === selectedCounterId);
-  const activeTicket = tickets.find(t => t.id === activeCounter?.currentTicketId);
-  const waitingCount = tickets.filter(t => t.status === 'waiting').length;
+  const activeTicket = tickets.find(ticket => ticket.id === activeCounter?.currentTicketId);
+  const waitingTickets = activeCounter ? waitingTicketsFor(activeCounter, tickets) : tickets.filter(ticket => ticket.status === 'waiting');
+  const waitingCount = waitingTickets.length;
+  const graceStart = Date.now() - noShowGraceMinutes * 60_000;
+  const recentNoShows = tickets
+    .filter(ticket => ticket.status === 'no-show' && (ticket.completedAt ?? 0) >= graceStart)
+    .sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0));
 
   return (
     <motion.div 
@@ -325,14 +1005,14 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
     >
       <header className="flex flex-col md:flex-row md:items-center justify-between gap-4">
         <div>
-          <h1 className="text-3xl font-bold text-slate-900">Panel del Asesor</h1>
-          <p className="text-slate-500">Gestione la atención de clientes en su ventanilla</p>
+          <h1 className="text-3xl font-bold text-slate-900">{t('advisor.title')}</h1>
+          <p className="text-slate-500">{t('advisor.subtitle')}</p>
         </div>
         <div className="flex items-center gap-3 bg-white p-2 rounded-2xl border border-slate-200 shadow-sm">
           <div className="px-4 py-2 bg-blue-50 text-blue-700 rounded-xl flex items-center gap-2">
             <Users size={18} />
             <span className="font-bold">{waitingCount}</span>
-            <span className="text-xs font-medium uppercase">En espera</span>
+            <span className="text-xs font-medium uppercase">{t('advisor.waiting')}</span>
           </div>
         </div>
       </header>
@@ -349,7 +1029,13 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
                 <UserRound size={32} />
               </div>
               <h3 className="text-xl font-bold">{c.name}</h3>
-              <p className="text-slate-400 text-sm">Haga clic para iniciar sesión</p>
+              <p className="text-slate-500 text-xs font-medium">{servedCategoriesLabel(c, categories, t)}</p>
+              <p className="text-slate-400 text-sm">
+                {c.userId ? t('advisor.signedIn', { name: userName(c.userId) ?? t('advisor.otherUser') }) : claimsCounter ? t('advisor.clickToSignIn') : t('advisor.clickToOpen')}
+              </p>
+              {c.status === 'away' && c.awayReason && (
+                <p className="text-amber-600 text-xs font-bold uppercase tracking-wider">{t('counter.onBreak', { reason: t(BREAK_REASON_LABEL_KEYS[c.awayReason]) })}</p>
+              )}
             </button>
           ))}
         </div>
@@ -365,9 +1051,9 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
                   <div>
                     <h3 className="font-bold text-lg">{activeCounter?.name}</h3>
                     <div className="flex items-center gap-2">
-                      <span className={`w-2 h-2 rounded-full ${activeCounter?.status === 'idle' ? 'bg-green-500' : 'bg-amber-500'}`} />
+                      <span className={`w-2 h-2 rounded-full ${activeCounter?.status === 'idle' ? 'bg-green-500' : activeCounter?.status === 'away' ? 'bg-slate-400' : 'bg-amber-500'}`} />
                       <span className="text-xs font-medium text-slate-400 uppercase tracking-wider">
-                        {activeCounter?.status === 'idle' ? 'Disponible' : 'En atención'}
+                        {activeCounter && t(`counterStatus.${activeCounter.status}`)}
                       </span>
                     </div>
                   </div>
@@ -376,7 +1062,7 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
                   onClick={() => setSelectedCounterId(null)}
                   className="text-slate-400 hover:text-slate-600 text-sm font-medium"
                 >
-                  Cambiar Ventanilla
+                  {t('advisor.changeCounter')}
                 </button>
               </div>
 
@@ -384,8 +1070,15 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
                 {activeTicket ? (
                   <div className="space-y-8">
                     <div className="space-y-2">
-                      <p className="text-slate-400 uppercase tracking-widest text-xs font-bold">Atendiendo ahora</p>
+                      <p className="text-slate-400 uppercase tracking-widest text-xs font-bold">{t('advisor.nowServing')}</p>
                       <h2 className="text-8xl font-black text-slate-900 tracking-tighter">{activeTicket.displayId}</h2>
+                      {activeTicket.status === 'serving' && activeTicket.startedAt !== undefined && (
+                        <SlaBadge
+                          status={ticketSlaStatus(activeTicket, categories.find(c => c.id === activeTicket.categoryId), now)}
+                          minutes={differenceInMinutes(now, activeTicket.startedAt)}
+                          t={t}
+                        />
+                      )}
                     </div>
                     
                     <div className="flex flex-wrap justify-center gap-4">
@@ -395,7 +1088,17 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
                           className="px-8 py-4 bg-blue-600 text-white rounded-2xl font-bold shadow-lg shadow-blue-200 hover:bg-blue-700 transition-all flex items-center gap-2"
                         >
                           <CheckCircle2 size={20} />
-                          Iniciar Atención
+                          {t('advisor.start')}
+                        </button>
+                      )}
+                      {activeTicket.status === 'calling' && (
+                        <button 
+                          onClick={() => onRecall(activeCounter!.id)}
+                          className="px-8 py-4 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-all flex items-center gap-2"
+                        >
+                          <Volume2 size={20} />
+                          {t('advisor.recall')}
+                          {activeTicket.recallCount ? <span className="text-xs text-slate-400">({activeTicket.recallCount})</span> : null}
                         </button>
                       )}
                       {activeTicket.status === 'serving' && (
@@ -404,7 +1107,7 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
                           className="px-8 py-4 bg-green-600 text-white rounded-2xl font-bold shadow-lg shadow-green-200 hover:bg-green-700 transition-all flex items-center gap-2"
                         >
                           <CheckCircle2 size={20} />
-                          Finalizar Turno
+                          {t('advisor.complete')}
                         </button>
                       )}
                       <button 
@@ -412,9 +1115,68 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
                         className="px-8 py-4 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-all flex items-center gap-2"
                       >
                         <Trash2 size={20} />
-                        No se presentó
+                        {t('advisor.noShow')}
+                      </button>
+                      <button 
+                        onClick={() => setShowTransfer(!showTransfer)}
+                        className="px-8 py-4 bg-slate-100 text-slate-600 rounded-2xl font-bold hover:bg-slate-200 transition-all flex items-center gap-2"
+                      >
+                        <ArrowRight size={20} />
+                        {t('advisor.transfer')}
                       </button>
                     </div>
+
+                    {showTransfer && (
+                      <div className="p-6 bg-slate-50 rounded-3xl border border-slate-100 space-y-4 text-left">
+                        <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t('advisor.transferToCategory')}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {categories.filter(c => c.id !== activeTicket.categoryId).map(c => (
+                            <button
+                              key={c.id}
+                              onClick={() => { onTransfer(activeCounter!.id, { categoryId: c.id }); setShowTransfer(false); }}
+                              className="px-4 py-2 rounded-xl text-sm font-bold text-white"
+                              style={{ backgroundColor: c.color }}
+                            >
+                              {c.name}
+                            </button>
+                          ))}
+                        </div>
+                        <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t('advisor.transferToCounter')}</p>
+                        <div className="flex flex-wrap gap-2">
+                          {counters.filter(c => c.id !== activeCounter!.id).map(c => (
+                            <button
+                              key={c.id}
+                              onClick={() => { onTransfer(activeCounter!.id, { counterId: c.id }); setShowTransfer(false); }}
+                              className="px-4 py-2 rounded-xl text-sm font-bold bg-white border border-slate-200 text-slate-700 hover:border-blue-300"
+                            >
+                              {c.name}
+                              {c.status === 'away' && <span className="ml-2 text-[10px] text-amber-600 uppercase tracking-wider">{t('counterStatus.away')}</span>}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ) : activeCounter?.status === 'away' ? (
+                  <div className="space-y-6 py-12">
+                    <div className="w-20 h-20 bg-amber-50 rounded-full flex items-center justify-center mx-auto text-amber-400">
+                      <Coffee size={40} />
+                    </div>
+                    <div className="space-y-2">
+                      <h3 className="text-2xl font-bold text-slate-800">
+                        {activeCounter.awayReason ? t('counter.onBreak', { reason: t(BREAK_REASON_LABEL_KEYS[activeCounter.awayReason]) }) : t('counterStatus.away')}
+                      </h3>
+                      <p className="text-slate-400">
+                        {t('advisor.breakSince', { time: activeCounter.awaySince ? format(activeCounter.awaySince, 'HH:mm') : '' })}
+                      </p>
+                    </div>
+                    <button 
+                      onClick={() => onResume(activeCounter.id)}
+                      className="px-10 py-5 bg-blue-600 text-white rounded-2xl font-bold shadow-xl shadow-blue-200 hover:bg-blue-700 transition-all flex items-center gap-3 mx-auto"
+                    >
+                      <CheckCircle2 size={24} />
+                      {t('advisor.resume')}
+                    </button>
                   </div>
                 ) : (
                   <div className="space-y-6 py-12">
@@ -422,8 +1184,8 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
                       <Clock size={40} />
                     </div>
                     <div className="space-y-2">
-                      <h3 className="text-2xl font-bold text-slate-800">Ventanilla Libre</h3>
-                      <p className="text-slate-400">Presione el botón para llamar al siguiente cliente</p>
+                      <h3 className="text-2xl font-bold text-slate-800">{t('advisor.free')}</h3>
+                      <p className="text-slate-400">{t('advisor.callHint')}</p>
                     </div>
                     <button 
                       onClick={() => onCall(activeCounter!.id)}
@@ -431,8 +1193,23 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
                       className="px-10 py-5 bg-blue-600 text-white rounded-2xl font-bold shadow-xl shadow-blue-200 hover:bg-blue-700 disabled:opacity-50 disabled:shadow-none transition-all flex items-center gap-3 mx-auto"
                     >
                       <Bell size={24} />
-                      Llamar Siguiente
+                      {t('advisor.callNext')}
                     </button>
+                    <div className="flex flex-wrap items-center justify-center gap-2 pt-4">
+                      <span className="text-xs font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1">
+                        <Coffee size={14} />
+                        {t('advisor.takeBreak')}
+                      </span>
+                      {Object.entries(BREAK_REASON_LABEL_KEYS).map(([reason, label]) => (
+                        <button
+                          key={reason}
+                          onClick={() => onBreak(activeCounter!.id, reason as BreakReason)}
+                          className="px-4 py-2 rounded-xl text-sm font-bold bg-slate-100 text-slate-600 hover:bg-slate-200 transition-all"
+                        >
+                          {t(label)}
+                        </button>
+                      ))}
+                    </div>
                   </div>
                 )}
               </div>
@@ -443,20 +1220,50 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
             <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
               <h4 className="font-bold text-slate-900 mb-4 flex items-center gap-2">
                 <Clock size={18} className="text-blue-500" />
-                Próximos en espera
+                {t('advisor.upNext')}
               </h4>
               <div className="space-y-3">
-                {tickets.filter(t => t.status === 'waiting').slice(0, 5).map(t => (
-                  <div key={t.id} className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl border border-slate-100">
-                    <span className="font-bold text-slate-700">{t.displayId}</span>
-                    <span className="text-xs text-slate-400 font-medium">{format(t.createdAt, 'HH:mm')}</span>
+                {waitingTickets.slice(0, 5).map(ticket => (
+                  <div key={ticket.id} className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                    <span className="font-bold text-slate-700">
+                      {ticket.displayId}
+                      {ticket.transfers?.length ? <span className="ml-2 text-[10px] font-bold text-amber-600 uppercase tracking-wider">{t('ticketEvent.transferred')}</span> : null}
+                      {ticket.appointmentAt !== undefined && <span className="ml-2 text-[10px] font-bold text-blue-600 uppercase tracking-wider">{t('advisor.appointmentAt', { time: format(ticket.appointmentAt, 'HH:mm') })}</span>}
+                    </span>
+                    <span className="flex items-center gap-2 text-xs text-slate-400 font-medium">
+                      {format(ticket.createdAt, 'HH:mm')}
+                      <SlaBadge status={ticketSlaStatus(ticket, categories.find(c => c.id === ticket.categoryId), now)} minutes={differenceInMinutes(now, waitingSince(ticket))} t={t} />
+                    </span>
                   </div>
                 ))}
                 {waitingCount === 0 && (
-                  <p className="text-center py-8 text-slate-400 text-sm italic">No hay turnos pendientes</p>
+                  <p className="text-center py-8 text-slate-400 text-sm italic">{t('advisor.noWaiting')}</p>
                 )}
               </div>
             </div>
+
+            {recentNoShows.length > 0 && (
+              <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm">
+                <h4 className="font-bold text-slate-900 mb-1 flex items-center gap-2">
+                  <Trash2 size={18} className="text-red-400" />
+                  {t('advisor.recentNoShows')}
+                </h4>
+                <p className="text-xs text-slate-400 mb-4">{t('advisor.reinstateHint', { minutes: noShowGraceMinutes })}</p>
+                <div className="space-y-3">
+                  {recentNoShows.map(ticket => (
+                    <div key={ticket.id} className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                      <span className="font-bold text-slate-700">{ticket.displayId}</span>
+                      <button
+                        onClick={() => onReinstate(ticket.id)}
+                        className="text-xs font-bold text-blue-600 hover:text-blue-800 uppercase tracking-wider"
+                      >
+                        {t('advisor.reinstate')}
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
         </div>
       )}
@@ -464,40 +1271,518 @@ function AdvisorView({ counters, tickets, onCall, onStart, onComplete }: {
   );
 }
 
-function TVView({ tickets, counters }: { tickets: Ticket[], counters: Counter[], key?: React.Key }) {
-  const callingTickets = tickets
-    .filter(t => t.status === 'calling' || t.status === 'serving')
-    .sort((a, b) => (b.calledAt || 0) - (a.calledAt || 0))
-    .slice(0, 6);
+function SupervisorView({ locale, tickets, categories, counters, users, slaTargetPercent, branchId, onUndo }: {
+  locale: Locale,
+  tickets: Ticket[],
+  categories: Category[],
+  counters: Counter[],
+  users: User[],
+  slaTargetPercent: number,
+  branchId: string,
+  onUndo: (ticketId: string) => void,
+  key?: React.Key
+}) {
+  const [now, setNow] = useState(Date.now());
+  const t = translator(locale);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const categoryOf = (id: string) => categories.find(c => c.id === id);
+  const waiting = tickets.filter(ticket => ticket.status === 'waiting');
+  const today = tickets.filter(ticket => ticket.createdAt >= startOfDay(now).getTime());
+
+  // Tickets off target or about to be, worst first
+  const alerts = tickets
+    .filter(ticket => ticket.status === 'waiting' || ticket.status === 'serving')
+    .map(ticket => {
+      const since = ticket.status === 'waiting' ? waitingSince(ticket) : ticket.startedAt ?? now;
+      return { ticket, status: ticketSlaStatus(ticket, categoryOf(ticket.categoryId), now), elapsed: now - since };
+    })
+    .filter(a => a.status !== 'ok')
+    .sort((a, b) => (a.status === b.status ? b.elapsed - a.elapsed : a.status === 'breached' ? -1 : 1));
+
+  const rows = categories.map(category => {
+    const queued = waiting.filter(ticket => ticket.categoryId === category.id);
+    const statuses = queued.map(ticket => ticketSlaStatus(ticket, category, now));
+    return {
+      category,
+      waiting: queued.length,
+      longest: queued.length ? differenceInMinutes(now, Math.min(...queued.map(waitingSince))) : 0,
+      atRisk: statuses.filter(s => s === 'at-risk').length,
+      breached: statuses.filter(s => s === 'breached').length,
+      compliance: slaCompliance(today.filter(ticket => ticket.categoryId === category.id), categories).wait,
+    };
+  });
+
+  const counterName = (id?: number) => counters.find(c => c.id === id)?.name ?? (id !== undefined ? t('common.counterNumber', { id }) : '');
+  const userName = (id?: string) => users.find(u => u.id === id)?.name;
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="p-6 md:p-10 max-w-6xl mx-auto space-y-8"
+    >
+      <header>
+        <h1 className="text-3xl font-bold text-slate-900">{t('supervisor.title')}</h1>
+        <p className="text-slate-500">{t('supervisor.subtitle', { percent: slaTargetPercent })}</p>
+      </header>
+
+      <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-4">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Bell className="text-red-500" />
+          {t('supervisor.alerts')}
+        </h3>
+        {alerts.length === 0 ? (
+          <p className="text-slate-400 text-sm">{t('supervisor.noAlerts')}</p>
+        ) : (
+          <div className="divide-y divide-slate-100">
+            {alerts.map(({ ticket, status, elapsed }) => (
+              <div key={ticket.id} className="flex flex-wrap items-center justify-between gap-4 py-3">
+                <div className="flex items-center gap-4">
+                  <span className="text-2xl font-black text-slate-800">{ticket.displayId}</span>
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{categoryOf(ticket.categoryId)?.name}</span>
+                </div>
+                <span className="text-sm text-slate-500">
+                  {ticket.status === 'waiting'
+                    ? ticket.targetCounterId !== undefined ? t('supervisor.waitingFor', { counter: counterName(ticket.targetCounterId) }) : t('advisor.waiting')
+                    : `${t('supervisor.servingAt', { counter: counterName(ticket.counterId) })}${userName(ticket.actors?.startedBy) ? ` · ${userName(ticket.actors?.startedBy)}` : ''}`}
+                </span>
+                <SlaBadge status={status} minutes={Math.floor(elapsed / 60000)} t={t} />
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-4">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Users className="text-blue-500" />
+          {t('supervisor.queues')}
+        </h3>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-widest">
+              <th className="py-2">{t('supervisor.service')}</th>
+              <th className="py-2 text-right">{t('supervisor.target')}</th>
+              <th className="py-2 text-right">{t('advisor.waiting')}</th>
+              <th className="py-2 text-right">{t('supervisor.longestWait')}</th>
+              <th className="py-2 text-right">{t('supervisor.atRisk')}</th>
+              <th className="py-2 text-right">{t('supervisor.breached')}</th>
+              <th className="py-2 text-right">{t('supervisor.complianceToday')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <tr key={row.category.id}>
+                <td className="py-3 font-bold text-slate-800">
+                  <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: row.category.color }} />
+                  {row.category.name}
+                </td>
+                <td className="py-3 text-right text-slate-400">{t('sla.minutes', { minutes: row.category.maxWaitMinutes })}</td>
+                <td className="py-3 text-right">{row.waiting}</td>
+                <td className="py-3 text-right">{row.waiting ? t('sla.minutes', { minutes: row.longest }) : '—'}</td>
+                <td className={`py-3 text-right ${row.atRisk ? 'text-amber-600 font-bold' : ''}`}>{row.atRisk}</td>
+                <td className={`py-3 text-right ${row.breached ? 'text-red-600 font-bold' : ''}`}>{row.breached}</td>
+                <td className={`py-3 text-right font-bold ${row.compliance === undefined ? 'text-slate-300' : row.compliance >= slaTargetPercent ? 'text-green-600' : 'text-red-600'}`}>
+                  {row.compliance === undefined ? '—' : `${row.compliance}%`}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-4">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <UserRound className="text-green-500" />
+          {t('supervisor.counters')}
+        </h3>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          {counters.map(c => {
+            const current = tickets.find(ticket => ticket.id === c.currentTicketId);
+            return (
+              <div key={c.id} className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-1">
+                <p className="font-bold text-slate-800">{c.name}</p>
+                <p className="text-xs text-slate-400">{userName(c.userId) ?? t('supervisor.noAdvisor')}</p>
+                <p className={`text-xs font-bold uppercase tracking-wider ${c.status === 'away' ? 'text-amber-600' : c.status === 'busy' ? 'text-blue-600' : 'text-green-600'}`}>
+                  {c.status === 'away'
+                    ? `${c.awayReason ? t('counter.onBreak', { reason: t(BREAK_REASON_LABEL_KEYS[c.awayReason]) }) : t('counterStatus.away')}${c.awaySince ? ` · ${t('sla.minutes', { minutes: differenceInMinutes(now, c.awaySince) })}` : ''}`
+                    : current ? `${current.displayId} · ${current.status === 'calling' ? t('supervisor.calling') : t('counterStatus.busy')}` : t('counterStatus.idle')}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      <TicketAuditLog t={t} branchId={branchId} tickets={tickets} counterName={counterName} userName={userName} onUndo={onUndo} />
+    </motion.div>
+  );
+}
+
+// Recent ticket activity of the branch and, for one ticket, its whole timeline with undo of the latest action.
+function TicketAuditLog({ t, branchId, tickets, counterName, userName, onUndo }: {
+  t: Translate,
+  branchId: string,
+  tickets: Ticket[],
+  counterName: (id?: number) => string,
+  userName: (id?: string) => string | undefined,
+  onUndo: (ticketId: string) => void
+}) {
+  const [recent, setRecent] = useState<TicketEvent[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<TicketEvent[]>([]);
+  const [search, setSearch] = useState('');
+
+  // Any ticket change may have added events: refetch with it
+  useEffect(() => {
+    api.fetchRecentTicketEvents(branchId, 30).then(setRecent, err => console.error(err));
+  }, [branchId, tickets]);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setTimeline([]);
+      return;
+    }
+    api.fetchTicketEvents(selectedId).then(setTimeline, err => console.error(err));
+  }, [selectedId, tickets]);
+
+  const ticketOf = (id: string) => tickets.find(ticket => ticket.id === id);
+  const selected = selectedId ? ticketOf(selectedId) : undefined;
+  const undone = new Set(timeline.map(e => e.undoes).filter(Boolean));
+  const candidate = undoCandidate(timeline);
+
+  // The latest ticket with that number, since numbering starts again every day
+  const find = (e: React.FormEvent) => {
+    e.preventDefault();
+    const displayId = search.trim().toUpperCase();
+    const match = tickets.filter(ticket => ticket.displayId === displayId).sort((a, b) => b.createdAt - a.createdAt)[0];
+    if (match) setSelectedId(match.id);
+    else alert(t('audit.notFound', { id: displayId }));
+  };
+
+  const describe = (event: TicketEvent) => [
+    event.counterId !== undefined ? counterName(event.counterId) : '',
+    event.userId ? userName(event.userId) ?? t('common.deletedUser') : t('audit.system'),
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <History className="text-purple-500" />
+          {t('audit.title')}
+        </h3>
+        <form onSubmit={find} className="flex gap-2">
+          <input
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            placeholder={t('audit.searchPlaceholder')}
+            className="px-3 py-2 border border-slate-200 rounded-xl text-sm w-40"
+          />
+          <button type="submit" disabled={!search.trim()} className="px-4 py-2 bg-slate-900 text-white rounded-xl text-sm font-bold disabled:opacity-40">
+            {t('audit.search')}
+          </button>
+        </form>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t('audit.recent')}</p>
+          {recent.length === 0 ? (
+            <p className="text-slate-400 text-sm">{t('audit.noActivity')}</p>
+          ) : (
+            <div className="divide-y divide-slate-100 max-h-96 overflow-y-auto">
+              {recent.map(event => (
+                <button
+                  key={event.id}
+                  onClick={() => setSelectedId(event.ticketId)}
+                  className={`w-full flex items-center gap-3 py-2 px-2 text-left text-sm rounded-lg hover:bg-slate-50 ${event.ticketId === selectedId ? 'bg-slate-50' : ''}`}
+                >
+                  <span className="text-slate-400 tabular-nums">{format(event.at, 'HH:mm:ss')}</span>
+                  <span className="font-black text-slate-800">{event.ticketAfter.displayId}</span>
+                  <span className="font-bold text-slate-600">{t(TICKET_EVENT_LABEL_KEYS[event.type])}</span>
+                  <span className="text-slate-400 truncate">{describe(event)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+            {selectedId ? t('audit.timelineOf', { id: selected?.displayId ?? timeline[0]?.ticketAfter.displayId ?? '' }) : t('audit.timeline')}
+          </p>
+          {!selectedId ? (
+            <p className="text-slate-400 text-sm">{t('audit.selectHint')}</p>
+          ) : (
+            <ol className="border-l-2 border-slate-100 ml-2 space-y-3">
+              {timeline.map(event => (
+                <li key={event.id} className="pl-4 relative">
+                  <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-slate-300" />
+                  <div className="flex items-center justify-between gap-2">
+                    <p className={`text-sm font-bold ${undone.has(event.id) ? 'line-through text-slate-300' : 'text-slate-800'}`}>
+                      {t(TICKET_EVENT_LABEL_KEYS[event.type])}
+                      {event.undoes && <span className="ml-2 font-normal text-slate-400">{t('audit.undid', { event: t(TICKET_EVENT_LABEL_KEYS[timeline.find(e => e.id === event.undoes)?.type ?? 'edited']).toLowerCase() })}</span>}
+                    </p>
+                    {event === candidate && isUndoable(candidate) && (
+                      <button
+                        onClick={() => confirm(t('audit.confirmUndo', { event: t(TICKET_EVENT_LABEL_KEYS[event.type]), id: event.ticketAfter.displayId })) && onUndo(event.ticketId)}
+                        className="flex items-center gap-1 px-3 py-1 text-xs font-bold text-purple-600 bg-purple-50 rounded-lg hover:bg-purple-100"
+                      >
+                        <Undo2 size={14} /> {t('audit.undo')}
+                      </button>
+                    )}
+                  </div>
+                  <p className="text-xs text-slate-400">{format(event.at, 'dd/MM HH:mm:ss')} · {describe(event)}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function AppointmentsView({ locale, appointments, categories, tickets, schedule, settings, onBook, onCancel }: {
+  locale: Locale,
+  appointments: Appointment[],
+  categories: Category[],
+  tickets: Ticket[],
+  schedule: ScheduleSettings,
+  settings: AppointmentSettings,
+  onBook: (appointment: Pick<Appointment, 'categoryId' | 'scheduledAt' | 'customerName'>) => void,
+  onCancel: (id: string) => void,
+  key?: React.Key
+}) {
+  const [day, setDay] = useState(() => businessDate(Date.now()));
+  const [categoryId, setCategoryId] = useState(categories[0]?.id ?? '');
+  const [slot, setSlot] = useState<number | null>(null);
+  const [customerName, setCustomerName] = useState('');
+  const t = translator(locale);
+
+  const dayStart = parseISO(day).getTime();
+  const slots = daySlots(schedule, settings, dayStart);
+  const dayAppointments = appointments
+    .filter(a => businessDate(a.scheduledAt) === day)
+    .sort((a, b) => a.scheduledAt - b.scheduledAt);
+
+  const book = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (slot === null || !customerName.trim()) return;
+    onBook({ categoryId, scheduledAt: slot, customerName: customerName.trim() });
+    setSlot(null);
+    setCustomerName('');
+  };
+
+  return (
+    <motion.div 
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      className="p-6 md:p-10 max-w-6xl mx-auto space-y-8"
+    >
+      <header>
+        <h1 className="text-3xl font-bold text-slate-900">{t('appointments.title')}</h1>
+        <p className="text-slate-500">{t('appointments.subtitle', { minutes: settings.slotMinutes, capacity: settings.slotCapacity })}</p>
+      </header>
+
+      <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+        <div className="flex flex-wrap items-center gap-4">
+          <input
+            type="date"
+            className="px-4 py-3 rounded-xl border border-slate-200 outline-none"
+            value={day}
+            onChange={e => { if (e.target.value) { setDay(e.target.value); setSlot(null); } }}
+          />
+          <select
+            className="px-4 py-3 rounded-xl border border-slate-200 outline-none bg-white"
+            value={categoryId}
+            onChange={e => { setCategoryId(e.target.value); setSlot(null); }}
+          >
+            {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+          </select>
+        </div>
+
+        {slots.length === 0 ? (
+          <p className="text-slate-400 text-sm">{t('appointments.closedDay')}</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-6 lg:grid-cols-8 gap-2">
+            {slots.map(start => {
+              const booked = bookedInSlot(appointments, categoryId, start);
+              const unavailable = start <= Date.now() || booked >= settings.slotCapacity;
+              return (
+                <button
+                  key={start}
+                  disabled={unavailable}
+                  onClick={() => setSlot(start)}
+                  className={`p-3 rounded-xl border text-sm font-bold transition-all disabled:opacity-40 ${slot === start ? 'bg-blue-600 border-blue-600 text-white' : 'bg-slate-50 border-slate-100 text-slate-700 hover:border-blue-200'}`}
+                >
+                  {format(start, 'HH:mm')}
+                  <span className="block text-[10px] font-medium opacity-70">{booked}/{settings.slotCapacity}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <form onSubmit={book} className="flex flex-wrap items-center gap-4">
+          <input
+            type="text"
+            placeholder={t('appointments.customerName')}
+            className="flex-1 min-w-[200px] px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+            value={customerName}
+            onChange={e => setCustomerName(e.target.value)}
+          />
+          <button
+            type="submit"
+            disabled={slot === null || !customerName.trim() || !categoryId}
+            className="px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all disabled:opacity-40 flex items-center gap-2"
+          >
+            <Plus size={20} />
+            {slot === null ? t('appointments.pickSlot') : t('appointments.book', { time: format(slot, 'HH:mm') })}
+          </button>
+        </form>
+      </section>
+
+      <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-4">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <CalendarDays className="text-blue-500" />
+          {t('appointments.agenda', { date: format(dayStart, 'dd/MM/yyyy') })}
+        </h3>
+        {dayAppointments.length === 0 ? (
+          <p className="text-slate-400 text-sm">{t('appointments.none')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-widest">
+                <th className="py-2">{t('appointments.time')}</th>
+                <th className="py-2">{t('appointments.code')}</th>
+                <th className="py-2">{t('appointments.customer')}</th>
+                <th className="py-2">{t('supervisor.service')}</th>
+                <th className="py-2">{t('appointments.status')}</th>
+                <th className="py-2">{t('common.ticket')}</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {dayAppointments.map(a => (
+                <tr key={a.id}>
+                  <td className="py-3 font-bold text-slate-800">{format(a.scheduledAt, 'HH:mm')}</td>
+                  <td className="py-3 font-mono font-bold tracking-widest">{a.code}</td>
+                  <td className="py-3">{a.customerName}</td>
+                  <td className="py-3 text-slate-500">{categories.find(c => c.id === a.categoryId)?.name ?? '—'}</td>
+                  <td className="py-3">
+                    <span className={`px-2 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider ${APPOINTMENT_STATUS_STYLES[a.status]}`}>
+                      {t(APPOINTMENT_STATUS_LABEL_KEYS[a.status])}
+                    </span>
+                  </td>
+                  <td className="py-3 font-bold text-slate-700">{tickets.find(ticket => ticket.id === a.ticketId)?.displayId ?? '—'}</td>
+                  <td className="py-3 text-right">
+                    {a.status === 'booked' && (
+                      <button onClick={() => onCancel(a.id)} className="text-xs font-bold text-red-500 hover:text-red-700 uppercase tracking-wider">
+                        {t('common.cancel')}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </motion.div>
+  );
+}
+
+// How long the TV stays in each language before moving on to the next.
+const TV_LOCALE_MS = 10_000;
+
+function TVView({ tickets, counters, announcements, waitEstimates, layout }: { 
+  tickets: Ticket[], 
+  counters: Counter[], 
+  announcements: AnnouncementSettings, 
+  waitEstimates: { category: Category, estimate: WaitEstimate }[],
+  layout: DisplayLayout,
+  key?: React.Key 
+}) {
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const t = translator(locale);
+
+  useEffect(() => {
+    const timer = setInterval(() => setLocale(current => LOCALES[(LOCALES.indexOf(current) + 1) % LOCALES.length]), TV_LOCALE_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const callingTickets = tickets
+    .filter(t => t.status === 'calling' || t.status === 'serving')
+    .sort((a, b) => (b.recalledAt || b.calledAt || 0) - (a.recalledAt || a.calledAt || 0))
+    .slice(0, 1 + layout.historyRows);
 
   const lastCalled = callingTickets[0];
+  const tickerMessages = currentTickerMessages(layout.tickerMessages);
+
+  const announcerRef = useRef<Announcer | null>(null);
+  if (!announcerRef.current) announcerRef.current = new Announcer(announcements);
+  const announcer = announcerRef.current;
+  const announced = useRef<Set<string> | null>(null);
+  const [audioLocked, setAudioLocked] = useState(false);
 
-  // Sound effect simulation (visual only in this context)
   useEffect(() => {
-    if (lastCalled?.status === 'calling') {
-      // In a real app: new Audio('/ding.mp3').play();
+    announcer.configure(announcements);
+  }, [announcements]);
+
+  useEffect(() => () => announcer.clear(), []);
+
+  // Announce every new call and re-call once, oldest first; calls already on screen when the TV opens stay silent
+  useEffect(() => {
+    const calls = tickets
+      .filter(t => t.status === 'calling')
+      .map(t => ({ ticket: t, key: `${t.id}:${t.recallCount ?? 0}` }));
+    if (!announced.current) {
+      announced.current = new Set(calls.map(c => c.key));
+      return;
     }
-  }, [lastCalled?.id]);
+    calls
+      .filter(c => !announced.current!.has(c.key))
+      .sort((a, b) => (a.ticket.recalledAt || a.ticket.calledAt || 0) - (b.ticket.recalledAt || b.ticket.calledAt || 0))
+      .forEach(({ ticket, key }) => {
+        announced.current!.add(key);
+        const counter = counters.find(c => c.id === ticket.counterId);
+        announcer.announce(LOCALES.map(code => announcementText(ticket.displayId, counter?.name, ticket.counterId, code)));
+      });
+    setAudioLocked(announcer.needsUnlock);
+  }, [tickets]);
 
   return (
     <motion.div 
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
-      className="h-screen bg-slate-900 text-white flex flex-col overflow-hidden"
+      className="h-screen text-white flex flex-col overflow-hidden"
+      style={{ backgroundColor: layout.backgroundColor }}
+      lang={locale}
     >
       <header className="p-8 bg-slate-800/50 border-b border-white/5 flex items-center justify-between">
         <div className="flex items-center gap-4">
-          <div className="w-12 h-12 bg-blue-600 rounded-2xl flex items-center justify-center">
-            <Monitor size={28} />
-          </div>
+          {layout.logoUrl ? (
+            <img src={layout.logoUrl} alt="" className="h-12 max-w-[12rem] object-contain" />
+          ) : (
+            <div className="w-12 h-12 rounded-2xl flex items-center justify-center" style={{ backgroundColor: layout.accentColor }}>
+              <Monitor size={28} />
+            </div>
+          )}
           <div>
-            <h1 className="text-2xl font-black tracking-tight uppercase">Turnos en Atención</h1>
-            <p className="text-slate-400 text-sm font-medium">Por favor, esté atento a su llamado</p>
+            <h1 className="text-2xl font-black tracking-tight uppercase">{t('tv.title')}</h1>
+            <p className="text-slate-400 text-sm font-medium">{t('tv.subtitle')}</p>
           </div>
         </div>
         <div className="text-right">
           <div className="text-3xl font-mono font-bold">{format(new Date(), 'HH:mm:ss')}</div>
-          <div className="text-slate-400 text-xs font-bold uppercase tracking-widest">{format(new Date(), 'EEEE, d MMMM')}</div>
+          <div className="text-slate-400 text-xs font-bold uppercase tracking-widest">{formatDate(new Date(), 'EEEE, d MMMM', locale)}</div>
         </div>
       </header>
 
@@ -506,13 +1791,13 @@ function TVView({ tickets, counters }: { tickets: Ticket[], counters: Counter[],
         <div className="flex-1 flex flex-col items-center justify-center bg-slate-800/30 rounded-[40px] border border-white/5 relative overflow-hidden">
           {lastCalled ? (
             <motion.div 
-              key={lastCalled.id}
+              key={`${lastCalled.id}-${lastCalled.recallCount ?? 0}`}
               initial={{ scale: 0.8, opacity: 0 }}
               animate={{ scale: 1, opacity: 1 }}
               className="text-center space-y-8 z-10"
             >
               <div className="space-y-2">
-                <p className="text-blue-400 font-black uppercase tracking-[0.3em] text-xl">Turno</p>
+                <p className="font-black uppercase tracking-[0.3em] text-xl" style={{ color: layout.accentColor }}>{t('common.ticket')}</p>
                 <h2 className="text-[15rem] font-black leading-none tracking-tighter text-white drop-shadow-2xl">
                   {lastCalled.displayId}
                 </h2>
@@ -520,7 +1805,7 @@ function TVView({ tickets, counters }: { tickets: Ticket[], counters: Counter[],
               <div className="flex items-center justify-center gap-6">
                 <div className="h-px w-20 bg-white/20" />
                 <p className="text-4xl font-bold text-slate-300 uppercase tracking-widest">
-                  Ventanilla {lastCalled.counterId}
+                  {t('common.counterNumber', { id: lastCalled.counterId ?? '' })}
                 </p>
                 <div className="h-px w-20 bg-white/20" />
               </div>
@@ -528,17 +1813,20 @@ function TVView({ tickets, counters }: { tickets: Ticket[], counters: Counter[],
                 <motion.div 
                   animate={{ opacity: [1, 0, 1] }}
                   transition={{ duration: 1, repeat: Infinity }}
-                  className="inline-flex items-center gap-3 px-6 py-3 bg-blue-600/20 text-blue-400 rounded-full border border-blue-500/30"
+                  className="inline-flex items-center gap-3 px-6 py-3 rounded-full border"
+                  style={{ color: layout.accentColor, borderColor: `${layout.accentColor}4d`, backgroundColor: `${layout.accentColor}33` }}
                 >
                   <Volume2 size={24} />
-                  <span className="font-black uppercase tracking-widest text-sm">Llamando...</span>
+                  <span className="font-black uppercase tracking-widest text-sm">
+                    {lastCalled.recallCount ? t('tv.callCount', { count: lastCalled.recallCount + 1 }) : t('tv.calling')}
+                  </span>
                 </motion.div>
               )}
             </motion.div>
           ) : (
             <div className="text-slate-600 text-center space-y-4">
               <Clock size={80} strokeWidth={1} />
-              <p className="text-2xl font-medium">Esperando nuevos turnos</p>
+              <p className="text-2xl font-medium">{t('tv.idle')}</p>
             </div>
           )}
           
@@ -549,72 +1837,141 @@ function TVView({ tickets, counters }: { tickets: Ticket[], counters: Counter[],
 
         {/* Sidebar History */}
         <div className="w-full lg:w-96 flex flex-col gap-4">
-          <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-500 px-4">Últimos llamados</h3>
-          <div className="flex-1 space-y-4">
-            {callingTickets.slice(1).map(t => (
-              <motion.div 
-                key={t.id}
-                initial={{ x: 50, opacity: 0 }}
-                animate={{ x: 0, opacity: 1 }}
-                className="bg-slate-800/50 p-6 rounded-3xl border border-white/5 flex items-center justify-between"
-              >
-                <div>
-                  <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest mb-1">Turno</p>
-                  <h4 className="text-4xl font-black text-white">{t.displayId}</h4>
+          {layout.mediaUrls.length > 0 && <MediaSlides urls={layout.mediaUrls} seconds={layout.slideSeconds} />}
+          <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-500 px-4">{t('common.estimatedWait')}</h3>
+          <div className="bg-slate-800/50 p-6 rounded-3xl border border-white/5 space-y-3">
+            {waitEstimates.map(({ category, estimate }) => (
+              <div key={category.id} className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: category.color }} />
+                  <span className="font-bold text-slate-300">{categoryName(category, locale)}</span>
                 </div>
-                <div className="text-right">
-                  <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest mb-1">Ventanilla</p>
-                  <h4 className="text-3xl font-bold text-blue-400">{t.counterId}</h4>
-                </div>
-              </motion.div>
-            ))}
-            {callingTickets.length <= 1 && (
-              <div className="h-full flex items-center justify-center border-2 border-dashed border-white/5 rounded-[40px]">
-                <p className="text-slate-600 font-medium">No hay historial reciente</p>
+                <span className="text-xl font-black text-white">{t('common.approxMinutes', { minutes: estimate.minutes })}</span>
               </div>
-            )}
+            ))}
           </div>
+          {layout.historyRows > 0 && (
+            <>
+              <h3 className="text-xs font-black uppercase tracking-[0.2em] text-slate-500 px-4">{t('tv.recentCalls')}</h3>
+              <div className="flex-1 space-y-4">
+                {callingTickets.slice(1).map(ticket => (
+                  <motion.div 
+                    key={ticket.id}
+                    initial={{ x: 50, opacity: 0 }}
+                    animate={{ x: 0, opacity: 1 }}
+                    className="bg-slate-800/50 p-6 rounded-3xl border border-white/5 flex items-center justify-between"
+                  >
+                    <div>
+                      <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest mb-1">{t('common.ticket')}</p>
+                      <h4 className="text-4xl font-black text-white">{ticket.displayId}</h4>
+                    </div>
+                    <div className="text-right">
+                      <p className="text-slate-500 text-[10px] font-black uppercase tracking-widest mb-1">{t('common.counter')}</p>
+                      <h4 className="text-3xl font-bold" style={{ color: layout.accentColor }}>{ticket.counterId}</h4>
+                    </div>
+                  </motion.div>
+                ))}
+                {callingTickets.length <= 1 && (
+                  <div className="h-full flex items-center justify-center border-2 border-dashed border-white/5 rounded-[40px]">
+                    <p className="text-slate-600 font-medium">{t('tv.noRecentCalls')}</p>
+                  </div>
+                )}
+              </div>
+            </>
+          )}
         </div>
       </div>
       
-      <footer className="p-6 bg-blue-600 text-white font-bold text-center overflow-hidden">
+      {audioLocked && (
+        <button
+          onClick={() => announcer.unlock().then(() => setAudioLocked(false))}
+          className="fixed top-6 left-1/2 -translate-x-1/2 z-50 px-6 py-3 bg-amber-500 text-white rounded-full font-black uppercase tracking-widest text-sm shadow-xl flex items-center gap-3"
+        >
+          <Volume2 size={20} />
+          {t('tv.enableSound')}
+        </button>
+      )}
+
+      <footer className="p-6 text-white font-bold text-center overflow-hidden" style={{ backgroundColor: layout.accentColor }}>
         <motion.div 
           animate={{ x: [1000, -1000] }}
           transition={{ duration: 20, repeat: Infinity, ease: 'linear' }}
           className="whitespace-nowrap text-xl uppercase tracking-widest"
         >
-          Bienvenidos a QueueMaster Pro • Por favor tome su ticket en el kiosco • Mantenga su distancia de seguridad • Gracias por su paciencia
+          {tickerMessages.length ? tickerMessages.join(' • ') : t('tv.ticker')}
         </motion.div>
       </footer>
     </motion.div>
   );
 }
 
-function AdminView({ state, setState, onGenerateSynth, onClear }: { 
-  state: AppState, 
-  setState: React.Dispatch<React.SetStateAction<AppState>>,
-  onGenerateSynth: () => void,
-  onClear: () => void,
+function AdminView({ locale, state, branchId, currentUserId, onCreateUser, onUpdateUser, onAddCategory, onUpdateCategory, onRemoveCategory, onUpdateQueueSettings, onAddCounter, onUpdateCounter, onRemoveCounter, onAddBranch, onRenameBranch, onRemoveBranch, onCopyCategories, onAddDisplayProfile, onUpdateDisplayProfile, onRemoveDisplayProfile, onUpdateAnnouncementSettings, onUpdatePrintingSettings, onUpdateScheduleSettings, onUpdateAppointmentSettings, onCloseBusinessDay, onReopenBusinessDay, onRestoreConfig, onGenerateSynth, onClear }: { 
+  locale: Locale,
+  state: AppState,
+  // Branch whose categories and counters are being edited
+  branchId: string,
+  currentUserId: string,
+  onCreateUser: (user: { username: string; name: string; role: Role; password: string; branchId: string | null }) => void,
+  onUpdateUser: (id: string, changes: Partial<Pick<User, 'name' | 'role' | 'active'>> & { password?: string; branchId?: string | null }) => void,
+  onAddCategory: (category: Omit<Category, 'id'>) => void,
+  onUpdateCategory: (id: string, changes: Partial<Pick<Category, 'priority' | 'maxWaitMinutes' | 'maxServiceMinutes' | 'translations'>>) => void,
+  onRemoveCategory: (id: string) => void,
+  onUpdateQueueSettings: (settings: QueueSettings) => void,
+  onAddCounter: (counter: Pick<Counter, 'branchId' | 'name' | 'categoryIds'>) => void,
+  onUpdateCounter: (counterId: number, changes: Partial<Pick<Counter, 'name' | 'categoryIds'>>) => void,
+  onRemoveCounter: (counterId: number) => void,
+  onAddBranch: (name: string, templateBranchId?: string) => void,
+  onRenameBranch: (id: string, name: string) => void,
+  onRemoveBranch: (id: string) => void,
+  onCopyCategories: (fromBranchId: string, toBranchId: string) => void,
+  onAddDisplayProfile: (profile: Omit<DisplayProfile, 'id'>) => void,
+  onUpdateDisplayProfile: (id: string, profile: DisplayLayout & Pick<DisplayProfile, 'name'>) => void,
+  onRemoveDisplayProfile: (id: string) => void,
+  onUpdateAnnouncementSettings: (settings: AnnouncementSettings) => void,
+  onUpdatePrintingSettings: (settings: PrintingSettings) => void,
+  onUpdateScheduleSettings: (settings: ScheduleSettings) => void,
+  onUpdateAppointmentSettings: (settings: AppointmentSettings) => void,
+  onCloseBusinessDay: (branchId: string) => void,
+  onReopenBusinessDay: (branchId: string) => void,
+  onRestoreConfig: (backup: ConfigBackup) => void,
+  onGenerateSynth: (branchId: string, params: SimulationParams) => void,
+  onClear: (branchId: string) => void,
   key?: React.Key
 }) {
-  const [newCat, setNewCat] = useState({ name: '', prefix: '', color: '#3b82f6' });
+  const [newCat, setNewCat] = useState({ name: '', prefix: '', color: '#3b82f6', priority: 1, ...SLA_DEFAULTS });
+  const [newCounterName, setNewCounterName] = useState('');
+  const t = translator(locale);
 
-  const addCategory = () => {
-    if (!newCat.name || !newCat.prefix) return;
-    const id = crypto.randomUUID();
-    setState(prev => ({
-      ...prev,
-      categories: [...prev.categories, { ...newCat, id }],
-      nextTicketNumber: { ...prev.nextTicketNumber, [id]: 1 }
-    }));
-    setNewCat({ name: '', prefix: '', color: '#3b82f6' });
+  const queueSettings = state.settings.queue;
+  const categories = state.categories.filter(c => c.branchId === branchId);
+  const counters = state.counters.filter(c => c.branchId === branchId);
+
+  // Toggling a category off an "all categories" counter turns it into an explicit list of the rest.
+  const toggleCounterCategory = (counter: Counter, categoryId: string) => {
+    const current = counter.categoryIds.length ? counter.categoryIds : categories.map(c => c.id);
+    const next = current.includes(categoryId) ? current.filter(id => id !== categoryId) : [...current, categoryId];
+    if (next.length === 0) return;
+    onUpdateCounter(counter.id, { categoryIds: next.length === categories.length ? [] : next });
   };
 
-  const removeCategory = (id: string) => {
-    setState(prev => ({
-      ...prev,
-      categories: prev.categories.filter(c => c.id !== id)
-    }));
+  const addCounter = () => {
+    if (!newCounterName.trim()) return;
+    onAddCounter({ branchId, name: newCounterName.trim(), categoryIds: [] });
+    setNewCounterName('');
+  };
+
+  const renameCounter = (counter: Counter, name: string) => {
+    if (name.trim() && name.trim() !== counter.name) onUpdateCounter(counter.id, { name: name.trim() });
+  };
+
+  const removeCounter = (counter: Counter) => {
+    if (confirm(t('admin.confirmRemove', { name: counter.name }))) onRemoveCounter(counter.id);
+  };
+
+  const addCategory = () => {
+    if (!newCat.name || !newCat.prefix) return;
+    onAddCategory({ ...newCat, branchId });
+    setNewCat({ name: '', prefix: '', color: '#3b82f6', priority: 1, ...SLA_DEFAULTS });
   };
 
   return (
@@ -624,54 +1981,87 @@ function AdminView({ state, setState, onGenerateSynth, onClear }: {
       className="p-6 md:p-10 max-w-4xl mx-auto space-y-10"
     >
       <header>
-        <h1 className="text-3xl font-bold text-slate-900">Configuración del Sistema</h1>
-        <p className="text-slate-500">Administre categorías, ventanillas y datos del sistema</p>
+        <h1 className="text-3xl font-bold text-slate-900">{t('admin.title')}</h1>
+        <p className="text-slate-500">{t('admin.subtitle')}</p>
       </header>
 
+      <BranchesPanel
+        t={t}
+        branches={state.branches}
+        categories={state.categories}
+        counters={state.counters}
+        activeBranchId={branchId}
+        onAdd={onAddBranch}
+        onRename={onRenameBranch}
+        onRemove={onRemoveBranch}
+        onCopyCategories={onCopyCategories}
+      />
+
       <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
         <h3 className="text-xl font-bold flex items-center gap-2">
           <TicketIcon className="text-blue-500" />
-          Categorías de Trámites
+          {t('admin.categories')}
         </h3>
         
-        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
           <input 
             type="text" 
-            placeholder="Nombre (ej. Caja)" 
+            placeholder={t('admin.categoryNamePlaceholder')}
             className="px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
             value={newCat.name}
             onChange={e => setNewCat({ ...newCat, name: e.target.value })}
           />
           <input 
             type="text" 
-            placeholder="Prefijo (ej. C)" 
+            placeholder={t('admin.prefixPlaceholder')}
             maxLength={1}
             className="px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none uppercase"
             value={newCat.prefix}
             onChange={e => setNewCat({ ...newCat, prefix: e.target.value.toUpperCase() })}
           />
+          <PrioritySelect value={newCat.priority} onChange={priority => setNewCat({ ...newCat, priority })} t={t} />
           <button 
             onClick={addCategory}
             className="bg-blue-600 text-white font-bold py-3 rounded-xl hover:bg-blue-700 transition-all flex items-center justify-center gap-2"
           >
             <Plus size={20} />
-            Añadir
+            {t('common.add')}
           </button>
         </div>
 
+        <div className="flex flex-wrap items-center gap-4 text-sm text-slate-500">
+          <span>{t('admin.newCategoryTargets')}</span>
+          <MinutesInput label={t('admin.maxWait')} value={newCat.maxWaitMinutes} onChange={maxWaitMinutes => setNewCat({ ...newCat, maxWaitMinutes })} />
+          <MinutesInput label={t('admin.maxService')} value={newCat.maxServiceMinutes} onChange={maxServiceMinutes => setNewCat({ ...newCat, maxServiceMinutes })} />
+        </div>
+
         <div className="space-y-3 pt-4">
-          {state.categories.map(cat => (
-            <div key={cat.id} className="flex items-center justify-between p-4 bg-slate-50 rounded-2xl border border-slate-100">
+          {categories.map(cat => (
+            <div key={cat.id} className="flex flex-wrap items-center justify-between gap-4 p-4 bg-slate-50 rounded-2xl border border-slate-100">
               <div className="flex items-center gap-4">
                 <div className="w-4 h-4 rounded-full" style={{ backgroundColor: cat.color }} />
                 <div>
                   <span className="font-bold text-slate-800">{cat.name}</span>
                   <span className="ml-2 text-xs font-bold text-slate-400 uppercase tracking-widest">({cat.prefix})</span>
+                  {LOCALES.filter(code => code !== DEFAULT_LOCALE).map(code => (
+                    <TranslationInput
+                      key={code}
+                      locale={code}
+                      value={cat.translations?.[code] ?? ''}
+                      onChange={name => onUpdateCategory(cat.id, { translations: { ...cat.translations, [code]: name } })}
+                      t={t}
+                    />
+                  ))}
                 </div>
               </div>
-              <button onClick={() => removeCategory(cat.id)} className="text-slate-300 hover:text-red-500 transition-colors">
-                <Trash2 size={18} />
-              </button>
+              <div className="flex items-center gap-4">
+                <MinutesInput label={t('admin.maxWait')} value={cat.maxWaitMinutes} onChange={maxWaitMinutes => onUpdateCategory(cat.id, { maxWaitMinutes })} />
+                <MinutesInput label={t('admin.maxService')} value={cat.maxServiceMinutes} onChange={maxServiceMinutes => onUpdateCategory(cat.id, { maxServiceMinutes })} />
+                <PrioritySelect value={cat.priority} onChange={priority => onUpdateCategory(cat.id, { priority })} t={t} />
+                <button onClick={() => onRemoveCategory(cat.id)} className="text-slate-300 hover:text-red-500 transition-colors">
+                  <Trash2 size={18} />
+                </button>
+              </div>
             </div>
           ))}
         </div>
@@ -679,25 +2069,171 @@ function AdminView({ state, setState, onGenerateSynth, onClear }: {
 
       <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
         <h3 className="text-xl font-bold flex items-center gap-2">
-          <LayoutDashboard className="text-purple-500" />
-          Gestión de Datos
+          <UserRound className="text-green-500" />
+          {t('supervisor.counters')}
         </h3>
-        <p className="text-slate-500 text-sm">Utilice estas herramientas para poblar el sistema con datos de prueba o limpiar el historial.</p>
-        
-        <div className="flex flex-wrap gap-4">
+        <p className="text-slate-500 text-sm">{t('admin.countersHint')}</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+          <input 
+            type="text" 
+            placeholder={t('admin.counterNamePlaceholder')}
+            className="sm:col-span-3 px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+            value={newCounterName}
+            onChange={e => setNewCounterName(e.target.value)}
+          />
           <button 
-            onClick={onGenerateSynth}
-            className="px-6 py-3 bg-purple-50 text-purple-700 border border-purple-100 rounded-xl font-bold hover:bg-purple-100 transition-all flex items-center gap-2"
+            onClick={addCounter}
+            className="bg-blue-600 text-white font-bold py-3 rounded-xl hover:bg-blue-700 transition-all flex items-center justify-center gap-2"
           >
             <Plus size={20} />
-            Generar 6 meses de datos sintéticos
+            {t('common.add')}
           </button>
+        </div>
+
+        <div className="space-y-3">
+          {counters.map(counter => (
+            <div key={counter.id} className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <input
+                  key={counter.name}
+                  defaultValue={counter.name}
+                  onBlur={e => renameCounter(counter, e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="font-bold text-slate-800 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-blue-500 outline-none"
+                />
+                <div className="flex items-center gap-4">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{servedCategoriesLabel(counter, categories, t)}</span>
+                  <button
+                    onClick={() => removeCounter(counter)}
+                    disabled={!!counter.currentTicketId || counters.length === 1}
+                    title={counter.currentTicketId ? t('admin.counterBusy') : undefined}
+                    className="text-slate-300 hover:text-red-500 disabled:opacity-40 disabled:hover:text-slate-300 transition-colors"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {categories.map(cat => {
+                  const active = servesCategory(counter, cat.id);
+                  return (
+                    <button
+                      key={cat.id}
+                      onClick={() => toggleCounterCategory(counter, cat.id)}
+                      className={`px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${active ? 'text-white border-transparent' : 'bg-white text-slate-400 border-slate-200'}`}
+                      style={active ? { backgroundColor: cat.color } : undefined}
+                    >
+                      {cat.name}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Users className="text-amber-500" />
+          {t('admin.queuePolicy')}
+        </h3>
+        <p className="text-slate-500 text-sm">{t('admin.queuePolicyHint')}</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <select
+            className="px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+            value={queueSettings.policy}
+            onChange={e => onUpdateQueueSettings({ ...queueSettings, policy: e.target.value as QueueSettings['policy'] })}
+          >
+            {Object.entries(QUEUE_POLICY_LABEL_KEYS).map(([value, label]) => (
+              <option key={value} value={value}>{t(label)}</option>
+            ))}
+          </select>
+          {queueSettings.policy === 'aging' && (
+            <label className="flex items-center gap-3 text-sm text-slate-500">
+              <input
+                type="number"
+                min={1}
+                className="w-24 px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+                value={queueSettings.agingMinutesPerLevel}
+                onChange={e => Number(e.target.value) > 0 && onUpdateQueueSettings({ ...queueSettings, agingMinutesPerLevel: Number(e.target.value) })}
+              />
+              {t('admin.agingMinutes')}
+            </label>
+          )}
+          <label className="flex items-center gap-3 text-sm text-slate-500">
+            <input
+              type="number"
+              min={0}
+              className="w-24 px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+              value={queueSettings.noShowGraceMinutes}
+              onChange={e => Number(e.target.value) >= 0 && onUpdateQueueSettings({ ...queueSettings, noShowGraceMinutes: Number(e.target.value) })}
+            />
+            {t('admin.noShowGrace')}
+          </label>
+          <label className="flex items-center gap-3 text-sm text-slate-500">
+            <input
+              type="number"
+              min={1}
+              max={100}
+              className="w-24 px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+              value={queueSettings.slaTargetPercent}
+              onChange={e => Number(e.target.value) > 0 && Number(e.target.value) <= 100 && onUpdateQueueSettings({ ...queueSettings, slaTargetPercent: Number(e.target.value) })}
+            />
+            {t('admin.slaTarget')}
+          </label>
+        </div>
+      </section>
+
+      <SchedulePanel
+        locale={locale}
+        settings={state.settings.schedule}
+        businessDay={state.businessDays.find(d => d.branchId === branchId) ?? null}
+        pendingCount={state.tickets.filter(ticket => ticket.branchId === branchId && (ticket.status === 'waiting' || ticket.status === 'calling')).length}
+        onSave={onUpdateScheduleSettings}
+        onClose={() => onCloseBusinessDay(branchId)}
+        onReopen={() => onReopenBusinessDay(branchId)}
+      />
+
+      <AppointmentSettingsPanel t={t} settings={state.settings.appointments} onSave={onUpdateAppointmentSettings} />
+
+      <AnnouncementSettingsPanel t={t} settings={state.settings.announcements} onChange={onUpdateAnnouncementSettings} />
+
+      <DisplayProfilesPanel
+        t={t}
+        profiles={state.displayProfiles.filter(p => p.branchId === branchId)}
+        categories={categories}
+        counters={counters}
+        branchId={branchId}
+        onAdd={onAddDisplayProfile}
+        onUpdate={onUpdateDisplayProfile}
+        onRemove={onRemoveDisplayProfile}
+      />
+
+      <PrintingSettingsPanel t={t} settings={state.settings.printing} onSave={onUpdatePrintingSettings} />
+
+      <UsersPanel t={t} users={state.users} branches={state.branches} currentUserId={currentUserId} onCreate={onCreateUser} onUpdate={onUpdateUser} />
+
+      <ExportImportPanel t={t} state={state} onRestoreConfig={onRestoreConfig} />
+
+      <SimulatorPanel t={t} branchId={branchId} schedule={state.settings.schedule} counterCount={counters.length} onGenerate={params => onGenerateSynth(branchId, params)} />
+
+      <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <LayoutDashboard className="text-purple-500" />
+          {t('admin.data')}
+        </h3>
+        <p className="text-slate-500 text-sm">{t('admin.dataHint')}</p>
+        
+        <div className="flex flex-wrap gap-4">
           <button 
-            onClick={onClear}
+            onClick={() => onClear(branchId)}
             className="px-6 py-3 bg-red-50 text-red-700 border border-red-100 rounded-xl font-bold hover:bg-red-100 transition-all flex items-center gap-2"
           >
             <Trash2 size={20} />
-            Borrar todo el historial
+            {t('admin.clearHistory')}
           </button>
         </div>
       </section>
@@ -705,41 +2241,71 @@ function AdminView({ state, setState, onGenerateSynth, onClear }: {
   );
 }
 
-function AnalyticsView({ tickets, categories }: { tickets: Ticket[], categories: Category[], key?: React.Key }) {
+function AnalyticsView({ locale, tickets, categories, counters, users, counterBreaks, appointments, surveyResponses, slaTargetPercent, headOffice }: { locale: Locale, tickets: Ticket[], categories: Category[], counters: Counter[], users: User[], counterBreaks: CounterBreak[], appointments: Appointment[], surveyResponses: SurveyResponse[], slaTargetPercent: number, headOffice?: AppState, key?: React.Key }) {
+  const [range, setRange] = useState(() => ({
+    from: format(subDays(new Date(), 29), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+  }));
+  const [categoryId, setCategoryId] = useState<string | 'all'>('all');
+  const [counterId, setCounterId] = useState<number | 'all'>('all');
+  const [heatmapMetric, setHeatmapMetric] = useState<'arrivals' | 'wait'>('arrivals');
+  const [forecastDay, setForecastDay] = useState(() => format(addDays(new Date(), 1), 'yyyy-MM-dd'));
+  const [targetWait, setTargetWait] = useState<number | null>(null);
+  const [compareBranches, setCompareBranches] = useState(false);
+  const t = translator(locale);
+
+  const filters = useMemo<AnalyticsFilters>(() => ({
+    from: startOfDay(parseISO(range.from)).getTime(),
+    to: addDays(startOfDay(parseISO(range.to)), 1).getTime(),
+    categoryId,
+    counterId,
+  }), [range, categoryId, counterId]);
+
   const stats = useMemo(() => {
-    const completed = tickets.filter(t => t.status === 'completed');
-    const noShows = tickets.filter(t => t.status === 'no-show');
-    
-    const tme = completed.reduce((acc, t) => acc + ((t.calledAt || 0) - t.createdAt), 0) / (completed.length || 1);
-    const tma = completed.reduce((acc, t) => acc + ((t.completedAt || 0) - (t.startedAt || t.calledAt || 0)), 0) / (completed.length || 1);
-    
-    const abandonmentRate = (noShows.length / (tickets.length || 1)) * 100;
-
-    // Volume by day (last 30 days)
-    const last30Days = Array.from({ length: 30 }, (_, i) => {
-      const date = subDays(new Date(), i);
-      const start = startOfDay(date).getTime();
-      const end = start + 24 * 60 * 60 * 1000;
-      const count = tickets.filter(t => t.createdAt >= start && t.createdAt < end).length;
-      return { date: format(date, 'dd/MM'), count };
-    }).reverse();
-
-    // Volume by category
-    const categoryData = categories.map(cat => ({
-      name: cat.name,
-      value: tickets.filter(t => t.categoryId === cat.id).length,
-      color: cat.color
-    }));
+    const filtered = filterTickets(tickets, filters);
+    // Same-length period right before the selected one, for the trend labels
+    const length = filters.to - filters.from;
+    const previous = computeKpis(filterTickets(tickets, { ...filters, from: filters.from - length, to: filters.from }));
 
     return {
-      tme: Math.round(tme / 60000),
-      tma: Math.round(tma / 60000),
-      total: tickets.length,
-      abandonmentRate: Math.round(abandonmentRate),
-      last30Days,
-      categoryData
+      filtered,
+      kpis: computeKpis(filtered),
+      previous,
+      daily: dailyVolume(filtered, filters.from, filters.to),
+      categoryData: categoryDistribution(filtered, categories),
+      heatmap: buildHeatmap(filtered, filters.from, filters.to),
+      byUser: serviceByUser(filtered, users, locale),
+      breaks: breakSummary(counterBreaks, users, filters, locale),
+      slaByCategory: complianceByCategory(filtered, categories),
+      slaDaily: dailyCompliance(filtered, categories, filters.from, filters.to),
+      appointments: appointmentStats(appointments, filters.from, filters.to, filters.categoryId),
     };
-  }, [tickets, categories]);
+  }, [tickets, categories, users, counterBreaks, appointments, filters, locale]);
+
+  const { kpis, previous } = stats;
+
+  // Head office: every branch over the same date range, regardless of the category and counter filters
+  const comparison = useMemo(() => {
+    if (!headOffice || !compareBranches) return null;
+    const inRange = headOffice.tickets.filter(ticket => ticket.createdAt >= filters.from && ticket.createdAt < filters.to);
+    return branchComparison(headOffice, inRange, headOffice.categories);
+  }, [headOffice, compareBranches, filters]);
+
+  // The plan follows the category filter but not the date range: it always looks back from the forecast day
+  const waitTarget = targetWait ?? categories.find(c => c.id === categoryId)?.maxWaitMinutes ?? SLA_DEFAULTS.maxWaitMinutes;
+  const plan = useMemo(() => {
+    const history = categoryId === 'all' ? tickets : tickets.filter(ticket => ticket.categoryId === categoryId);
+    return staffingPlan(history, parseISO(forecastDay).getTime(), waitTarget, slaTargetPercent);
+  }, [tickets, categoryId, forecastDay, waitTarget, slaTargetPercent]);
+  const busyHours = plan.hours.filter(h => h.arrivals > 0);
+  const planHours = busyHours.length
+    ? plan.hours.slice(busyHours[0].hour, busyHours[busyHours.length - 1].hour + 1)
+    : plan.hours.slice(8, 18);
+  const chartPlan = planHours.map(h => ({ ...h, label: `${String(h.hour).padStart(2, '0')}:00` }));
+
+  const setPreset = (days: number) => {
+    setRange({ from: format(subDays(new Date(), days - 1), 'yyyy-MM-dd'), to: format(new Date(), 'yyyy-MM-dd') });
+  };
 
   return (
     <motion.div 
@@ -747,63 +2313,1842 @@ function AnalyticsView({ tickets, categories }: { tickets: Ticket[], categories:
       animate={{ opacity: 1 }}
       className="p-6 md:p-10 max-w-7xl mx-auto space-y-8"
     >
-      <header>
-        <h1 className="text-3xl font-bold text-slate-900">Analytics & KPIs</h1>
-        <p className="text-slate-500">Monitoreo de desempeño y flujo de atención</p>
+      <header className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">{t('analytics.title')}</h1>
+          <p className="text-slate-500">{t('analytics.subtitle')}</p>
+        </div>
+        {headOffice && (
+          <div className="flex bg-slate-100 rounded-xl p-1 text-xs font-bold">
+            {([[false, t('app.branch')], [true, t('analytics.headOffice')]] as const).map(([value, label]) => (
+              <button
+                key={label}
+                onClick={() => setCompareBranches(value)}
+                className={`px-4 py-2 rounded-lg transition-all ${compareBranches === value ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-400'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
       </header>
 
-      {/* KPI Cards */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
-        <KPICard label="T. Medio Espera" value={`${stats.tme} min`} icon={<Clock className="text-blue-500" />} trend="+2% vs ayer" />
-        <KPICard label="T. Medio Atención" value={`${stats.tma} min`} icon={<CheckCircle2 className="text-green-500" />} trend="-5% vs ayer" />
-        <KPICard label="Total Turnos" value={stats.total.toLocaleString()} icon={<Users className="text-purple-500" />} trend="+12% vs mes ant." />
-        <KPICard label="Tasa Abandono" value={`${stats.abandonmentRate}%`} icon={<Trash2 className="text-red-500" />} trend="Estable" />
-      </div>
-
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-        {/* Main Chart */}
-        <div className="lg:col-span-2 bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
-          <h3 className="text-xl font-bold">Volumen de Turnos (Últimos 30 días)</h3>
-          <div className="h-[300px] w-full">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={stats.last30Days}>
-                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
-                <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
-                <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
-                <Tooltip 
-                  contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
-                />
-                <Line type="monotone" dataKey="count" stroke="#3b82f6" strokeWidth={3} dot={false} activeDot={{ r: 6, strokeWidth: 0 }} />
-              </LineChart>
-            </ResponsiveContainer>
-          </div>
-        </div>
-
-        {/* Category Distribution */}
-        <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
-          <h3 className="text-xl font-bold">Distribución por Trámite</h3>
-          <div className="h-[300px] w-full">
-            <ResponsiveContainer width="100%" height="100%">
-              <PieChart>
-                <Pie
-                  data={stats.categoryData}
-                  innerRadius={60}
-                  outerRadius={80}
-                  paddingAngle={5}
-                  dataKey="value"
-                >
-                  {stats.categoryData.map((entry, index) => (
-                    <Cell key={`cell-${index}`} fill={entry.color} />
-                  ))}
-                </Pie>
-                <Tooltip />
-                <Legend verticalAlign="bottom" height={36}/>
-              </PieChart>
-            </ResponsiveContainer>
-          </div>
+      {/* Filters */}
+      <div className="bg-white p-6 rounded-[32px] border border-slate-200 shadow-sm flex flex-wrap items-end gap-4">
+        <label className="space-y-1 text-xs font-bold text-slate-400 uppercase tracking-widest">
+          <span>{t('analytics.from')}</span>
+          <input
+            type="date"
+            className="block px-4 py-2 rounded-xl border border-slate-200 text-sm text-slate-700 normal-case tracking-normal font-medium"
+            value={range.from}
+            max={range.to}
+            onChange={e => e.target.value && setRange({ ...range, from: e.target.value })}
+          />
+        </label>
+        <label className="space-y-1 text-xs font-bold text-slate-400 uppercase tracking-widest">
+          <span>{t('analytics.to')}</span>
+          <input
+            type="date"
+            className="block px-4 py-2 rounded-xl border border-slate-200 text-sm text-slate-700 normal-case tracking-normal font-medium"
+            value={range.to}
+            min={range.from}
+            onChange={e => e.target.value && setRange({ ...range, to: e.target.value })}
+          />
+        </label>
+        <div className="flex gap-2">
+          {[7, 30, 90].map(days => (
+            <button
+              key={days}
+              onClick={() => setPreset(days)}
+              className="px-3 py-2 rounded-xl bg-slate-50 border border-slate-200 text-xs font-bold text-slate-500 hover:bg-slate-100"
+            >
+              {t('analytics.days', { days })}
+            </button>
+          ))}
         </div>
+        {!comparison && (
+          <>
+            <label className="space-y-1 text-xs font-bold text-slate-400 uppercase tracking-widest">
+              <span>{t('supervisor.service')}</span>
+              <select
+                className="block px-4 py-2 rounded-xl border border-slate-200 text-sm text-slate-700 normal-case tracking-normal font-medium bg-white"
+                value={categoryId}
+                onChange={e => setCategoryId(e.target.value)}
+              >
+                <option value="all">{t('common.all')}</option>
+                {categories.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 text-xs font-bold text-slate-400 uppercase tracking-widest">
+              <span>{t('common.counter')}</span>
+              <select
+                className="block px-4 py-2 rounded-xl border border-slate-200 text-sm text-slate-700 normal-case tracking-normal font-medium bg-white"
+                value={counterId}
+                onChange={e => setCounterId(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+              >
+                <option value="all">{t('analytics.allCounters')}</option>
+                {counters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            </label>
+          </>
+        )}
       </div>
-    </motion.div>
+
+      {comparison ? (
+        <BranchComparisonPanel t={t} rows={comparison} slaTargetPercent={slaTargetPercent} />
+      ) : (
+        <>
+          {/* KPI Cards */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6">
+            <KPICard label={t('kpi.tme')} value={t('sla.minutes', { minutes: kpis.tme })} icon={<Clock className="text-blue-500" />} trend={trendLabel(kpis.tme, previous.tme, locale)} />
+            <KPICard label={t('kpi.tma')} value={t('sla.minutes', { minutes: kpis.tma })} icon={<CheckCircle2 className="text-green-500" />} trend={trendLabel(kpis.tma, previous.tma, locale)} />
+            <KPICard label={t('kpi.total')} value={kpis.total.toLocaleString(locale)} icon={<Users className="text-purple-500" />} trend={trendLabel(kpis.total, previous.total, locale)} />
+            <KPICard label={t('kpi.abandonment')} value={`${kpis.abandonmentRate}%`} icon={<Trash2 className="text-red-500" />} trend={trendLabel(kpis.abandonmentRate, previous.abandonmentRate, locale)} />
+            <KPICard label={t('kpi.transfers')} value={kpis.transferCount.toLocaleString(locale)} icon={<ArrowRight className="text-amber-500" />} trend={t('kpi.transferTrend', { rate: kpis.transferRate, minutes: kpis.avgLeg })} />
+          </div>
+
+          {/* Written summary; a new selection discards the previous one */}
+          <InsightsPanel
+            t={t}
+            key={`${filters.from}-${filters.to}-${categoryId}-${counterId}`}
+            input={() => insightsInput(stats.filtered, previous, categories, filters, slaTargetPercent)}
+            empty={kpis.total === 0}
+          />
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Main Chart */}
+            <div className="lg:col-span-2 bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+              <h3 className="text-xl font-bold">{t('analytics.volume', { from: format(filters.from, 'dd/MM'), to: format(filters.to - 1, 'dd/MM') })}</h3>
+              <div className="h-[300px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={stats.daily}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                    <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                    <Tooltip 
+                      contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                    />
+                    <Line type="monotone" dataKey="count" name={t('analytics.tickets')} stroke="#3b82f6" strokeWidth={3} dot={false} activeDot={{ r: 6, strokeWidth: 0 }} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Category Distribution */}
+            <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+              <h3 className="text-xl font-bold">{t('analytics.byCategory')}</h3>
+              <div className="h-[300px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie
+                      data={stats.categoryData}
+                      innerRadius={60}
+                      outerRadius={80}
+                      paddingAngle={5}
+                      dataKey="value"
+                    >
+                      {stats.categoryData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={entry.color} />
+                      ))}
+                    </Pie>
+                    <Tooltip />
+                    <Legend verticalAlign="bottom" height={36}/>
+                  </PieChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+
+          {/* Staffing forecast */}
+          <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <h3 className="text-xl font-bold">{t('staffing.title')}</h3>
+                <p className="text-slate-500 text-sm">
+                  {t('staffing.hint', { weeks: FORECAST_HISTORY_WEEKS, days: plan.sampleDays, percent: slaTargetPercent, minutes: plan.serviceMinutes })}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <input
+                  type="date"
+                  className="px-4 py-2 rounded-xl border border-slate-200 text-sm text-slate-700"
+                  value={forecastDay}
+                  onChange={e => e.target.value && setForecastDay(e.target.value)}
+                />
+                <MinutesInput label={t('staffing.targetWait')} value={waitTarget} onChange={setTargetWait} />
+              </div>
+            </div>
+            {plan.sampleDays === 0 ? (
+              <p className="text-slate-400 text-sm">{t('staffing.noHistory')}</p>
+            ) : (
+              <div className="h-[300px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartPlan}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="label" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                    <YAxis yAxisId="counters" allowDecimals={false} axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                    <YAxis yAxisId="arrivals" orientation="right" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                    <Tooltip 
+                      contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                    />
+                    <Legend />
+                    <ReferenceLine yAxisId="counters" y={counters.length} stroke="#94a3b8" strokeDasharray="4 4" label={{ value: t('staffing.configured'), position: 'insideTopLeft', fontSize: 12, fill: '#94a3b8' }} />
+                    <Bar yAxisId="counters" dataKey="counters" name={t('staffing.needed')} fill="#6366f1" radius={[6, 6, 0, 0]} />
+                    <Line yAxisId="arrivals" type="monotone" dataKey="arrivals" name={t('staffing.arrivals')} stroke="#3b82f6" strokeWidth={3} dot={false} />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </div>
+
+          {/* Service-level compliance */}
+          <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+            <div>
+              <h3 className="text-xl font-bold">{t('compliance.title')}</h3>
+              <p className="text-slate-500 text-sm">{t('compliance.hint', { percent: slaTargetPercent })}</p>
+            </div>
+            <div className="h-[260px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={stats.slaDaily}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                  <YAxis domain={[0, 100]} unit="%" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                  <Tooltip 
+                    formatter={(value: number) => `${value}%`}
+                    contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                  />
+                  <Legend />
+                  <ReferenceLine y={slaTargetPercent} stroke="#ef4444" strokeDasharray="4 4" />
+                  <Line type="monotone" dataKey="wait" name={t('compliance.wait')} stroke="#3b82f6" strokeWidth={3} dot={false} connectNulls />
+                  <Line type="monotone" dataKey="service" name={t('compliance.service')} stroke="#10b981" strokeWidth={3} dot={false} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-widest">
+                  <th className="py-2">{t('supervisor.service')}</th>
+                  <th className="py-2 text-right">{t('compliance.targets')}</th>
+                  <th className="py-2 text-right">{t('compliance.wait')}</th>
+                  <th className="py-2 text-right">{t('compliance.service')}</th>
+                  <th className="py-2 text-right">{t('compliance.measured')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {stats.slaByCategory.map(row => (
+                  <tr key={row.category.id}>
+                    <td className="py-3 font-bold text-slate-800">
+                      <span className="inline-block w-3 h-3 rounded-full mr-2" style={{ backgroundColor: row.category.color }} />
+                      {row.category.name}
+                    </td>
+                    <td className="py-3 text-right text-slate-400">{row.category.maxWaitMinutes} / {t('sla.minutes', { minutes: row.category.maxServiceMinutes })}</td>
+                    {[row.wait, row.service].map((value, i) => (
+                      <td key={i} className={`py-3 text-right font-bold ${value === undefined ? 'text-slate-300' : value >= slaTargetPercent ? 'text-green-600' : 'text-red-600'}`}>
+                        {value === undefined ? '—' : `${value}%`}
+                      </td>
+                    ))}
+                    <td className="py-3 text-right">{row.measured}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Weekday x hour heatmap */}
+          <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <h3 className="text-xl font-bold">{t('heatmap.title')}</h3>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setHeatmapMetric('arrivals')}
+                  className={`px-3 py-2 rounded-xl text-xs font-bold border ${heatmapMetric === 'arrivals' ? 'bg-blue-600 text-white border-blue-600' : 'bg-slate-50 text-slate-500 border-slate-200'}`}
+                >
+                  {t('heatmap.arrivals')}
+                </button>
+                <button
+                  onClick={() => setHeatmapMetric('wait')}
+                  className={`px-3 py-2 rounded-xl text-xs font-bold border ${heatmapMetric === 'wait' ? 'bg-blue-600 text-white border-blue-600' : 'bg-slate-50 text-slate-500 border-slate-200'}`}
+                >
+                  {t('heatmap.wait')}
+                </button>
+              </div>
+            </div>
+            <Heatmap t={t} cells={stats.heatmap} metric={heatmapMetric} />
+          </div>
+
+          {/* Per-advisor performance */}
+          <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+            <h3 className="text-xl font-bold">{t('byAdvisor.title')}</h3>
+            {stats.byUser.length === 0 ? (
+              <p className="text-slate-400 text-sm">{t('byAdvisor.none')}</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    <th className="py-2">{t('byAdvisor.advisor')}</th>
+                    <th className="py-2 text-right">{t('byAdvisor.served')}</th>
+                    <th className="py-2 text-right">{t('byAdvisor.avgService')}</th>
+                    <th className="py-2 text-right">{t('byAdvisor.noShows')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {stats.byUser.map(row => (
+                    <tr key={row.userId}>
+                      <td className="py-3 font-bold text-slate-800">{row.name}</td>
+                      <td className="py-3 text-right">{row.served}</td>
+                      <td className="py-3 text-right">{t('sla.minutes', { minutes: row.avgService })}</td>
+                      <td className="py-3 text-right">{row.noShows}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <SatisfactionPanel
+            t={t}
+            tickets={stats.filtered}
+            responses={surveyResponses}
+            categories={categories}
+            counters={counters}
+            from={filters.from}
+            to={filters.to}
+          />
+
+          {/* Time away from the counters */}
+          <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+            <h3 className="text-xl font-bold">{t('breaks.title')}</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {Object.entries(BREAK_REASON_LABEL_KEYS).map(([reason, label]) => {
+                const totals = stats.breaks.byReason[reason as BreakReason];
+                return (
+                  <div key={reason} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                    <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t(label)}</p>
+                    <p className="text-2xl font-black text-slate-800">{t('sla.minutes', { minutes: totals.minutes })}</p>
+                    <p className="text-xs text-slate-400">{t('breaks.count', { count: totals.count })}</p>
+                  </div>
+                );
+              })}
+            </div>
+            {stats.breaks.byUser.length > 0 && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    <th className="py-2">{t('byAdvisor.advisor')}</th>
+                    <th className="py-2 text-right">{t('breaks.title')}</th>
+                    <th className="py-2 text-right">{t('breaks.timeAway')}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {stats.breaks.byUser.map(row => (
+                    <tr key={row.userId ?? ''}>
+                      <td className="py-3 font-bold text-slate-800">{row.name}</td>
+                      <td className="py-3 text-right">{row.count}</td>
+                      <td className="py-3 text-right">{t('sla.minutes', { minutes: row.minutes })}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          {/* Booked customers, kept apart from walk-in figures */}
+          <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+            <div className="flex items-center justify-between">
+              <h3 className="text-xl font-bold">{t('appointments.title')}</h3>
+              <span className="text-sm text-slate-400">{t('appointmentStats.total', { count: stats.appointments.total })}</span>
+            </div>
+            <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+              {(['checked-in', 'late', 'missed', 'cancelled', 'booked'] as AppointmentStatus[]).map(status => (
+                <div key={status} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                  <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t(APPOINTMENT_STATUS_LABEL_KEYS[status])}</p>
+                  <p className="text-2xl font-black text-slate-800">{stats.appointments.byStatus[status]}</p>
+                  {status === 'late' && <p className="text-xs text-amber-600 font-bold">{t('appointmentStats.rate', { percent: stats.appointments.lateRate })}</p>}
+                  {status === 'missed' && <p className="text-xs text-red-500 font-bold">{t('appointmentStats.rate', { percent: stats.appointments.missedRate })}</p>}
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </motion.div>
+  );
+}
+
+// Survey answers for the filtered tickets: overall CSAT, its trend, and how it moves with the wait.
+function SatisfactionPanel({ t, tickets, responses, categories, counters, from, to }: {
+  t: Translate,
+  tickets: Ticket[],
+  responses: SurveyResponse[],
+  categories: Category[],
+  counters: Counter[],
+  from: number,
+  to: number
+}) {
+  const csat = useMemo(() => {
+    const ticketIds = new Set(tickets.map(ticket => ticket.id));
+    const answered = responses.filter(r => ticketIds.has(r.ticketId));
+    const completed = tickets.filter(ticket => ticket.status === 'completed').length;
+    return {
+      summary: csatSummary(answered),
+      responseRate: completed ? Math.round((answered.length / completed) * 100) : undefined,
+      daily: dailyCsat(answered, from, to),
+      byWait: csatByWait(answered, tickets),
+      correlation: waitRatingCorrelation(answered, tickets),
+      byCategory: csatByCategory(answered, categories).filter(row => row.responses > 0),
+      byCounter: csatByCounter(answered, counters).filter(row => row.responses > 0),
+      reasons: reasonCounts(answered),
+    };
+  }, [tickets, responses, categories, counters, from, to]);
+
+  const { summary } = csat;
+  const rows = [
+    { title: t('supervisor.service'), items: csat.byCategory.map(row => ({ id: row.category.id, name: row.category.name, ...row })) },
+    { title: t('common.counter'), items: csat.byCounter.map(row => ({ id: String(row.counter.id), name: row.counter.name, ...row })) },
+  ];
+
+  return (
+    <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <div>
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Star className="text-amber-400" />
+          {t('csat.title')}
+        </h3>
+        <p className="text-slate-500 text-sm">{t('csat.hint')}</p>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {[
+          { label: t('csat.responses'), value: summary.responses },
+          { label: t('csat.average'), value: summary.average === undefined ? '—' : `${summary.average} ★` },
+          { label: 'CSAT', value: summary.csat === undefined ? '—' : `${summary.csat}%` },
+          { label: t('csat.responseRate'), value: csat.responseRate === undefined ? '—' : `${csat.responseRate}%` },
+        ].map(card => (
+          <div key={card.label} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+            <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{card.label}</p>
+            <p className="text-2xl font-black text-slate-800">{card.value}</p>
+          </div>
+        ))}
+      </div>
+      {summary.responses === 0 ? (
+        <p className="text-slate-400 text-sm">{t('csat.none')}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <div className="h-[240px] w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={csat.daily}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                  <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                  <YAxis domain={[0, 100]} unit="%" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                  <Tooltip
+                    formatter={(value: number) => `${value}%`}
+                    contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                  />
+                  <Line type="monotone" dataKey="csat" name={t('csat.daily')} stroke="#f59e0b" strokeWidth={3} dot={false} connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="space-y-2">
+              <div className="h-[210px] w-full">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={csat.byWait}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                    <XAxis dataKey="band" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                    <YAxis domain={[0, 100]} unit="%" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+                    <Tooltip
+                      formatter={(value: number) => `${value}%`}
+                      contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }}
+                    />
+                    <Bar dataKey="csat" name={t('csat.byWait')} fill="#3b82f6" radius={[8, 8, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-xs text-slate-400">
+                {csat.correlation === undefined
+                  ? t('csat.notEnough')
+                  : t('csat.correlation', { value: csat.correlation, meaning: csat.correlation <= -0.3 ? t('csat.waitHurts') : t('csat.waitUnrelated') })}
+              </p>
+            </div>
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {rows.map(table => (
+              <table key={table.title} className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-widest">
+                    <th className="py-2">{table.title}</th>
+                    <th className="py-2 text-right">{t('csat.responses')}</th>
+                    <th className="py-2 text-right">{t('csat.average')}</th>
+                    <th className="py-2 text-right">CSAT</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {table.items.map(row => (
+                    <tr key={row.id}>
+                      <td className="py-3 font-bold text-slate-800">{row.name}</td>
+                      <td className="py-3 text-right">{row.responses}</td>
+                      <td className="py-3 text-right">{row.average} ★</td>
+                      <td className="py-3 text-right">{row.csat}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ))}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-widest">
+                  <th className="py-2">{t('csat.reason')}</th>
+                  <th className="py-2 text-right">{t('csat.mentions')}</th>
+                  <th className="py-2 text-right">{t('csat.average')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {csat.reasons.map(row => (
+                  <tr key={row.reason}>
+                    <td className="py-3 font-bold text-slate-800">{t(SURVEY_REASON_KEYS[row.reason])}</td>
+                    <td className="py-3 text-right">{row.responses}</td>
+                    <td className="py-3 text-right">{row.average === undefined ? '—' : `${row.average} ★`}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Trends, anomalies and staffing suggestions for the selection, written by the server's insights provider.
+function InsightsPanel({ t, input, empty }: { t: Translate, input: () => InsightsInput, empty: boolean, key?: React.Key }) {
+  const [insights, setInsights] = useState<Insights | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const generate = () => {
+    setLoading(true);
+    api.generateInsights(input())
+      .then(setInsights, (err: Error) => alert(err.message))
+      .finally(() => setLoading(false));
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-bold flex items-center gap-2">
+            <Sparkles className="text-purple-500" />
+            {t('insights.title')}
+          </h3>
+          <p className="text-slate-500 text-sm">{t('insights.hint')}</p>
+        </div>
+        <button
+          onClick={generate}
+          disabled={loading || empty}
+          className="px-4 py-2 rounded-xl bg-slate-900 text-white text-sm font-bold disabled:opacity-40"
+        >
+          {loading ? t('insights.loading') : insights ? t('insights.regenerate') : t('insights.generate')}
+        </button>
+      </div>
+      {empty && !insights && <p className="text-slate-400 text-sm">{t('insights.empty')}</p>}
+      {insights && (
+        <>
+          <div className="space-y-1 text-sm text-slate-700">
+            {insights.text.split('\n').map((line, i) => (
+              line.startsWith('- ')
+                ? <p key={i} className="pl-4">• {line.slice(2)}</p>
+                : <p key={i} className={line.endsWith(':') ? 'pt-2 font-bold text-slate-900' : ''}>{line}</p>
+            ))}
+          </div>
+          <p className="text-xs text-slate-400">
+            {insights.provider === 'mock' ? t('insights.local') : t('insights.generatedWith', { provider: insights.provider === 'gemini' ? 'Gemini' : insights.provider })} · {format(insights.generatedAt, 'dd/MM HH:mm')}. {t('insights.checkFigures')}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Head-office comparison: one bar group and one table row per branch.
+function BranchComparisonPanel({ t, rows, slaTargetPercent }: { t: Translate, rows: BranchComparison[], slaTargetPercent: number }) {
+  const chart = rows.map(row => ({ name: row.branch.name, tme: row.kpis.tme, tma: row.kpis.tma }));
+
+  return (
+    <div className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <div>
+        <h3 className="text-xl font-bold">{t('comparison.title')}</h3>
+        <p className="text-slate-500 text-sm">{t('comparison.hint', { percent: slaTargetPercent })}</p>
+      </div>
+      <div className="h-[300px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={chart}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+            <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} />
+            <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 12, fill: '#94a3b8' }} unit=" min" />
+            <Tooltip contentStyle={{ borderRadius: '16px', border: 'none', boxShadow: '0 10px 15px -3px rgb(0 0 0 / 0.1)' }} />
+            <Legend />
+            <Bar dataKey="tme" name={t('kpi.tme')} fill="#3b82f6" radius={[6, 6, 0, 0]} />
+            <Bar dataKey="tma" name={t('kpi.tma')} fill="#10b981" radius={[6, 6, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-widest border-b border-slate-100">
+            <th className="py-3">{t('app.branch')}</th>
+            <th className="py-3 text-right">{t('supervisor.counters')}</th>
+            <th className="py-3 text-right">{t('analytics.tickets')}</th>
+            <th className="py-3 text-right">{t('compliance.wait')}</th>
+            <th className="py-3 text-right">{t('compliance.service')}</th>
+            <th className="py-3 text-right">{t('comparison.abandonment')}</th>
+            <th className="py-3 text-right">{t('comparison.withinWait')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.branch.id} className="border-b border-slate-50">
+              <td className="py-3 font-bold text-slate-800">{row.branch.name}</td>
+              <td className="py-3 text-right">{row.counters}</td>
+              <td className="py-3 text-right">{row.kpis.total.toLocaleString()}</td>
+              <td className="py-3 text-right">{t('sla.minutes', { minutes: row.kpis.tme })}</td>
+              <td className="py-3 text-right">{t('sla.minutes', { minutes: row.kpis.tma })}</td>
+              <td className="py-3 text-right">{row.kpis.abandonmentRate}%</td>
+              <td className={`py-3 text-right font-bold ${row.sla.wait === undefined ? 'text-slate-300' : row.sla.wait >= slaTargetPercent ? 'text-green-600' : 'text-red-600'}`}>
+                {row.sla.wait === undefined ? '—' : `${row.sla.wait}%`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function Heatmap({ t, cells, metric }: { t: Translate, cells: HeatmapCell[], metric: 'arrivals' | 'wait' }) {
+  const valueOf = (cell: HeatmapCell) => (metric === 'arrivals' ? cell.arrivals : cell.avgWait ?? 0);
+  const active = cells.filter(c => c.arrivals > 0);
+  // Only show the hours the branch actually sees traffic
+  const firstHour = active.length ? Math.min(...active.map(c => c.hour)) : 8;
+  const lastHour = active.length ? Math.max(...active.map(c => c.hour)) : 18;
+  const hours = Array.from({ length: lastHour - firstHour + 1 }, (_, i) => firstHour + i);
+  const max = Math.max(...cells.map(valueOf), 1);
+  const color = metric === 'arrivals' ? '59, 130, 246' : '239, 68, 68';
+
+  return (
+    <div className="overflow-x-auto">
+      <div className="inline-grid gap-1" style={{ gridTemplateColumns: `3rem repeat(${hours.length}, minmax(2.5rem, 1fr))` }}>
+        <div />
+        {hours.map(h => (
+          <div key={h} className="text-[10px] font-bold text-slate-400 text-center">{String(h).padStart(2, '0')}h</div>
+        ))}
+        {WEEKDAY_SHORT_KEYS.map(key => t(key)).map((label, day) => (
+          <React.Fragment key={label}>
+            <div className="text-xs font-bold text-slate-500 flex items-center">{label}</div>
+            {hours.map(hour => {
+              const cell = cells.find(c => c.day === day && c.hour === hour)!;
+              const value = valueOf(cell);
+              return (
+                <div
+                  key={hour}
+                  title={t('heatmap.cell', { day: label, hour, arrivals: cell.arrivals.toFixed(1), wait: cell.avgWait ?? '-' })}
+                  className="h-10 rounded-lg flex items-center justify-center text-[10px] font-bold"
+                  style={{
+                    backgroundColor: `rgba(${color}, ${value ? 0.1 + 0.9 * (value / max) : 0.03})`,
+                    color: value / max > 0.5 ? 'white' : '#475569',
+                  }}
+                >
+                  {value ? (metric === 'arrivals' ? value.toFixed(1) : Math.round(value)) : ''}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function BranchesPanel({ t, branches, categories, counters, activeBranchId, onAdd, onRename, onRemove, onCopyCategories }: {
+  t: Translate,
+  branches: Branch[],
+  categories: Category[],
+  counters: Counter[],
+  activeBranchId: string,
+  onAdd: (name: string, templateBranchId?: string) => void,
+  onRename: (id: string, name: string) => void,
+  onRemove: (id: string) => void,
+  onCopyCategories: (fromBranchId: string, toBranchId: string) => void,
+}) {
+  const [newName, setNewName] = useState('');
+  const [templateId, setTemplateId] = useState(activeBranchId);
+  const field = 'px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+  const nameOf = (id: string) => branches.find(b => b.id === id)?.name ?? '';
+
+  const add = () => {
+    if (!newName.trim()) return;
+    onAdd(newName.trim(), templateId || undefined);
+    setNewName('');
+  };
+
+  const rename = (branch: Branch, name: string) => {
+    if (name.trim() && name.trim() !== branch.name) onRename(branch.id, name.trim());
+  };
+
+  const copyFrom = (fromBranchId: string) => {
+    if (fromBranchId && confirm(t('branches.confirmCopy', { from: nameOf(fromBranchId), to: nameOf(activeBranchId) }))) {
+      onCopyCategories(fromBranchId, activeBranchId);
+    }
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <h3 className="text-xl font-bold flex items-center gap-2">
+        <Building2 className="text-blue-500" />
+        {t('branches.title')}
+      </h3>
+      <p className="text-slate-500 text-sm">{t('branches.hint', { name: nameOf(activeBranchId) })}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <input placeholder={t('branches.namePlaceholder')} className={`sm:col-span-2 ${field}`} value={newName} onChange={e => setNewName(e.target.value)} />
+        <select className={field} value={templateId} onChange={e => setTemplateId(e.target.value)}>
+          <option value="">{t('branches.noCategories')}</option>
+          {branches.map(b => <option key={b.id} value={b.id}>{t('branches.categoriesOf', { name: b.name })}</option>)}
+        </select>
+        <button
+          onClick={add}
+          className="bg-blue-600 text-white font-bold py-3 rounded-xl hover:bg-blue-700 transition-all flex items-center justify-center gap-2"
+        >
+          <Plus size={20} />
+          {t('common.add')}
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {branches.map(branch => {
+          const categoryCount = categories.filter(c => c.branchId === branch.id).length;
+          const counterCount = counters.filter(c => c.branchId === branch.id).length;
+          return (
+            <div key={branch.id} className={`flex flex-wrap items-center justify-between gap-4 p-4 rounded-2xl border ${branch.id === activeBranchId ? 'bg-blue-50 border-blue-100' : 'bg-slate-50 border-slate-100'}`}>
+              <input
+                key={branch.name}
+                defaultValue={branch.name}
+                onBlur={e => rename(branch, e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && e.currentTarget.blur()}
+                className="font-bold text-slate-800 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-blue-500 outline-none"
+              />
+              <div className="flex items-center gap-4">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">{t('branches.counts', { categories: categoryCount, counters: counterCount })}</span>
+                <button
+                  onClick={() => confirm(t('admin.confirmRemove', { name: branch.name })) && onRemove(branch.id)}
+                  disabled={categoryCount > 0 || counterCount > 0 || branches.length === 1}
+                  title={categoryCount > 0 || counterCount > 0 ? t('branches.removeFirst') : undefined}
+                  className="text-slate-300 hover:text-red-500 disabled:opacity-40 disabled:hover:text-slate-300 transition-colors"
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {branches.length > 1 && (
+        <label className="flex flex-wrap items-center gap-3 text-sm text-slate-500">
+          {t('branches.copyInto', { name: nameOf(activeBranchId) })}
+          <select className="px-3 py-2 rounded-xl border border-slate-200 outline-none bg-white text-sm" value="" onChange={e => copyFrom(e.target.value)}>
+            <option value="">{t('branches.pick')}</option>
+            {branches.filter(b => b.id !== activeBranchId).map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+          </select>
+        </label>
+      )}
+    </section>
+  );
+}
+
+function UsersPanel({ t, users, branches, currentUserId, onCreate, onUpdate }: {
+  t: Translate,
+  users: User[],
+  branches: Branch[],
+  currentUserId: string,
+  onCreate: (user: { username: string; name: string; role: Role; password: string; branchId: string | null }) => void,
+  onUpdate: (id: string, changes: Partial<Pick<User, 'name' | 'role' | 'active'>> & { password?: string; branchId?: string | null }) => void,
+}) {
+  const [newUser, setNewUser] = useState({ username: '', name: '', role: 'advisor' as Role, password: '', branchId: branches[0]?.id ?? '' });
+  const field = 'px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+
+  const create = () => {
+    if (!newUser.username || !newUser.name || !newUser.password) return;
+    onCreate({ ...newUser, branchId: newUser.branchId || null });
+    setNewUser({ ...newUser, username: '', name: '', password: '' });
+  };
+
+  // Empty value: not bound to a branch, only for admins and supervisors
+  const branchOptions = (
+    <>
+      <option value="">{t('users.allBranches')}</option>
+      {branches.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+    </>
+  );
+
+  const resetPassword = (user: User) => {
+    const password = prompt(t('users.newPassword', { name: user.name }));
+    if (password) onUpdate(user.id, { password });
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <h3 className="text-xl font-bold flex items-center gap-2">
+        <UserRound className="text-blue-500" />
+        {t('users.title')}
+      </h3>
+      <p className="text-slate-500 text-sm">{t('users.hint')}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-6 gap-3">
+        <input placeholder={t('login.username')} className={field} value={newUser.username} onChange={e => setNewUser({ ...newUser, username: e.target.value })} />
+        <input placeholder={t('users.name')} className={field} value={newUser.name} onChange={e => setNewUser({ ...newUser, name: e.target.value })} />
+        <select className={field} value={newUser.role} onChange={e => setNewUser({ ...newUser, role: e.target.value as Role })}>
+          {Object.entries(ROLE_LABEL_KEYS).map(([role, label]) => <option key={role} value={role}>{t(label)}</option>)}
+        </select>
+        <select className={field} value={newUser.branchId} onChange={e => setNewUser({ ...newUser, branchId: e.target.value })}>
+          {branchOptions}
+        </select>
+        <input type="password" placeholder={t('login.password')} className={field} value={newUser.password} onChange={e => setNewUser({ ...newUser, password: e.target.value })} />
+        <button onClick={create} className="bg-slate-900 text-white rounded-xl font-bold flex items-center justify-center gap-2 py-3 hover:bg-slate-800 transition-all">
+          <Plus size={20} />
+          {t('users.create')}
+        </button>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {users.map(user => (
+          <div key={user.id} className={`flex flex-wrap items-center gap-4 py-3 ${user.active ? '' : 'opacity-50'}`}>
+            <div className="flex-1 min-w-[10rem]">
+              <p className="font-bold text-slate-800">{user.name}{user.id === currentUserId && <span className="text-slate-400 font-medium"> {t('users.you')}</span>}</p>
+              <p className="text-xs text-slate-400">{user.username}</p>
+            </div>
+            <select
+              className="px-3 py-2 rounded-xl border border-slate-200 outline-none bg-white text-sm"
+              value={user.role}
+              onChange={e => onUpdate(user.id, { role: e.target.value as Role })}
+            >
+              {Object.entries(ROLE_LABEL_KEYS).map(([role, label]) => <option key={role} value={role}>{t(label)}</option>)}
+            </select>
+            <select
+              className="px-3 py-2 rounded-xl border border-slate-200 outline-none bg-white text-sm"
+              value={user.branchId ?? ''}
+              onChange={e => onUpdate(user.id, { branchId: e.target.value || null })}
+            >
+              {branchOptions}
+            </select>
+            <button onClick={() => resetPassword(user)} className="text-sm font-medium text-slate-500 hover:text-slate-800">
+              {t('users.changePassword')}
+            </button>
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-500">
+              <input
+                type="checkbox"
+                checked={user.active}
+                disabled={user.id === currentUserId}
+                onChange={e => onUpdate(user.id, { active: e.target.checked })}
+              />
+              {t('users.active')}
+            </label>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
+
+function ExportImportPanel({ t, state, onRestoreConfig }: { t: Translate, state: AppState, onRestoreConfig: (backup: ConfigBackup) => void }) {
+  const [filters, setFilters] = useState({ from: '', to: '', categoryId: '' });
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const exportTickets = (type: 'csv' | 'json') => {
+    const tickets = filterTicketsForExport(state.tickets, {
+      from: filters.from ? startOfDay(parseISO(filters.from)).getTime() : undefined,
+      to: filters.to ? addDays(startOfDay(parseISO(filters.to)), 1).getTime() : undefined,
+      categoryId: filters.categoryId || undefined,
+    });
+    const rows = ticketExportRows(tickets, state.categories, state.counters, state.branches);
+    const name = `turnos-${format(new Date(), 'yyyyMMdd-HHmm')}`;
+    if (type === 'csv') downloadFile(`${name}.csv`, toCsv(rows), 'text/csv');
+    else downloadFile(`${name}.json`, JSON.stringify(rows, null, 2), 'application/json');
+  };
+
+  const exportConfig = () => {
+    const backup: ConfigBackup = {
+      version: CONFIG_BACKUP_VERSION,
+      exportedAt: Date.now(),
+      branches: state.branches,
+      categories: state.categories,
+      counters: state.counters.map(({ id, branchId, name, categoryIds }) => ({ id, branchId, name, categoryIds })),
+      nextTicketNumber: state.nextTicketNumber,
+      settings: state.settings,
+      displayProfiles: state.displayProfiles,
+    };
+    downloadFile(`configuracion-${format(new Date(), 'yyyyMMdd-HHmm')}.json`, JSON.stringify(backup, null, 2), 'application/json');
+  };
+
+  const importConfig = async (file: File) => {
+    try {
+      const backup = validateConfigBackup(JSON.parse(await file.text()));
+      if (confirm(t('backup.confirmRestore', { categories: backup.categories.length, counters: backup.counters.length }))) {
+        onRestoreConfig(backup);
+      }
+    } catch (err) {
+      alert(err instanceof SyntaxError ? t('backup.invalidJson') : (err as Error).message);
+    }
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <h3 className="text-xl font-bold flex items-center gap-2">
+        <ArrowRight className="text-green-500" />
+        {t('backup.title')}
+      </h3>
+      <p className="text-slate-500 text-sm">{t('backup.hint')}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <label className="space-y-2 text-sm font-medium text-slate-500">
+          <span>{t('backup.from')}</span>
+          <input
+            type="date"
+            className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+            value={filters.from}
+            onChange={e => setFilters({ ...filters, from: e.target.value })}
+          />
+        </label>
+        <label className="space-y-2 text-sm font-medium text-slate-500">
+          <span>{t('backup.to')}</span>
+          <input
+            type="date"
+            className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+            value={filters.to}
+            onChange={e => setFilters({ ...filters, to: e.target.value })}
+          />
+        </label>
+        <label className="space-y-2 text-sm font-medium text-slate-500">
+          <span>{t('supervisor.service')}</span>
+          <select
+            className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+            value={filters.categoryId}
+            onChange={e => setFilters({ ...filters, categoryId: e.target.value })}
+          >
+            <option value="">{t('common.all')}</option>
+            {state.categories.map(c => (
+              <option key={c.id} value={c.id}>
+                {state.branches.length > 1 ? `${state.branches.find(b => b.id === c.branchId)?.name} · ${c.name}` : c.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        <button
+          onClick={() => exportTickets('csv')}
+          className="px-6 py-3 bg-green-50 text-green-700 border border-green-100 rounded-xl font-bold hover:bg-green-100 transition-all"
+        >
+          {t('backup.exportCsv')}
+        </button>
+        <button
+          onClick={() => exportTickets('json')}
+          className="px-6 py-3 bg-green-50 text-green-700 border border-green-100 rounded-xl font-bold hover:bg-green-100 transition-all"
+        >
+          {t('backup.exportJson')}
+        </button>
+        <button
+          onClick={exportConfig}
+          className="px-6 py-3 bg-slate-50 text-slate-700 border border-slate-200 rounded-xl font-bold hover:bg-slate-100 transition-all"
+        >
+          {t('backup.exportConfig')}
+        </button>
+        <button
+          onClick={() => fileInput.current?.click()}
+          className="px-6 py-3 bg-slate-50 text-slate-700 border border-slate-200 rounded-xl font-bold hover:bg-slate-100 transition-all"
+        >
+          {t('backup.restoreConfig')}
+        </button>
+        <a
+          href="/api/database/backup"
+          download
+          className="px-6 py-3 bg-slate-50 text-slate-700 border border-slate-200 rounded-xl font-bold hover:bg-slate-100 transition-all"
+        >
+          {t('backup.downloadDatabase')}
+        </a>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) importConfig(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+    </section>
+  );
+}
+
+function SimulatorPanel({ t, branchId, schedule, counterCount, onGenerate }: {
+  t: Translate,
+  branchId: string,
+  schedule: ScheduleSettings,
+  counterCount: number,
+  onGenerate: (params: SimulationParams) => void,
+}) {
+  const [params, setParams] = useState(DEFAULT_SIMULATION_PARAMS);
+  const [extraCounters, setExtraCounters] = useState(1);
+  const [comparison, setComparison] = useState<SimulationComparison | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Only the hours the branch is open on some day take arrivals
+  const openDays = schedule.week.filter(h => h !== null);
+  const firstHour = openDays.length ? Math.min(...openDays.map(h => Number(h!.open.slice(0, 2)))) : 8;
+  const lastHour = openDays.length ? Math.max(...openDays.map(h => Number(h!.close.slice(0, 2)) - (h!.close.endsWith(':00') ? 1 : 0))) : 17;
+  const hours = Array.from({ length: Math.max(lastHour - firstHour + 1, 0) }, (_, i) => firstHour + i);
+
+  const setRate = (hour: number, rate: number) =>
+    setParams({ ...params, hourlyArrivals: params.hourlyArrivals.map((r, h) => (h === hour ? rate : r)) });
+
+  const runScenario = () => {
+    setRunning(true);
+    api.runSimulation(branchId, { ...params, extraCounters })
+      .then(setComparison, (err: Error) => alert(err.message))
+      .finally(() => setRunning(false));
+  };
+
+  const generate = () => {
+    if (confirm(t('simulator.confirmGenerate', { days: params.days }))) onGenerate(params);
+  };
+
+  const numberField = 'w-20 px-3 py-2 rounded-xl border border-slate-200 outline-none';
+  const rows: { label: string, value: (s: SimulationSummary) => string }[] = [
+    { label: t('supervisor.counters'), value: s => String(s.counters) },
+    { label: t('simulator.averageWait'), value: s => t('sla.minutes', { minutes: s.kpis.tme }) },
+    { label: t('simulator.calledInTarget'), value: s => (s.sla.wait !== undefined ? `${s.sla.wait}%` : '—') },
+    { label: t('simulator.expired'), value: s => s.expired.toLocaleString() },
+    { label: t('simulator.utilization'), value: s => `${s.utilization}%` },
+  ];
+
+  return (
+    <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <h3 className="text-xl font-bold flex items-center gap-2">
+        <Activity className="text-purple-500" />
+        {t('simulator.title')}
+      </h3>
+      <p className="text-slate-500 text-sm">{t('simulator.hint')}</p>
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-slate-500">{t('simulator.hourlyArrivals')}</p>
+        <div className="flex flex-wrap gap-2">
+          {hours.map(hour => (
+            <label key={hour} className="flex flex-col items-center gap-1 text-xs font-bold text-slate-400">
+              {String(hour).padStart(2, '0')}h
+              <input type="number" min={0} className="w-16 px-2 py-2 rounded-xl border border-slate-200 outline-none text-center" value={params.hourlyArrivals[hour]} onChange={e => setRate(hour, Number(e.target.value))} />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-6 text-sm font-medium text-slate-500">
+        <label className="flex items-center gap-2">
+          <input type="number" step={0.1} min={0} className={numberField} value={params.weekendFactor} onChange={e => setParams({ ...params, weekendFactor: Number(e.target.value) })} />
+          {t('simulator.weekendFactor')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="number" min={1} className={numberField} value={params.serviceMinutes} onChange={e => setParams({ ...params, serviceMinutes: Number(e.target.value) })} />
+          {t('simulator.serviceMinutes')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="number" min={0} max={100} className={numberField} value={Math.round(params.noShowRate * 100)} onChange={e => setParams({ ...params, noShowRate: Number(e.target.value) / 100 })} />
+          {t('simulator.noShowRate')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="number" min={1} max={366} className={numberField} value={params.days} onChange={e => setParams({ ...params, days: Number(e.target.value) })} />
+          {t('simulator.days')}
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="number" className={numberField} value={params.seed} onChange={e => setParams({ ...params, seed: Number(e.target.value) })} />
+          {t('simulator.seed')}
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button
+          onClick={generate}
+          className="px-6 py-3 bg-purple-50 text-purple-700 border border-purple-100 rounded-xl font-bold hover:bg-purple-100 transition-all flex items-center gap-2"
+        >
+          <Plus size={20} />
+          {t('simulator.generate')}
+        </button>
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-500">
+          <span>{t('simulator.whatIf')}</span>
+          <input type="number" min={0} max={20} className={numberField} value={extraCounters} onChange={e => setExtraCounters(Number(e.target.value))} />
+          <span>{t('simulator.moreCounters', { count: counterCount })}</span>
+        </div>
+        <button
+          onClick={runScenario}
+          disabled={running}
+          className="px-6 py-3 bg-slate-900 text-white rounded-xl font-bold hover:bg-slate-800 transition-all disabled:opacity-40"
+        >
+          {running ? t('simulator.running') : t('simulator.run')}
+        </button>
+      </div>
+
+      {comparison && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs font-bold text-slate-400 uppercase tracking-widest">
+              <th className="py-2">{t('simulator.result')}</th>
+              <th className="py-2 text-right">{t('simulator.baseline')}</th>
+              <th className="py-2 text-right">{t('simulator.scenario')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(row => (
+              <tr key={row.label}>
+                <td className="py-3 font-bold text-slate-800">{row.label}</td>
+                <td className="py-3 text-right">{row.value(comparison.baseline)}</td>
+                <td className="py-3 text-right font-bold">{row.value(comparison.scenario)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+function AnnouncementSettingsPanel({ t, settings, onChange }: { t: Translate, settings: AnnouncementSettings, onChange: (settings: AnnouncementSettings) => void }) {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (typeof speechSynthesis === 'undefined') return;
+    const load = () => setVoices(speechSynthesis.getVoices());
+    load();
+    speechSynthesis.addEventListener('voiceschanged', load);
+    return () => speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+
+  const languageVoices = voices.filter(v => v.lang.toLowerCase().startsWith(settings.lang.slice(0, 2).toLowerCase()));
+
+  const testAnnouncement = () => {
+    const announcer = new Announcer({ ...settings, enabled: true });
+    announcer.unlock().then(() => announcer.announce(LOCALES.map(code => announcementText('G012', undefined, 3, code))));
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Volume2 className="text-blue-500" />
+          {t('announcements.title')}
+        </h3>
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-500">
+          <input type="checkbox" checked={settings.enabled} onChange={e => onChange({ ...settings, enabled: e.target.checked })} />
+          {t('announcements.enabled')}
+        </label>
+      </div>
+      <p className="text-slate-500 text-sm">{t('announcements.hint')}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className="space-y-2 text-sm font-medium text-slate-500">
+          <span>{t('common.language')}</span>
+          <select
+            className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+            value={settings.lang}
+            onChange={e => onChange({ ...settings, lang: e.target.value, voiceURI: '' })}
+          >
+            <option value="es-ES">Español (España)</option>
+            <option value="es-MX">Español (México)</option>
+            <option value="es-US">Español (EE. UU.)</option>
+            <option value="en-US">English (US)</option>
+          </select>
+        </label>
+        <label className="space-y-2 text-sm font-medium text-slate-500">
+          <span>{t('announcements.voice')}</span>
+          <select
+            className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+            value={settings.voiceURI}
+            onChange={e => onChange({ ...settings, voiceURI: e.target.value })}
+          >
+            <option value="">{t('announcements.defaultVoice')}</option>
+            {languageVoices.map(v => (
+              <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-2 text-sm font-medium text-slate-500">
+          <span>{t('announcements.volume', { percent: Math.round(settings.volume * 100) })}</span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.1}
+            className="w-full"
+            value={settings.volume}
+            onChange={e => onChange({ ...settings, volume: Number(e.target.value) })}
+          />
+        </label>
+        <label className="space-y-2 text-sm font-medium text-slate-500">
+          <span>{t('announcements.repeat')}</span>
+          <select
+            className="w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white"
+            value={settings.repeat}
+            onChange={e => onChange({ ...settings, repeat: Number(e.target.value) })}
+          >
+            {[1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-500">
+          <input type="checkbox" checked={settings.chime} onChange={e => onChange({ ...settings, chime: e.target.checked })} />
+          {t('announcements.chime')}
+        </label>
+        <button
+          onClick={testAnnouncement}
+          className="px-6 py-3 bg-blue-50 text-blue-700 border border-blue-100 rounded-xl font-bold hover:bg-blue-100 transition-all flex items-center gap-2"
+        >
+          <Volume2 size={20} />
+          {t('announcements.test')}
+        </button>
+      </div>
+    </section>
+  );
+}
+
+// TV screens of the active branch. Each profile has its own address; a TV signed in as a display user opens it.
+function DisplayProfilesPanel({ t, profiles, categories, counters, branchId, onAdd, onUpdate, onRemove }: {
+  t: Translate,
+  profiles: DisplayProfile[],
+  categories: Category[],
+  counters: Counter[],
+  branchId: string,
+  onAdd: (profile: Omit<DisplayProfile, 'id'>) => void,
+  onUpdate: (id: string, profile: DisplayLayout & Pick<DisplayProfile, 'name'>) => void,
+  onRemove: (id: string) => void,
+}) {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string>();
+  const editing = profiles.find(p => p.id === editingId);
+
+  const add = () => {
+    if (!newName.trim()) return;
+    onAdd({ ...DEFAULT_DISPLAY_PROFILE, branchId, name: newName.trim() });
+    setNewName('');
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <h3 className="text-xl font-bold flex items-center gap-2">
+        <Monitor className="text-blue-500" />
+        {t('displays.title')}
+      </h3>
+      <p className="text-slate-500 text-sm">{t('displays.hint')}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <input
+          placeholder={t('displays.namePlaceholder')}
+          className="sm:col-span-3 px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none"
+          value={newName}
+          onChange={e => setNewName(e.target.value)}
+        />
+        <button
+          onClick={add}
+          className="bg-blue-600 text-white font-bold py-3 rounded-xl hover:bg-blue-700 transition-all flex items-center justify-center gap-2"
+        >
+          <Plus size={20} />
+          {t('common.add')}
+        </button>
+      </div>
+
+      <div className="space-y-3">
+        {profiles.map(profile => {
+          const url = displayProfileUrl(window.location.origin, profile.id);
+          return (
+            <div key={profile.id} className={`flex flex-wrap items-center justify-between gap-4 p-4 rounded-2xl border ${profile.id === editingId ? 'bg-blue-50 border-blue-100' : 'bg-slate-50 border-slate-100'}`}>
+              <div className="min-w-0">
+                <p className="font-bold text-slate-800">{profile.name}</p>
+                <a href={url} target="_blank" rel="noreferrer" className="text-xs text-blue-600 hover:underline break-all">{url}</a>
+              </div>
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={() => setEditingId(profile.id === editingId ? undefined : profile.id)}
+                  className="px-4 py-2 rounded-xl bg-white border border-slate-200 text-sm font-bold text-slate-600 hover:text-blue-600"
+                >
+                  {profile.id === editingId ? t('common.close') : t('common.edit')}
+                </button>
+                <button
+                  onClick={() => confirm(t('displays.confirmRemove', { name: profile.name })) && onRemove(profile.id)}
+                  className="text-slate-300 hover:text-red-500 transition-colors"
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {profiles.length === 0 && <p className="text-sm text-slate-400">{t('displays.none')}</p>}
+      </div>
+
+      {editing && (
+        <DisplayProfileEditor
+          t={t}
+          key={editing.id}
+          profile={editing}
+          categories={categories}
+          counters={counters}
+          onSave={draft => onUpdate(editing.id, draft)}
+        />
+      )}
+    </section>
+  );
+}
+
+function DisplayProfileEditor({ t, profile, categories, counters, onSave }: {
+  t: Translate,
+  profile: DisplayProfile,
+  categories: Category[],
+  counters: Counter[],
+  onSave: (profile: DisplayLayout & Pick<DisplayProfile, 'name'>) => void,
+  key?: React.Key,
+}) {
+  const { id: _id, branchId: _branchId, ...saved } = profile;
+  const [draft, setDraft] = useState(saved);
+  const [mediaText, setMediaText] = useState(saved.mediaUrls.join('\n'));
+
+  // Pick up changes saved from another screen
+  useEffect(() => {
+    setDraft(saved);
+    setMediaText(saved.mediaUrls.join('\n'));
+  }, [JSON.stringify(saved)]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+  const field = 'w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+  const label = 'block space-y-2 text-sm font-medium text-slate-500';
+
+  // An empty list shows everything, like counters that serve every category
+  const toggle = <T,>(list: T[], item: T) => (list.includes(item) ? list.filter(i => i !== item) : [...list, item]);
+
+  const setMessage = (index: number, changes: Partial<TickerMessage>) =>
+    setDraft({ ...draft, tickerMessages: draft.tickerMessages.map((m, i) => (i === index ? { ...m, ...changes } : m)) });
+
+  const chip = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs font-bold border transition-all ${active ? 'text-white border-transparent bg-slate-700' : 'bg-white text-slate-400 border-slate-200'}`;
+
+  return (
+    <div className="space-y-6 p-6 rounded-2xl border border-slate-100 bg-slate-50">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <label className={label}>
+          <span>{t('users.name')}</span>
+          <input className={field} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+        </label>
+        <label className={label}>
+          <span>{t('displays.historyRows')}</span>
+          <input
+            type="number"
+            min={0}
+            max={MAX_HISTORY_ROWS}
+            className={field}
+            value={draft.historyRows}
+            onChange={e => setDraft({ ...draft, historyRows: Number(e.target.value) })}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2 text-sm font-medium text-slate-500">
+        <span>{draft.categoryIds.length === 0 ? t('displays.allCategories') : t('displays.categories')}</span>
+        <div className="flex flex-wrap gap-2">
+          {categories.map(cat => {
+            const active = draft.categoryIds.includes(cat.id);
+            return (
+              <button
+                key={cat.id}
+                onClick={() => setDraft({ ...draft, categoryIds: toggle(draft.categoryIds, cat.id) })}
+                className={chip(active)}
+                style={active ? { backgroundColor: cat.color } : undefined}
+              >
+                {cat.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2 text-sm font-medium text-slate-500">
+        <span>{draft.counterIds.length === 0 ? t('displays.allCounters') : t('supervisor.counters')}</span>
+        <div className="flex flex-wrap gap-2">
+          {counters.map(counter => (
+            <button
+              key={counter.id}
+              onClick={() => setDraft({ ...draft, counterIds: toggle(draft.counterIds, counter.id) })}
+              className={chip(draft.counterIds.includes(counter.id))}
+            >
+              {counter.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3 text-sm font-medium text-slate-500">
+        <span>{t('displays.ticker')}</span>
+        {draft.tickerMessages.map((message, i) => (
+          <div key={i} className="flex flex-wrap items-center gap-2">
+            <input
+              className="flex-1 min-w-[12rem] px-3 py-2 rounded-lg border border-slate-200 outline-none bg-white"
+              value={message.text}
+              onChange={e => setMessage(i, { text: e.target.value })}
+            />
+            <input type="date" className="px-3 py-2 rounded-lg border border-slate-200 bg-white" value={message.from ?? ''} onChange={e => setMessage(i, { from: e.target.value || undefined })} />
+            <span>{t('common.to')}</span>
+            <input type="date" className="px-3 py-2 rounded-lg border border-slate-200 bg-white" value={message.to ?? ''} onChange={e => setMessage(i, { to: e.target.value || undefined })} />
+            <button
+              onClick={() => setDraft({ ...draft, tickerMessages: draft.tickerMessages.filter((_, j) => j !== i) })}
+              className="text-slate-300 hover:text-red-500 transition-colors"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft({ ...draft, tickerMessages: [...draft.tickerMessages, { text: '' }] })}
+          className="flex items-center gap-1 text-blue-600 font-bold"
+        >
+          <Plus size={16} /> {t('displays.addMessage')}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <label className={label}>
+          <span>{t('displays.background')}</span>
+          <input type="color" className="w-full h-12 rounded-xl border border-slate-200 bg-white" value={draft.backgroundColor} onChange={e => setDraft({ ...draft, backgroundColor: e.target.value })} />
+        </label>
+        <label className={label}>
+          <span>{t('displays.accent')}</span>
+          <input type="color" className="w-full h-12 rounded-xl border border-slate-200 bg-white" value={draft.accentColor} onChange={e => setDraft({ ...draft, accentColor: e.target.value })} />
+        </label>
+        <label className={`sm:col-span-2 ${label}`}>
+          <span>{t('displays.logo')}</span>
+          <input className={field} placeholder={t('displays.logoPlaceholder')} value={draft.logoUrl} onChange={e => setDraft({ ...draft, logoUrl: e.target.value })} />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+        <label className={`sm:col-span-3 ${label}`}>
+          <span>{t('displays.media')}</span>
+          <textarea
+            rows={3}
+            className={field}
+            value={mediaText}
+            onChange={e => {
+              setMediaText(e.target.value);
+              setDraft({ ...draft, mediaUrls: e.target.value.split('\n').map(url => url.trim()).filter(Boolean) });
+            }}
+          />
+        </label>
+        <label className={label}>
+          <span>{t('displays.slideSeconds')}</span>
+          <input type="number" min={3} className={field} value={draft.slideSeconds} onChange={e => setDraft({ ...draft, slideSeconds: Number(e.target.value) })} />
+        </label>
+      </div>
+
+      <button
+        disabled={!dirty}
+        onClick={() => onSave(draft)}
+        className="px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all disabled:opacity-40"
+      >
+        {t('common.save')}
+      </button>
+    </div>
+  );
+}
+
+function SchedulePanel({ locale, settings, businessDay, pendingCount, onSave, onClose, onReopen }: {
+  locale: Locale,
+  settings: ScheduleSettings,
+  businessDay: BusinessDay | null,
+  pendingCount: number,
+  onSave: (settings: ScheduleSettings) => void,
+  onClose: () => void,
+  onReopen: () => void,
+}) {
+  const [draft, setDraft] = useState(settings);
+  const [holiday, setHoliday] = useState('');
+  const t = translator(locale);
+
+  useEffect(() => setDraft(settings), [settings]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const today = businessDay?.date === businessDate(Date.now()) ? businessDay : null;
+
+  const setDay = (day: number, hours: ScheduleSettings['week'][number]) =>
+    setDraft({ ...draft, week: draft.week.map((h, i) => (i === day ? hours : h)) });
+
+  const addHoliday = () => {
+    if (!holiday || draft.holidays.includes(holiday)) return;
+    setDraft({ ...draft, holidays: [...draft.holidays, holiday].sort() });
+    setHoliday('');
+  };
+
+  const closeDay = () => {
+    const message = pendingCount > 0 ? t('schedule.confirmCloseExpiring', { count: pendingCount }) : t('schedule.confirmClose');
+    if (confirm(message)) onClose();
+  };
+
+  return (
+    <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Clock className="text-indigo-500" />
+          {t('schedule.title')}
+        </h3>
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-500">
+          <input type="checkbox" checked={draft.enforceHours} onChange={e => setDraft({ ...draft, enforceHours: e.target.checked })} />
+          {t('schedule.enforceHours')}
+        </label>
+      </div>
+      <p className="text-slate-500 text-sm">{t('schedule.hint')}</p>
+
+      <div className="flex flex-wrap items-center justify-between gap-4 p-4 bg-slate-50 rounded-2xl">
+        <div className="text-sm">
+          <p className="font-bold text-slate-800">
+            {today ? (today.closedAt ? t('schedule.closedAt', { time: format(today.closedAt, 'HH:mm') }) : t('schedule.open')) : t('schedule.notStarted')}
+          </p>
+          <p className="text-slate-500">{t('schedule.today', { hours: hoursLabel(hoursOn(settings, Date.now()), locale) })}</p>
+        </div>
+        {today?.closedAt ? (
+          <button onClick={onReopen} className="px-6 py-3 bg-blue-50 text-blue-700 border border-blue-100 rounded-xl font-bold hover:bg-blue-100 transition-all">
+            {t('schedule.reopen')}
+          </button>
+        ) : (
+          <button onClick={closeDay} className="px-6 py-3 bg-red-50 text-red-600 border border-red-100 rounded-xl font-bold hover:bg-red-100 transition-all">
+            {t('schedule.close')}
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-2">
+          {WEEKDAY_KEYS.map((name, day) => {
+            const hours = draft.week[day];
+            return (
+              <div key={name} className="flex items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 w-32 font-medium text-slate-600">
+                  <input type="checkbox" checked={!!hours} onChange={e => setDay(day, e.target.checked ? { open: '08:00', close: '17:00' } : null)} />
+                  {t(name)}
+                </label>
+                {hours ? (
+                  <>
+                    <input type="time" className="px-3 py-2 rounded-xl border border-slate-200 outline-none" value={hours.open} onChange={e => setDay(day, { ...hours, open: e.target.value })} />
+                    <span className="text-slate-400">{t('common.to')}</span>
+                    <input type="time" className="px-3 py-2 rounded-xl border border-slate-200 outline-none" value={hours.close} onChange={e => setDay(day, { ...hours, close: e.target.value })} />
+                  </>
+                ) : (
+                  <span className="text-slate-400">{t('schedule.closed')}</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm font-medium text-slate-500">{t('schedule.holidays')}</p>
+          <div className="flex gap-2">
+            <input type="date" className="flex-1 px-4 py-2 rounded-xl border border-slate-200 outline-none" value={holiday} onChange={e => setHoliday(e.target.value)} />
+            <button onClick={addHoliday} disabled={!holiday} className="px-4 py-2 bg-slate-900 text-white rounded-xl font-bold disabled:opacity-40">
+              <Plus size={18} />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {draft.holidays.length === 0 && <p className="text-sm text-slate-400">{t('schedule.noHolidays')}</p>}
+            {draft.holidays.map(date => (
+              <span key={date} className="flex items-center gap-1 px-3 py-1 bg-slate-100 rounded-full text-sm font-medium text-slate-600">
+                {format(parseISO(date), 'dd/MM/yyyy')}
+                <button onClick={() => setDraft({ ...draft, holidays: draft.holidays.filter(d => d !== date) })} className="text-slate-400 hover:text-red-500">
+                  <Trash2 size={14} />
+                </button>
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <button
+        disabled={!dirty}
+        onClick={() => onSave(draft)}
+        className="px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all disabled:opacity-40"
+      >
+        {t('schedule.save')}
+      </button>
+    </section>
+  );
+}
+
+function AppointmentSettingsPanel({ t, settings, onSave }: { t: Translate, settings: AppointmentSettings, onSave: (settings: AppointmentSettings) => void }) {
+  const [draft, setDraft] = useState(settings);
+
+  useEffect(() => setDraft(settings), [settings]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(settings);
+  const fields: { key: keyof AppointmentSettings, label: string }[] = [
+    { key: 'slotMinutes', label: t('appointmentSettings.slotMinutes') },
+    { key: 'slotCapacity', label: t('appointmentSettings.slotCapacity') },
+    { key: 'earlyCheckInMinutes', label: t('appointmentSettings.earlyCheckIn') },
+    { key: 'lateToleranceMinutes', label: t('appointmentSettings.lateTolerance') },
+    { key: 'missedAfterMinutes', label: t('appointmentSettings.missedAfter') },
+  ];
+
+  return (
+    <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <h3 className="text-xl font-bold flex items-center gap-2">
+        <CalendarDays className="text-blue-500" />
+        {t('appointments.title')}
+      </h3>
+      <p className="text-slate-500 text-sm">{t('appointmentSettings.hint')}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {fields.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-3 text-sm font-medium text-slate-500">
+            <input
+              type="number"
+              min={0}
+              className="w-20 px-3 py-2 rounded-xl border border-slate-200 outline-none"
+              value={draft[key]}
+              onChange={e => setDraft({ ...draft, [key]: Number(e.target.value) })}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+      <button
+        disabled={!dirty}
+        onClick={() => onSave(draft)}
+        className="px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all disabled:opacity-40"
+      >
+        {t('appointmentSettings.save')}
+      </button>
+    </section>
+  );
+}
+
+function PrintingSettingsPanel({ t, settings, onSave }: { t: Translate, settings: PrintingSettings, onSave: (settings: PrintingSettings) => void }) {
+  const [draft, setDraft] = useState(settings);
+  const [preview, setPreview] = useState('');
+
+  // Pick up changes saved from another screen
+  useEffect(() => setDraft(settings), [settings]);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderTicketHtml(sampleTicketData(draft, window.location.origin)).then(html => { if (!cancelled) setPreview(html); });
+    return () => { cancelled = true; };
+  }, [draft]);
+
+  const dirty = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const testPrint = () => {
+    if (settings.target === 'browser') {
+      printHtml(preview);
+      return;
+    }
+    api.printTestTicket().then(
+      ({ destination }) => alert(t('printing.testSent', { destination })),
+      (err: Error) => alert(err.message)
+    );
+  };
+
+  const field = 'w-full px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white';
+
+  return (
+    <section className="bg-white p-8 rounded-[32px] border border-slate-200 shadow-sm space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold flex items-center gap-2">
+          <Printer className="text-blue-500" />
+          {t('printing.title')}
+        </h3>
+        <label className="flex items-center gap-2 text-sm font-medium text-slate-500">
+          <input type="checkbox" checked={draft.enabled} onChange={e => setDraft({ ...draft, enabled: e.target.checked })} />
+          {t('printing.enabled')}
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="space-y-4">
+          <label className="block space-y-2 text-sm font-medium text-slate-500">
+            <span>{t('printing.printer')}</span>
+            <select className={field} value={draft.target} onChange={e => setDraft({ ...draft, target: e.target.value as PrintingSettings['target'] })}>
+              <option value="browser">{t('printing.browser')}</option>
+              <option value="network">{t('printing.network')}</option>
+              <option value="file">{t('printing.file')}</option>
+            </select>
+          </label>
+          {draft.target === 'network' && (
+            <div className="grid grid-cols-3 gap-4">
+              <label className="col-span-2 space-y-2 text-sm font-medium text-slate-500">
+                <span>{t('printing.host')}</span>
+                <input className={field} placeholder="192.168.1.50" value={draft.host} onChange={e => setDraft({ ...draft, host: e.target.value })} />
+              </label>
+              <label className="space-y-2 text-sm font-medium text-slate-500">
+                <span>{t('printing.port')}</span>
+                <input type="number" min={1} max={65535} className={field} value={draft.port} onChange={e => setDraft({ ...draft, port: Number(e.target.value) })} />
+              </label>
+            </div>
+          )}
+          <label className="block space-y-2 text-sm font-medium text-slate-500">
+            <span>{t('printing.branchName')}</span>
+            <input className={field} value={draft.branchName} onChange={e => setDraft({ ...draft, branchName: e.target.value })} />
+          </label>
+          <label className="block space-y-2 text-sm font-medium text-slate-500">
+            <span>{t('printing.header')}</span>
+            <input className={field} value={draft.headerText} onChange={e => setDraft({ ...draft, headerText: e.target.value })} />
+          </label>
+          <label className="block space-y-2 text-sm font-medium text-slate-500">
+            <span>{t('printing.footer')}</span>
+            <textarea rows={2} className={field} value={draft.footerText} onChange={e => setDraft({ ...draft, footerText: e.target.value })} />
+          </label>
+          <div className="flex flex-wrap gap-4">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-500">
+              <input type="checkbox" checked={draft.showEstimate} onChange={e => setDraft({ ...draft, showEstimate: e.target.checked })} />
+              {t('printing.showEstimate')}
+            </label>
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-500">
+              <input type="checkbox" checked={draft.showQr} onChange={e => setDraft({ ...draft, showQr: e.target.checked })} />
+              {t('printing.showQr')}
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-4">
+            <button
+              disabled={!dirty}
+              onClick={() => onSave(draft)}
+              className="px-6 py-3 bg-blue-600 text-white rounded-xl font-bold hover:bg-blue-700 transition-all disabled:opacity-40"
+            >
+              {t('common.save')}
+            </button>
+            <button
+              disabled={dirty}
+              title={dirty ? t('printing.saveFirst') : undefined}
+              onClick={testPrint}
+              className="px-6 py-3 bg-blue-50 text-blue-700 border border-blue-100 rounded-xl font-bold hover:bg-blue-100 transition-all flex items-center gap-2 disabled:opacity-40"
+            >
+              <Printer size={20} />
+              {t('printing.test')}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-center bg-slate-50 rounded-2xl p-6">
+          <iframe title={t('printing.preview')} srcDoc={preview} className="w-[320px] h-[520px] bg-white shadow-md rounded" />
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function servedCategoriesLabel(counter: Counter, categories: Category[], t: Translate) {
+  if (counter.categoryIds.length === 0) return t('counter.allCategories');
+  return categories.filter(c => counter.categoryIds.includes(c.id)).map(c => c.name).join(', ');
+}
+
+// Whole minutes, saved when the field loses focus so typing does not send every keystroke.
+// TV media area: each image or video in turn, `seconds` apiece.
+function MediaSlides({ urls, seconds }: { urls: string[], seconds: number }) {
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(0);
+    if (urls.length < 2) return;
+    const timer = setInterval(() => setIndex(current => (current + 1) % urls.length), seconds * 1000);
+    return () => clearInterval(timer);
+  }, [urls.join(' '), seconds]);
+
+  const url = urls[index % urls.length];
+  return (
+    <div className="aspect-video rounded-3xl overflow-hidden border border-white/5 bg-black">
+      {isVideoUrl(url)
+        ? <video key={url} src={url} autoPlay muted loop playsInline className="w-full h-full object-cover" />
+        : <img key={url} src={url} alt="" className="w-full h-full object-cover" />}
+    </div>
+  );
+}
+
+function MinutesInput({ label, value, onChange }: { label: string, value: number, onChange: (minutes: number) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-xs font-medium text-slate-400">
+      <input
+        key={value}
+        type="number"
+        min={1}
+        defaultValue={value}
+        onBlur={e => {
+          const minutes = Number(e.target.value);
+          if (Number.isInteger(minutes) && minutes >= 1 && minutes !== value) onChange(minutes);
+          else e.target.value = String(value);
+        }}
+        className="w-16 px-2 py-2 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm text-slate-700"
+      />
+      min {label}
+    </label>
+  );
+}
+
+// Name customers see in another language; left blank, they see the category name.
+function TranslationInput({ locale, value, onChange, t }: { locale: Locale, value: string, onChange: (name: string) => void, t: Translate, key?: React.Key }) {
+  return (
+    <label className="flex items-center gap-2 mt-1 text-xs font-medium text-slate-400">
+      <span className="w-6 font-bold uppercase">{locale}</span>
+      <input
+        key={value}
+        type="text"
+        defaultValue={value}
+        placeholder={t('category.translationPlaceholder', { language: LOCALE_NAMES[locale] })}
+        onBlur={e => {
+          const name = e.target.value.trim();
+          if (name !== value) onChange(name);
+        }}
+        className="w-48 px-2 py-1 rounded-lg border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm text-slate-700"
+      />
+    </label>
+  );
+}
+
+const APPOINTMENT_STATUS_STYLES: Record<AppointmentStatus, string> = {
+  booked: 'bg-blue-50 text-blue-700',
+  'checked-in': 'bg-green-50 text-green-700',
+  late: 'bg-amber-50 text-amber-700',
+  missed: 'bg-red-50 text-red-600',
+  cancelled: 'bg-slate-100 text-slate-400',
+};
+
+const SLA_STYLES: Record<SlaStatus, string> = {
+  ok: 'text-slate-400',
+  'at-risk': 'text-amber-600 bg-amber-50 border-amber-200',
+  breached: 'text-red-600 bg-red-50 border-red-200',
+};
+
+// Minutes elapsed against the target, colored by service-level status.
+function SlaBadge({ status, minutes, t }: { status: SlaStatus, minutes: number, t: Translate }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-bold ${status === 'ok' ? '' : 'border'} ${SLA_STYLES[status]}`}>
+      {t('sla.minutes', { minutes })}{status === 'breached' ? ` · ${t('sla.breached')}` : status === 'at-risk' ? ` · ${t('sla.atRisk')}` : ''}
+    </span>
+  );
+}
+
+function PrioritySelect({ value, onChange, t }: { value: number, onChange: (priority: number) => void, t: Translate }) {
+  return (
+    <select
+      title={t('category.priority')}
+      className="px-4 py-3 rounded-xl border border-slate-200 focus:ring-2 focus:ring-blue-500 outline-none bg-white text-sm"
+      value={value}
+      onChange={e => onChange(Number(e.target.value))}
+    >
+      {[1, 2, 3, 4, 5].map(level => (
+        <option key={level} value={level}>{t('category.priorityLevel', { level })}</option>
+      ))}
+    </select>
   );
 }
 
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Star } from 'lucide-react';
+import { SurveyReason, SurveyResponse } from './types';
+import { Translate } from './utils/i18n';
+import { SURVEY_REASONS, SURVEY_REASON_KEYS } from './utils/satisfaction';
+
+// Stars plus optional reasons, shared by the counter tablet and the customer's tracking page.
+export default function SurveyForm({ t, dark = false, sending = false, onSubmit, onSkip }: {
+  t: Translate,
+  // Light text, for the blue tablet screen.
+  dark?: boolean,
+  sending?: boolean,
+  onSubmit: (answer: Pick<SurveyResponse, 'rating' | 'reasons'>) => void,
+  onSkip?: () => void,
+  key?: React.Key
+}) {
+  const [rating, setRating] = useState(0);
+  const [reasons, setReasons] = useState<SurveyReason[]>([]);
+
+  const toggle = (reason: SurveyReason) =>
+    setReasons(current => (current.includes(reason) ? current.filter(r => r !== reason) : [...current, reason]));
+
+  return (
+    <div className="space-y-5">
+      <p className={`text-xl font-bold ${dark ? 'text-white' : 'text-slate-800'}`}>{t('survey.question')}</p>
+      <div className="flex justify-center gap-2">
+        {[1, 2, 3, 4, 5].map(n => (
+          <button key={n} onClick={() => setRating(n)} aria-label={t('survey.stars', { n })} className="p-1 active:scale-90 transition-transform">
+            <Star size={40} className={n <= rating ? 'fill-amber-400 text-amber-400' : dark ? 'text-white/40' : 'text-slate-300'} />
+          </button>
+        ))}
+      </div>
+      {rating > 0 && (
+        <div className="space-y-3">
+          <p className={`text-sm ${dark ? 'text-white/80' : 'text-slate-500'}`}>{t('survey.reasonsPrompt')}</p>
+          <div className="flex flex-wrap justify-center gap-2">
+            {SURVEY_REASONS.map(reason => (
+              <button
+                key={reason}
+                onClick={() => toggle(reason)}
+                className={`px-3 py-2 rounded-xl text-sm font-bold border transition-colors ${
+                  reasons.includes(reason)
+                    ? 'bg-amber-400 border-amber-400 text-slate-900'
+                    : dark ? 'border-white/30 text-white' : 'border-slate-200 text-slate-600'
+                }`}
+              >
+                {t(SURVEY_REASON_KEYS[reason])}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      <div className="flex justify-center gap-3">
+        {onSkip && (
+          <button onClick={onSkip} className={`px-5 py-3 rounded-2xl font-bold ${dark ? 'text-white/70' : 'text-slate-400'}`}>
+            {t('survey.skip')}
+          </button>
+        )}
+        <button
+          onClick={() => onSubmit({ rating, reasons })}
+          disabled={rating === 0 || sending}
+          className={`px-8 py-3 rounded-2xl font-bold disabled:opacity-40 ${dark ? 'bg-white text-blue-700' : 'bg-blue-600 text-white'}`}
+        >
+          {t('survey.submit')}
+        </button>
+      </div>
+    </div>
+  );
+}
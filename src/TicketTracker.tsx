@@ -0,0 +1,160 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bell, CheckCircle2, Clock, Ticket as TicketIcon, Users } from 'lucide-react';
+import { motion } from 'motion/react';
+import { format } from 'date-fns';
+import { Locale, SurveyResponse, TicketTracking, TicketTrackingMessage } from './types';
+import SurveyForm from './SurveyForm';
+import { submitPublicSurvey } from './utils/api';
+import { LOCALES, LOCALE_NAMES, Translate, browserLocale, categoryName, translator } from './utils/i18n';
+import { connectToServer } from './utils/sync';
+
+// Mobile page opened from the QR code on a printed ticket. It only talks to the public per-ticket stream.
+export default function TicketTracker({ ticketId }: { ticketId: string }) {
+  const [ticket, setTicket] = useState<TicketTracking | null | undefined>(undefined);
+  const [connected, setConnected] = useState(true);
+  // Starts in the phone's language; the customer can switch
+  const [locale, setLocale] = useState<Locale>(browserLocale);
+  const previousStatus = useRef<string | undefined>(undefined);
+  const [survey, setSurvey] = useState<'sending' | 'sent' | 'error'>();
+  const t = translator(locale);
+
+  const sendSurvey = (answer: Pick<SurveyResponse, 'rating' | 'reasons'>) => {
+    setSurvey('sending');
+    submitPublicSurvey(ticketId, answer).then(() => setSurvey('sent'), () => setSurvey('error'));
+  };
+
+  useEffect(() => connectToServer<TicketTrackingMessage>({
+    onConnect: () => setConnected(true),
+    onDisconnect: () => setConnected(false),
+    onMessage: message => setTicket(message.ticket),
+  }, `/api/public/tickets/${encodeURIComponent(ticketId)}/events`), [ticketId]);
+
+  // Buzz the phone when the ticket is called
+  useEffect(() => {
+    if (ticket?.status === 'calling' && previousStatus.current !== 'calling') navigator.vibrate?.([300, 150, 300]);
+    previousStatus.current = ticket?.status;
+  }, [ticket?.status]);
+
+  useEffect(() => {
+    document.title = ticket ? t('common.ticketNumber', { id: ticket.displayId }) : t('tracker.title');
+    document.documentElement.lang = locale;
+  }, [ticket?.displayId, locale]);
+
+  return (
+    <div className="min-h-screen bg-[#F8FAFC] font-sans text-slate-900 flex flex-col items-center p-6">
+      {!connected && (
+        <div className="fixed top-0 inset-x-0 bg-amber-500 text-white text-sm font-bold text-center py-2">
+          {t('tracker.offline')}
+        </div>
+      )}
+      <div className="w-full max-w-sm space-y-6 pt-8">
+        <div className="flex items-center gap-3 justify-center">
+          <div className="w-10 h-10 bg-blue-600 rounded-xl flex items-center justify-center">
+            <TicketIcon className="text-white" size={20} />
+          </div>
+          <span className="font-bold text-lg tracking-tight">{t('tracker.title')}</span>
+        </div>
+
+        {ticket === undefined && <p className="text-center text-slate-400 font-medium pt-12">{t('common.loading')}</p>}
+
+        {ticket === null && (
+          <div className="bg-white rounded-[32px] border border-slate-200 p-8 text-center space-y-2">
+            <h2 className="text-xl font-bold">{t('tracker.notFound')}</h2>
+            <p className="text-slate-500 text-sm">{t('tracker.notFoundHint')}</p>
+          </div>
+        )}
+
+        {ticket && (
+          <motion.div
+            key={ticket.status}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            className={`rounded-[32px] border p-8 text-center space-y-6 shadow-sm ${
+              ticket.status === 'calling' ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-slate-200'
+            }`}
+          >
+            <div>
+              <p className={`uppercase tracking-widest text-xs font-bold ${ticket.status === 'calling' ? 'text-blue-100' : 'text-slate-400'}`}>
+                {categoryName({ name: ticket.categoryName, translations: ticket.categoryTranslations }, locale)}
+              </p>
+              <h1 className="text-7xl font-black tracking-tighter">{ticket.displayId}</h1>
+            </div>
+            <TrackingStatus ticket={ticket} t={t} />
+          </motion.div>
+        )}
+
+        {ticket?.survey && (
+          <div className="bg-white rounded-[32px] border border-slate-200 p-8 text-center space-y-3">
+            {ticket.survey === 'answered' || survey === 'sent' ? (
+              <p className="font-bold text-slate-700">{survey === 'sent' ? t('survey.thanks') : t('survey.answered')}</p>
+            ) : (
+              <>
+                <SurveyForm t={t} sending={survey === 'sending'} onSubmit={sendSurvey} />
+                {survey === 'error' && <p className="text-sm text-red-500">{t('survey.error')}</p>}
+              </>
+            )}
+          </div>
+        )}
+
+        <p className="text-center text-xs text-slate-400">{t('tracker.liveUpdates')}</p>
+
+        <div className="flex justify-center gap-2">
+          {LOCALES.map(code => (
+            <button
+              key={code}
+              onClick={() => setLocale(code)}
+              className={`px-3 py-1 rounded-lg text-xs font-bold ${locale === code ? 'bg-slate-200 text-slate-700' : 'text-slate-400'}`}
+            >
+              {LOCALE_NAMES[code]}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function TrackingStatus({ ticket, t }: { ticket: TicketTracking, t: Translate }) {
+  switch (ticket.status) {
+    case 'waiting':
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="p-4 bg-slate-50 rounded-2xl">
+            <Users className="mx-auto text-slate-400 mb-1" size={18} />
+            <p className="text-slate-400 uppercase tracking-widest text-[10px] font-bold">{t('tracker.ahead')}</p>
+            <p className="text-2xl font-black text-slate-800">{ticket.ahead}</p>
+          </div>
+          <div className="p-4 bg-slate-50 rounded-2xl">
+            <Clock className="mx-auto text-slate-400 mb-1" size={18} />
+            <p className="text-slate-400 uppercase tracking-widest text-[10px] font-bold">{t('common.estimatedWait')}</p>
+            <p className="text-2xl font-black text-slate-800">{t('common.approxMinutes', { minutes: ticket.estimatedMinutes ?? 0 })}</p>
+          </div>
+          <p className="col-span-2 text-slate-500 text-sm">
+            {ticket.ahead === 0 ? t('tracker.next') : t('tracker.willNotify')}
+          </p>
+        </div>
+      );
+    case 'calling':
+      return (
+        <div className="space-y-2">
+          <Bell className="mx-auto animate-bounce" size={32} />
+          <p className="text-2xl font-black">{t('tracker.yourTurn')}</p>
+          <p className="text-lg">{t('tracker.goTo')} <span className="font-bold">{ticket.counterName}</span></p>
+          {ticket.calledAt && <p className="text-blue-100 text-sm">{t('tracker.calledAt', { time: format(ticket.calledAt, 'HH:mm') })}</p>}
+        </div>
+      );
+    case 'serving':
+      return <p className="text-slate-500">{t('tracker.servingAt')} <span className="font-bold text-slate-800">{ticket.counterName}</span></p>;
+    case 'completed':
+      return (
+        <div className="space-y-2">
+          <CheckCircle2 className="mx-auto text-green-500" size={32} />
+          <p className="text-slate-500">{t('tracker.completed')}</p>
+        </div>
+      );
+    case 'no-show':
+      return <p className="text-slate-500">{t('tracker.noShow')}</p>;
+    case 'expired':
+      return <p className="text-slate-500">{t('tracker.expired')}</p>;
+  }
+}
@@ -0,0 +1,487 @@
+import { MessageKey } from '../utils/i18n';
+
+export const en: Record<MessageKey, string> = {
+  'common.ticket': 'Ticket',
+  'common.ticketNumber': 'Ticket {id}',
+  'common.counter': 'Counter',
+  'common.counterNumber': 'Counter {id}',
+  'common.position': 'Position',
+  'common.ordinal': '#{n}',
+  'common.estimatedWait': 'Estimated wait',
+  'common.approxMinutes': '~{minutes} min',
+  'common.cancel': 'Cancel',
+  'common.loading': 'Loading...',
+  'common.language': 'Language',
+
+  'schedule.closed': 'Closed',
+  'schedule.dayClosed': 'We are closed for the rest of the day',
+  'schedule.outsideHours': 'Outside opening hours',
+  'schedule.reopensToday': 'Outside opening hours. We open today at {time}',
+  'schedule.reopensOn': 'Outside opening hours. We open on {day} at {time}',
+
+  'kiosk.welcome': 'Welcome',
+  'kiosk.chooseService': 'Choose a service to get your ticket',
+  'kiosk.prefix': 'Prefix: {prefix}',
+  'kiosk.todayHours': 'Opening hours today: {hours}',
+  'kiosk.haveAppointment': 'I have an appointment',
+  'kiosk.enterCode': 'Enter your appointment code',
+  'kiosk.confirmArrival': 'Check in',
+  'kiosk.yourTicket': 'Your ticket is',
+  'kiosk.waitForCall': 'Please wait until your number is called on the main screen.',
+  'kiosk.serviceUnavailable': 'This service is no longer available',
+  'kiosk.appointmentNotFound': 'We could not find an appointment with that code',
+  'kiosk.appointmentCancelled': 'This appointment was cancelled',
+  'kiosk.appointmentCheckedIn': 'This appointment has already been checked in',
+  'kiosk.appointmentExpired': 'This appointment has expired. Please take a ticket at the kiosk',
+  'kiosk.appointmentTooEarly': 'Your appointment is on {date} at {time}. You can check in from {opens}',
+
+  'tv.title': 'Now Serving',
+  'tv.subtitle': 'Please watch for your number',
+  'tv.calling': 'Calling...',
+  'tv.callCount': 'Call {count}',
+  'tv.idle': 'Waiting for new tickets',
+  'tv.recentCalls': 'Recent calls',
+  'tv.noRecentCalls': 'No recent calls',
+  'tv.enableSound': 'Enable sound',
+  'tv.announcement': 'Ticket {ticket}, {counter}',
+  'tv.ticker': 'Welcome to QueueMaster Pro • Please take your ticket at the kiosk • Keep a safe distance • Thank you for your patience',
+
+  'tracker.title': 'Ticket tracking',
+  'tracker.offline': 'Offline. Reconnecting...',
+  'tracker.notFound': 'Ticket not found',
+  'tracker.notFoundHint': 'Check the QR code on your ticket or ask a staff member.',
+  'tracker.liveUpdates': 'This page updates by itself. Keep it open to see when you are called.',
+  'tracker.ahead': 'Ahead of you',
+  'tracker.next': 'You are next. Please come to the waiting area.',
+  'tracker.willNotify': 'We will let you know here when it is your turn.',
+  'tracker.yourTurn': 'It is your turn!',
+  'tracker.goTo': 'Please go to',
+  'tracker.calledAt': 'Called at {time}',
+  'tracker.servingAt': 'Being served at',
+  'tracker.completed': 'Service completed. Thank you for your visit!',
+  'tracker.noShow': 'Your number was called but you did not show up. Please ask a staff member if you still need service.',
+  'tracker.expired': 'The day ended before your number was called. We apologize; you can take a new ticket during the next opening hours.',
+
+  'survey.question': 'How was your service?',
+  'survey.stars': '{n} of 5',
+  'survey.reasonsPrompt': 'What shaped your rating? (optional)',
+  'survey.reason.wait': 'Waiting time',
+  'survey.reason.staff': 'Staff friendliness',
+  'survey.reason.resolution': 'Getting my request solved',
+  'survey.reason.information': 'Clear information',
+  'survey.reason.facilities': 'Facilities',
+  'survey.submit': 'Send',
+  'survey.skip': 'Skip',
+  'survey.thanks': 'Thank you for your feedback!',
+  'survey.answered': 'We have received your rating. Thank you!',
+  'survey.error': 'Your answer could not be sent. Please try again.',
+  'survey.idle': 'Thank you for your visit',
+  'survey.idleHint': 'You can rate your service here once it is finished.',
+
+  'print.approxWait': 'Approx. wait',
+
+  'role.admin': 'Administrator',
+  'role.supervisor': 'Supervisor',
+  'role.advisor': 'Advisor',
+  'role.kiosk': 'Kiosk',
+  'role.display': 'TV display',
+
+  'break.lunch': 'Lunch',
+  'break.training': 'Training',
+  'break.backoffice': 'Back office',
+
+  'ticketEvent.issued': 'Issued',
+  'ticketEvent.called': 'Called',
+  'ticketEvent.recalled': 'Called again',
+  'ticketEvent.started': 'Service started',
+  'ticketEvent.transferred': 'Transferred',
+  'ticketEvent.completed': 'Served',
+  'ticketEvent.noShow': 'No-show',
+  'ticketEvent.reinstated': 'Reinstated',
+  'ticketEvent.expired': 'Expired',
+  'ticketEvent.edited': 'Corrected',
+
+  'appointmentStatus.booked': 'Booked',
+  'appointmentStatus.checkedIn': 'Checked in',
+  'appointmentStatus.late': 'Checked in late',
+  'appointmentStatus.missed': 'Missed',
+  'appointmentStatus.cancelled': 'Cancelled',
+
+  'queuePolicy.strict': 'Strict priority',
+  'queuePolicy.weighted': 'Weighted round-robin',
+  'queuePolicy.aging': 'Aging (waiting adds priority)',
+
+  'weekday.monday': 'Monday',
+  'weekday.tuesday': 'Tuesday',
+  'weekday.wednesday': 'Wednesday',
+  'weekday.thursday': 'Thursday',
+  'weekday.friday': 'Friday',
+  'weekday.saturday': 'Saturday',
+  'weekday.sunday': 'Sunday',
+  'weekday.short.monday': 'Mon',
+  'weekday.short.tuesday': 'Tue',
+  'weekday.short.wednesday': 'Wed',
+  'weekday.short.thursday': 'Thu',
+  'weekday.short.friday': 'Fri',
+  'weekday.short.saturday': 'Sat',
+  'weekday.short.sunday': 'Sun',
+
+  'nav.kiosk': 'Kiosk',
+  'nav.advisor': 'Advisor',
+  'nav.supervisor': 'Supervision',
+  'nav.appointments': 'Appointments',
+  'nav.tv': 'TV',
+  'nav.survey': 'Survey',
+  'nav.analytics': 'Analytics',
+  'nav.admin': 'Admin',
+  'nav.logout': 'Exit',
+  'nav.signedInAs': '{name} ({role}) · Sign out',
+
+  'app.unreachable': 'Could not reach the server. Retrying...',
+  'app.offline': 'No connection to the server. Reconnecting...',
+  'app.branch': 'Branch',
+  'app.displayProfileNotFound': 'Display profile not found in this branch',
+  'app.confirmCancelAppointment': 'Cancel this appointment?',
+  'app.confirmClearHistory': 'Are you sure you want to delete this branch\'s history?',
+  'app.legacyImport': 'This browser holds data from the previous version (services, counters and ticket history). Import it into the server? The current configuration will be replaced.',
+  'app.legacyDiscard': 'Discard the data from the previous version? You will not be asked again.',
+  'app.legacyInvalid': 'The data from the previous version is not valid JSON',
+
+  'login.prompt': 'Sign in to continue',
+  'login.username': 'Username',
+  'login.password': 'Password',
+  'login.submit': 'Sign in',
+
+  'counterStatus.idle': 'Available',
+  'counterStatus.busy': 'Serving',
+  'counterStatus.away': 'On break',
+  'counter.allCategories': 'All services',
+  'counter.onBreak': 'On break: {reason}',
+
+  'sla.breached': 'over target',
+  'sla.atRisk': 'near target',
+  'sla.minutes': '{minutes} min',
+  'category.priority': 'Priority',
+  'category.priorityLevel': 'Priority {level}',
+  'category.translationPlaceholder': 'Name for customers ({language})',
+
+  'advisor.title': 'Advisor Desk',
+  'advisor.subtitle': 'Manage customer service at your counter',
+  'advisor.waiting': 'Waiting',
+  'advisor.signedIn': 'Signed in: {name}',
+  'advisor.otherUser': 'another user',
+  'advisor.clickToSignIn': 'Click to sign in',
+  'advisor.clickToOpen': 'Click to open',
+  'advisor.changeCounter': 'Change Counter',
+  'advisor.nowServing': 'Now serving',
+  'advisor.start': 'Start Service',
+  'advisor.recall': 'Call Again',
+  'advisor.complete': 'Finish Ticket',
+  'advisor.noShow': 'No-show',
+  'advisor.transfer': 'Transfer',
+  'advisor.transferToCategory': 'Transfer to service',
+  'advisor.transferToCounter': 'Transfer to counter',
+  'advisor.breakSince': 'Since {time}. The counter gets no tickets until you resume.',
+  'advisor.resume': 'Resume Service',
+  'advisor.free': 'Counter Free',
+  'advisor.callHint': 'Press the button to call the next customer',
+  'advisor.callNext': 'Call Next',
+  'advisor.takeBreak': 'Take a break',
+  'advisor.upNext': 'Up next',
+  'advisor.appointmentAt': 'Appt. {time}',
+  'advisor.noWaiting': 'No tickets waiting',
+  'advisor.recentNoShows': 'Recent no-shows',
+  'advisor.reinstateHint': 'They can rejoin the queue for {minutes} min.',
+  'advisor.reinstate': 'Reinstate',
+
+  'common.deletedUser': 'Deleted user',
+
+  'survey.setupTitle': 'Satisfaction survey',
+  'survey.pickCounter': 'Choose the counter this tablet stands next to.',
+  'survey.counterNotFound': 'The counter in this address does not exist in the branch. Choose another.',
+
+  'supervisor.title': 'Live Supervision',
+  'supervisor.subtitle': 'Service level for the day. Target: {percent}% of customers called within the maximum wait.',
+  'supervisor.alerts': 'Service Level Alerts',
+  'supervisor.noAlerts': 'No alerts: every ticket is within target.',
+  'supervisor.waitingFor': 'Waiting for {counter}',
+  'supervisor.servingAt': 'Being served at {counter}',
+  'supervisor.queues': 'Queues by Service',
+  'supervisor.service': 'Service',
+  'supervisor.target': 'Target',
+  'supervisor.longestWait': 'Longest wait',
+  'supervisor.atRisk': 'Near target',
+  'supervisor.breached': 'Over target',
+  'supervisor.complianceToday': 'Compliance today',
+  'supervisor.counters': 'Counters',
+  'supervisor.noAdvisor': 'No advisor',
+  'supervisor.calling': 'Calling',
+
+  'audit.title': 'Ticket History',
+  'audit.searchPlaceholder': 'Ticket, e.g. G004',
+  'audit.search': 'Search',
+  'audit.notFound': 'Ticket {id} was not found',
+  'audit.system': 'System',
+  'audit.recent': 'Recent activity',
+  'audit.noActivity': 'No activity in this branch yet.',
+  'audit.timeline': 'Timeline',
+  'audit.timelineOf': 'Timeline of {id}',
+  'audit.selectHint': 'Select a ticket to see its whole journey.',
+  'audit.undid': 'undid {event}',
+  'audit.confirmUndo': 'Undo "{event}" on ticket {id}?',
+  'audit.undo': 'Undo',
+
+  'appointments.title': 'Appointments',
+  'appointments.subtitle': '{minutes}-minute slots with {capacity} appointment(s) each. Customers confirm their arrival at the kiosk with the booking code.',
+  'appointments.closedDay': 'No service that day.',
+  'appointments.customerName': 'Customer name',
+  'appointments.pickSlot': 'Pick a time',
+  'appointments.book': 'Book {time}',
+  'appointments.agenda': 'Schedule for {date}',
+  'appointments.none': 'No appointments booked.',
+  'appointments.time': 'Time',
+  'appointments.code': 'Code',
+  'appointments.customer': 'Customer',
+  'appointments.status': 'Status',
+
+  'common.add': 'Add',
+
+  'admin.title': 'System Settings',
+  'admin.subtitle': 'Manage branches, services, counters and system data',
+  'admin.categories': 'Services',
+  'admin.categoryNamePlaceholder': 'Name (e.g. Cashier)',
+  'admin.prefixPlaceholder': 'Prefix (e.g. C)',
+  'admin.newCategoryTargets': 'Service targets for the new service:',
+  'admin.maxWait': 'max. wait',
+  'admin.maxService': 'max. service',
+  'admin.countersHint': 'Add, rename or remove counters and choose which services each one handles.',
+  'admin.counterNamePlaceholder': 'Name (e.g. Counter 4)',
+  'admin.counterBusy': 'The counter has a ticket in progress',
+  'admin.confirmRemove': 'Remove {name}? Its history stays in Analytics.',
+  'admin.queuePolicy': 'Queue Policy',
+  'admin.queuePolicyHint': 'Sets how the next ticket is chosen from each service\'s priority.',
+  'admin.agingMinutes': 'minutes of waiting = +1 priority level',
+  'admin.noShowGrace': 'minutes of grace to reinstate a no-show',
+  'admin.slaTarget': '% of customers called within the maximum wait (service level target)',
+  'admin.data': 'Data Management',
+  'admin.dataHint': 'Deletes this branch\'s tickets, breaks and past appointments and restarts its numbering and business day. Settings are kept.',
+  'admin.clearHistory': 'Clear branch history',
+
+  'common.all': 'All',
+
+  'branches.title': 'Branches',
+  'branches.hint': 'Each branch has its own services, counters, tickets and numbering. The services and counters below belong to {name}. A new branch can start from another branch\'s services.',
+  'branches.namePlaceholder': 'Name (e.g. North Branch)',
+  'branches.noCategories': 'No services',
+  'branches.categoriesOf': 'Services of {name}',
+  'branches.counts': '{categories} services · {counters} counters',
+  'branches.removeFirst': 'Remove its services and counters first',
+  'branches.confirmCopy': 'Copy the services of {from} to {to}? Prefixes that already exist are skipped.',
+  'branches.copyInto': 'Copy into {name} the services of',
+  'branches.pick': 'Choose a branch…',
+
+  'users.title': 'Users and Roles',
+  'users.hint': 'Advisors sign in at a counter and every action on a ticket is recorded under their name. Kiosks and displays use their own user and show no navigation. Advisors, kiosks and displays work in a single branch.',
+  'users.name': 'Name',
+  'users.allBranches': 'All branches',
+  'users.create': 'Create',
+  'users.you': '(you)',
+  'users.newPassword': 'New password for {name} (at least 6 characters):',
+  'users.changePassword': 'Change password',
+  'users.active': 'Active',
+
+  'backup.title': 'Export and Import',
+  'backup.hint': 'Download tickets to analyse them in Excel, back up the system settings or download a full copy of the database.',
+  'backup.from': 'From (optional)',
+  'backup.to': 'To (optional)',
+  'backup.exportCsv': 'Export tickets as CSV',
+  'backup.exportJson': 'Export tickets as JSON',
+  'backup.exportConfig': 'Back up settings',
+  'backup.restoreConfig': 'Restore settings',
+  'backup.downloadDatabase': 'Download database',
+  'backup.confirmRestore': 'Restore {categories} services and {counters} counters? The current settings will be replaced.',
+  'backup.invalidJson': 'The file is not valid JSON',
+
+  'simulator.title': 'Queue Simulator',
+  'simulator.hint': 'Simulates arrivals at the given hourly rates and serves them with the selected branch\'s counters, opening hours and queue policy. The same seed always gives the same results.',
+  'simulator.hourlyArrivals': 'Arrivals per hour (weekdays)',
+  'simulator.weekendFactor': 'weekend factor',
+  'simulator.serviceMinutes': 'min average service',
+  'simulator.noShowRate': '% no-shows',
+  'simulator.days': 'days',
+  'simulator.seed': 'seed',
+  'simulator.generate': 'Generate simulated history',
+  'simulator.confirmGenerate': 'Generate {days} days of simulated history with the current settings? Real tickets are kept.',
+  'simulator.whatIf': 'What if we open',
+  'simulator.moreCounters': 'more counter(s) than the current {count}?',
+  'simulator.running': 'Simulating...',
+  'simulator.run': 'Simulate scenario',
+  'simulator.result': 'Simulated result',
+  'simulator.baseline': 'Current setup',
+  'simulator.scenario': 'Scenario',
+  'simulator.averageWait': 'Average wait',
+  'simulator.calledInTarget': 'Called within maximum wait',
+  'simulator.expired': 'Expired at closing',
+  'simulator.utilization': 'Counter utilization',
+
+  'common.close': 'Close',
+  'common.edit': 'Edit',
+  'common.save': 'Save',
+  'common.to': 'to',
+
+  'announcements.title': 'Voice Announcements',
+  'announcements.enabled': 'Enabled',
+  'announcements.hint': 'The TV screen plays a chime and announces each call in Spanish and English, for example "Turno G 12, Ventanilla 3" and "Ticket G 12, Counter 3". The chosen language and voice are used for their language.',
+  'announcements.voice': 'Voice',
+  'announcements.defaultVoice': 'Browser default',
+  'announcements.volume': 'Volume ({percent}%)',
+  'announcements.repeat': 'Repeats per call',
+  'announcements.chime': 'Chime before the message',
+  'announcements.test': 'Test announcement',
+
+  'displays.title': 'TV Screens',
+  'displays.hint': 'Each profile sets which services and counters a screen shows, its messages, colours, logo and media. Open the profile\'s address in the TV\'s browser; without a profile the screen shows the whole branch.',
+  'displays.namePlaceholder': 'Name (e.g. Cashier Screen)',
+  'displays.confirmRemove': 'Remove the profile {name}? Screens that use it will stop showing tickets.',
+  'displays.none': 'This branch has no screen profiles yet.',
+  'displays.historyRows': 'Rows of recent calls',
+  'displays.categories': 'Services',
+  'displays.allCategories': 'Services (all)',
+  'displays.allCounters': 'Counters (all)',
+  'displays.ticker': 'Ticker messages (the default text shows when none is current)',
+  'displays.addMessage': 'Add message',
+  'displays.background': 'Background',
+  'displays.accent': 'Accent colour',
+  'displays.logo': 'Logo (image address)',
+  'displays.logoPlaceholder': 'https://… or /logo.png',
+  'displays.media': 'Images or videos (one address per line; empty hides the media area)',
+  'displays.slideSeconds': 'Seconds per slide',
+
+  'schedule.title': 'Opening Hours and Business Day',
+  'schedule.enforceHours': 'Issue tickets only during opening hours',
+  'schedule.hint': 'Each branch opens and closes its own business day, and its ticket numbering starts again at 1 every day. At closing, tickets still waiting or being called expire.',
+  'schedule.closedAt': 'Day closed at {time}',
+  'schedule.open': 'Day open',
+  'schedule.notStarted': 'Today\'s business day has not started yet',
+  'schedule.today': 'Today: {hours}',
+  'schedule.reopen': 'Reopen day',
+  'schedule.close': 'Close day',
+  'schedule.confirmClose': 'Close the day? This branch\'s kiosks will stop issuing tickets until tomorrow.',
+  'schedule.confirmCloseExpiring': 'Close the day? {count} ticket(s) waiting or being called will expire and this branch\'s kiosks will stop issuing tickets until tomorrow.',
+  'schedule.holidays': 'Holidays',
+  'schedule.noHolidays': 'No holidays set.',
+  'schedule.save': 'Save hours',
+
+  'appointmentSettings.hint': 'Customers arriving within the tolerance are called close to their time; late arrivals join the queue like any other ticket.',
+  'appointmentSettings.slotMinutes': 'min per appointment slot',
+  'appointmentSettings.slotCapacity': 'appointments per slot',
+  'appointmentSettings.earlyCheckIn': 'min early to check in',
+  'appointmentSettings.lateTolerance': 'min of tolerance before counting as late',
+  'appointmentSettings.missedAfter': 'min after the time to count as missed',
+  'appointmentSettings.save': 'Save appointments',
+
+  'printing.title': 'Ticket Printing',
+  'printing.enabled': 'Print on issue',
+  'printing.printer': 'Printer',
+  'printing.browser': 'Kiosk browser (HTML)',
+  'printing.network': 'Network thermal printer (ESC/POS)',
+  'printing.file': 'File on the server (testing)',
+  'printing.host': 'IP address',
+  'printing.port': 'Port',
+  'printing.branchName': 'Branch name',
+  'printing.header': 'Header',
+  'printing.footer': 'Footer',
+  'printing.showEstimate': 'Position and estimated wait',
+  'printing.showQr': 'QR code',
+  'printing.saveFirst': 'Save your changes before printing',
+  'printing.test': 'Print test',
+  'printing.testSent': 'Test ticket sent to {destination}',
+  'printing.preview': 'Ticket preview',
+
+  'trend.noPrevious': 'No previous data',
+  'trend.stable': 'Stable',
+  'trend.change': '{change}% vs prev. period',
+
+  'analytics.title': 'Analytics & KPIs',
+  'analytics.subtitle': 'Performance and service flow monitoring',
+  'analytics.headOffice': 'Head office',
+  'analytics.from': 'From',
+  'analytics.to': 'To',
+  'analytics.days': '{days} days',
+  'analytics.allCounters': 'All',
+  'analytics.volume': 'Ticket Volume ({from} – {to})',
+  'analytics.tickets': 'Tickets',
+  'analytics.byCategory': 'Distribution by Service',
+
+  'kpi.tme': 'Avg. Wait',
+  'kpi.tma': 'Avg. Service',
+  'kpi.total': 'Total Tickets',
+  'kpi.abandonment': 'Abandonment Rate',
+  'kpi.transfers': 'Transfers',
+  'kpi.transferTrend': '{rate}% of tickets · leg {minutes} min',
+
+  'staffing.title': 'Staffing Plan',
+  'staffing.hint': 'Expected arrivals per hour from the same weekday over the last {weeks} weeks ({days} with data) and counters needed (Erlang C) to call {percent}% of customers within the target wait. Average service: {minutes} min.',
+  'staffing.targetWait': 'target wait',
+  'staffing.noHistory': 'No history for that weekday to forecast from.',
+  'staffing.configured': 'Configured counters',
+  'staffing.needed': 'Counters needed',
+  'staffing.arrivals': 'Expected arrivals',
+
+  'compliance.title': 'Service Level Compliance',
+  'compliance.hint': 'Share of customers called within the maximum wait and of services within their maximum duration. Target: {percent}%.',
+  'compliance.wait': 'Wait',
+  'compliance.service': 'Service',
+  'compliance.targets': 'Targets',
+  'compliance.measured': 'Tickets measured',
+
+  'heatmap.title': 'Heatmap by Day and Hour',
+  'heatmap.arrivals': 'Arrivals',
+  'heatmap.wait': 'Average wait',
+
+  'byAdvisor.title': 'Performance by Advisor',
+  'byAdvisor.none': 'No services recorded under an advisor in this period.',
+  'byAdvisor.advisor': 'Advisor',
+  'byAdvisor.served': 'Served',
+  'byAdvisor.avgService': 'Average service',
+  'byAdvisor.noShows': 'No-shows',
+
+  'breaks.title': 'Breaks',
+  'breaks.count': '{count} breaks',
+  'breaks.timeAway': 'Time away',
+
+  'appointmentStats.total': '{count} booked in the period',
+  'appointmentStats.rate': '{percent}% of past appointments',
+
+  'csat.title': 'Satisfaction (CSAT)',
+  'csat.hint': 'Surveys answered at the counter or from the ticket\'s QR code. CSAT is the share of answers with 4 or 5 stars.',
+  'csat.responses': 'Responses',
+  'csat.average': 'Average',
+  'csat.responseRate': 'Response rate',
+  'csat.none': 'No surveys answered for this period\'s tickets.',
+  'csat.daily': 'Daily CSAT',
+  'csat.byWait': 'CSAT by wait',
+  'csat.notEnough': 'Not enough answers to measure how the wait relates to the rating.',
+  'csat.correlation': 'Correlation between wait and stars: {value} ({meaning}).',
+  'csat.waitHurts': 'long waits lower the rating',
+  'csat.waitUnrelated': 'the wait does not explain the rating',
+  'csat.reason': 'Reason',
+  'csat.mentions': 'Mentions',
+
+  'insights.title': 'Automatic Analysis',
+  'insights.hint': 'Written summary of trends, anomalies and staffing from the filtered figures.',
+  'insights.loading': 'Analysing...',
+  'insights.regenerate': 'Generate again',
+  'insights.generate': 'Generate analysis',
+  'insights.empty': 'No tickets in the selected period.',
+  'insights.local': 'Generated locally with fixed rules',
+  'insights.generatedWith': 'Generated with {provider}',
+  'insights.checkFigures': 'Check the figures before making decisions.',
+
+  'comparison.title': 'Branch Comparison',
+  'comparison.hint': 'Same period for every branch. Service level target: {percent}%.',
+  'comparison.abandonment': 'Abandonment',
+  'comparison.withinWait': 'Within wait target',
+
+  'heatmap.cell': '{day} {hour}:00 · {arrivals} arrivals/day · wait {wait} min',
+};
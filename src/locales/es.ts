@@ -0,0 +1,487 @@
+// Spanish is the source catalog: every other locale must define the same keys.
+// Placeholders in braces are filled in by `translator`; numbers are formatted for the locale.
+export const es = {
+  'common.ticket': 'Turno',
+  'common.ticketNumber': 'Turno {id}',
+  'common.counter': 'Ventanilla',
+  'common.counterNumber': 'Ventanilla {id}',
+  'common.position': 'Posición',
+  'common.ordinal': '{n}º',
+  'common.estimatedWait': 'Espera estimada',
+  'common.approxMinutes': '~{minutes} min',
+  'common.cancel': 'Cancelar',
+  'common.loading': 'Cargando...',
+  'common.language': 'Idioma',
+
+  'schedule.closed': 'Cerrado',
+  'schedule.dayClosed': 'La jornada de hoy ya fue cerrada',
+  'schedule.outsideHours': 'Fuera del horario de atención',
+  'schedule.reopensToday': 'Fuera del horario de atención. Abrimos hoy a las {time}',
+  'schedule.reopensOn': 'Fuera del horario de atención. Abrimos el {day} a las {time}',
+
+  'kiosk.welcome': 'Bienvenido',
+  'kiosk.chooseService': 'Seleccione el tipo de trámite para obtener su turno',
+  'kiosk.prefix': 'Prefijo: {prefix}',
+  'kiosk.todayHours': 'Horario de hoy: {hours}',
+  'kiosk.haveAppointment': 'Tengo una cita',
+  'kiosk.enterCode': 'Ingrese el código de su cita',
+  'kiosk.confirmArrival': 'Confirmar llegada',
+  'kiosk.yourTicket': 'Su turno es',
+  'kiosk.waitForCall': 'Por favor, espere a ser llamado en la pantalla principal.',
+  'kiosk.serviceUnavailable': 'Este trámite ya no está disponible',
+  'kiosk.appointmentNotFound': 'No encontramos una cita con ese código',
+  'kiosk.appointmentCancelled': 'La cita fue cancelada',
+  'kiosk.appointmentCheckedIn': 'Esta cita ya fue registrada',
+  'kiosk.appointmentExpired': 'La cita venció. Solicite un turno en el kiosco',
+  'kiosk.appointmentTooEarly': 'Su cita es el {date} a las {time}. Puede registrarse desde las {opens}',
+
+  'tv.title': 'Turnos en Atención',
+  'tv.subtitle': 'Por favor, esté atento a su llamado',
+  'tv.calling': 'Llamando...',
+  'tv.callCount': 'Llamado {count}',
+  'tv.idle': 'Esperando nuevos turnos',
+  'tv.recentCalls': 'Últimos llamados',
+  'tv.noRecentCalls': 'No hay historial reciente',
+  'tv.enableSound': 'Activar sonido',
+  'tv.announcement': 'Turno {ticket}, {counter}',
+  'tv.ticker': 'Bienvenidos a QueueMaster Pro • Por favor tome su ticket en el kiosco • Mantenga su distancia de seguridad • Gracias por su paciencia',
+
+  'tracker.title': 'Seguimiento de turno',
+  'tracker.offline': 'Sin conexión. Reconectando...',
+  'tracker.notFound': 'Turno no encontrado',
+  'tracker.notFoundHint': 'Verifique el código QR de su ticket o consulte a un asesor.',
+  'tracker.liveUpdates': 'Esta página se actualiza sola. Manténgala abierta para ver cuándo le llaman.',
+  'tracker.ahead': 'Antes que usted',
+  'tracker.next': 'Usted es el siguiente. Acérquese a la sala de espera.',
+  'tracker.willNotify': 'Le avisaremos aquí cuando sea su turno.',
+  'tracker.yourTurn': '¡Es su turno!',
+  'tracker.goTo': 'Diríjase a',
+  'tracker.calledAt': 'Llamado a las {time}',
+  'tracker.servingAt': 'En atención en',
+  'tracker.completed': 'Atención finalizada. ¡Gracias por su visita!',
+  'tracker.noShow': 'Su turno fue llamado y no se presentó. Acérquese a un asesor si aún desea ser atendido.',
+  'tracker.expired': 'La jornada terminó antes de que su turno fuera llamado. Disculpe las molestias; puede solicitar un nuevo turno en el próximo horario de atención.',
+
+  'survey.question': '¿Cómo fue su atención?',
+  'survey.stars': '{n} de 5',
+  'survey.reasonsPrompt': '¿Qué influyó en su calificación? (opcional)',
+  'survey.reason.wait': 'Tiempo de espera',
+  'survey.reason.staff': 'Amabilidad del asesor',
+  'survey.reason.resolution': 'Solución de mi trámite',
+  'survey.reason.information': 'Claridad de la información',
+  'survey.reason.facilities': 'Instalaciones',
+  'survey.submit': 'Enviar',
+  'survey.skip': 'Omitir',
+  'survey.thanks': '¡Gracias por su opinión!',
+  'survey.answered': 'Ya recibimos su calificación. ¡Gracias!',
+  'survey.error': 'No se pudo enviar su respuesta. Intente de nuevo.',
+  'survey.idle': 'Gracias por su visita',
+  'survey.idleHint': 'Al terminar su atención podrá calificarla aquí.',
+
+  'print.approxWait': 'Espera aprox.',
+
+  'role.admin': 'Administrador',
+  'role.supervisor': 'Supervisor',
+  'role.advisor': 'Asesor',
+  'role.kiosk': 'Kiosco',
+  'role.display': 'Pantalla TV',
+
+  'break.lunch': 'Almuerzo',
+  'break.training': 'Capacitación',
+  'break.backoffice': 'Back office',
+
+  'ticketEvent.issued': 'Emitido',
+  'ticketEvent.called': 'Llamado',
+  'ticketEvent.recalled': 'Vuelto a llamar',
+  'ticketEvent.started': 'Atención iniciada',
+  'ticketEvent.transferred': 'Transferido',
+  'ticketEvent.completed': 'Atendido',
+  'ticketEvent.noShow': 'No se presentó',
+  'ticketEvent.reinstated': 'Reincorporado',
+  'ticketEvent.expired': 'Vencido',
+  'ticketEvent.edited': 'Corregido',
+
+  'appointmentStatus.booked': 'Reservada',
+  'appointmentStatus.checkedIn': 'Presentada',
+  'appointmentStatus.late': 'Presentada tarde',
+  'appointmentStatus.missed': 'No asistió',
+  'appointmentStatus.cancelled': 'Cancelada',
+
+  'queuePolicy.strict': 'Prioridad estricta',
+  'queuePolicy.weighted': 'Round-robin ponderado',
+  'queuePolicy.aging': 'Envejecimiento (la espera suma prioridad)',
+
+  'weekday.monday': 'Lunes',
+  'weekday.tuesday': 'Martes',
+  'weekday.wednesday': 'Miércoles',
+  'weekday.thursday': 'Jueves',
+  'weekday.friday': 'Viernes',
+  'weekday.saturday': 'Sábado',
+  'weekday.sunday': 'Domingo',
+  'weekday.short.monday': 'Lun',
+  'weekday.short.tuesday': 'Mar',
+  'weekday.short.wednesday': 'Mié',
+  'weekday.short.thursday': 'Jue',
+  'weekday.short.friday': 'Vie',
+  'weekday.short.saturday': 'Sáb',
+  'weekday.short.sunday': 'Dom',
+
+  'nav.kiosk': 'Kiosco',
+  'nav.advisor': 'Asesor',
+  'nav.supervisor': 'Supervisión',
+  'nav.appointments': 'Citas',
+  'nav.tv': 'TV',
+  'nav.survey': 'Encuesta',
+  'nav.analytics': 'Analytics',
+  'nav.admin': 'Admin',
+  'nav.logout': 'Salir',
+  'nav.signedInAs': '{name} ({role}) · Cerrar sesión',
+
+  'app.unreachable': 'No se pudo conectar con el servidor. Reintentando...',
+  'app.offline': 'Sin conexión con el servidor. Reconectando...',
+  'app.branch': 'Sucursal',
+  'app.displayProfileNotFound': 'Perfil de pantalla no encontrado en esta sucursal',
+  'app.confirmCancelAppointment': '¿Cancelar esta cita?',
+  'app.confirmClearHistory': '¿Estás seguro de borrar el historial de esta sucursal?',
+  'app.legacyImport': 'Este navegador guarda datos de la versión anterior (categorías, ventanillas e historial de turnos). ¿Importarlos al servidor? La configuración actual se reemplazará.',
+  'app.legacyDiscard': '¿Descartar los datos de la versión anterior? No se volverá a preguntar.',
+  'app.legacyInvalid': 'Los datos de la versión anterior no son un JSON válido',
+
+  'login.prompt': 'Inicie sesión para continuar',
+  'login.username': 'Usuario',
+  'login.password': 'Contraseña',
+  'login.submit': 'Entrar',
+
+  'counterStatus.idle': 'Disponible',
+  'counterStatus.busy': 'En atención',
+  'counterStatus.away': 'En pausa',
+  'counter.allCategories': 'Todas las categorías',
+  'counter.onBreak': 'En pausa: {reason}',
+
+  'sla.breached': 'fuera de meta',
+  'sla.atRisk': 'por vencer',
+  'sla.minutes': '{minutes} min',
+  'category.priority': 'Prioridad',
+  'category.priorityLevel': 'Prioridad {level}',
+  'category.translationPlaceholder': 'Nombre para clientes ({language})',
+
+  'advisor.title': 'Panel del Asesor',
+  'advisor.subtitle': 'Gestione la atención de clientes en su ventanilla',
+  'advisor.waiting': 'En espera',
+  'advisor.signedIn': 'En sesión: {name}',
+  'advisor.otherUser': 'otro usuario',
+  'advisor.clickToSignIn': 'Haga clic para iniciar sesión',
+  'advisor.clickToOpen': 'Haga clic para abrir',
+  'advisor.changeCounter': 'Cambiar Ventanilla',
+  'advisor.nowServing': 'Atendiendo ahora',
+  'advisor.start': 'Iniciar Atención',
+  'advisor.recall': 'Volver a llamar',
+  'advisor.complete': 'Finalizar Turno',
+  'advisor.noShow': 'No se presentó',
+  'advisor.transfer': 'Transferir',
+  'advisor.transferToCategory': 'Transferir a categoría',
+  'advisor.transferToCounter': 'Transferir a ventanilla',
+  'advisor.breakSince': 'Desde las {time}. La ventanilla no recibe turnos hasta que reanude.',
+  'advisor.resume': 'Reanudar Atención',
+  'advisor.free': 'Ventanilla Libre',
+  'advisor.callHint': 'Presione el botón para llamar al siguiente cliente',
+  'advisor.callNext': 'Llamar Siguiente',
+  'advisor.takeBreak': 'Tomar pausa',
+  'advisor.upNext': 'Próximos en espera',
+  'advisor.appointmentAt': 'Cita {time}',
+  'advisor.noWaiting': 'No hay turnos pendientes',
+  'advisor.recentNoShows': 'No presentados recientes',
+  'advisor.reinstateHint': 'Pueden reincorporarse a la fila durante {minutes} min.',
+  'advisor.reinstate': 'Reincorporar',
+
+  'common.deletedUser': 'Usuario eliminado',
+
+  'survey.setupTitle': 'Encuesta de satisfacción',
+  'survey.pickCounter': 'Elija la ventanilla junto a la que queda esta tableta.',
+  'survey.counterNotFound': 'La ventanilla de esta dirección no existe en la sucursal. Elija otra.',
+
+  'supervisor.title': 'Supervisión en Vivo',
+  'supervisor.subtitle': 'Nivel de servicio de la jornada. Meta: {percent}% de clientes llamados dentro de la espera máxima.',
+  'supervisor.alerts': 'Alertas de Nivel de Servicio',
+  'supervisor.noAlerts': 'Sin alertas: todos los turnos están dentro de la meta.',
+  'supervisor.waitingFor': 'Esperando a {counter}',
+  'supervisor.servingAt': 'En atención en {counter}',
+  'supervisor.queues': 'Filas por Trámite',
+  'supervisor.service': 'Trámite',
+  'supervisor.target': 'Meta',
+  'supervisor.longestWait': 'Espera más larga',
+  'supervisor.atRisk': 'Por vencer',
+  'supervisor.breached': 'Fuera de meta',
+  'supervisor.complianceToday': 'Cumplimiento hoy',
+  'supervisor.counters': 'Ventanillas',
+  'supervisor.noAdvisor': 'Sin asesor',
+  'supervisor.calling': 'Llamando',
+
+  'audit.title': 'Historial de Turnos',
+  'audit.searchPlaceholder': 'Turno, ej. G004',
+  'audit.search': 'Buscar',
+  'audit.notFound': 'No se encontró el turno {id}',
+  'audit.system': 'Sistema',
+  'audit.recent': 'Actividad reciente',
+  'audit.noActivity': 'Todavía no hay actividad en esta sucursal.',
+  'audit.timeline': 'Línea de tiempo',
+  'audit.timelineOf': 'Línea de tiempo de {id}',
+  'audit.selectHint': 'Seleccione un turno para ver todo su recorrido.',
+  'audit.undid': 'deshizo {event}',
+  'audit.confirmUndo': '¿Deshacer "{event}" en el turno {id}?',
+  'audit.undo': 'Deshacer',
+
+  'appointments.title': 'Citas',
+  'appointments.subtitle': 'Turnos de {minutes} min con {capacity} cita(s) cada uno. El cliente confirma su llegada en el kiosco con el código de la reserva.',
+  'appointments.closedDay': 'No hay atención ese día.',
+  'appointments.customerName': 'Nombre del cliente',
+  'appointments.pickSlot': 'Elija un horario',
+  'appointments.book': 'Reservar {time}',
+  'appointments.agenda': 'Agenda del {date}',
+  'appointments.none': 'Sin citas reservadas.',
+  'appointments.time': 'Hora',
+  'appointments.code': 'Código',
+  'appointments.customer': 'Cliente',
+  'appointments.status': 'Estado',
+
+  'common.add': 'Añadir',
+
+  'admin.title': 'Configuración del Sistema',
+  'admin.subtitle': 'Administre sucursales, categorías, ventanillas y datos del sistema',
+  'admin.categories': 'Categorías de Trámites',
+  'admin.categoryNamePlaceholder': 'Nombre (ej. Caja)',
+  'admin.prefixPlaceholder': 'Prefijo (ej. C)',
+  'admin.newCategoryTargets': 'Metas de servicio de la nueva categoría:',
+  'admin.maxWait': 'espera máx.',
+  'admin.maxService': 'atención máx.',
+  'admin.countersHint': 'Añada, renombre o elimine ventanillas y seleccione qué categorías puede atender cada una.',
+  'admin.counterNamePlaceholder': 'Nombre (ej. Ventanilla 4)',
+  'admin.counterBusy': 'La ventanilla tiene un turno en curso',
+  'admin.confirmRemove': '¿Eliminar {name}? Su historial se conserva en Analytics.',
+  'admin.queuePolicy': 'Política de Atención',
+  'admin.queuePolicyHint': 'Define cómo se elige el siguiente turno a partir de la prioridad de cada categoría.',
+  'admin.agingMinutes': 'minutos de espera = +1 nivel de prioridad',
+  'admin.noShowGrace': 'minutos de gracia para reincorporar un no presentado',
+  'admin.slaTarget': '% de clientes llamados dentro de la espera máxima (meta de nivel de servicio)',
+  'admin.data': 'Gestión de Datos',
+  'admin.dataHint': 'Borra los turnos, pausas y citas pasadas de esta sucursal y reinicia su numeración y su jornada. La configuración se conserva.',
+  'admin.clearHistory': 'Borrar el historial de la sucursal',
+
+  'common.all': 'Todos',
+
+  'branches.title': 'Sucursales',
+  'branches.hint': 'Cada sucursal tiene sus propias categorías, ventanillas, turnos y numeración. Las categorías y ventanillas de abajo son las de {name}. Una sucursal nueva puede partir de las categorías de otra.',
+  'branches.namePlaceholder': 'Nombre (ej. Sucursal Norte)',
+  'branches.noCategories': 'Sin categorías',
+  'branches.categoriesOf': 'Categorías de {name}',
+  'branches.counts': '{categories} categorías · {counters} ventanillas',
+  'branches.removeFirst': 'Elimine primero sus categorías y ventanillas',
+  'branches.confirmCopy': '¿Copiar las categorías de {from} a {to}? Se omiten los prefijos que ya existen.',
+  'branches.copyInto': 'Copiar a {name} las categorías de',
+  'branches.pick': 'Seleccione una sucursal…',
+
+  'users.title': 'Usuarios y Roles',
+  'users.hint': 'Los asesores inician sesión en una ventanilla y cada acción sobre un turno queda registrada a su nombre. Kioscos y pantallas usan su propio usuario y no muestran navegación. Asesores, kioscos y pantallas trabajan en una sola sucursal.',
+  'users.name': 'Nombre',
+  'users.allBranches': 'Todas las sucursales',
+  'users.create': 'Crear',
+  'users.you': '(usted)',
+  'users.newPassword': 'Nueva contraseña para {name} (mínimo 6 caracteres):',
+  'users.changePassword': 'Cambiar contraseña',
+  'users.active': 'Activo',
+
+  'backup.title': 'Exportar e Importar',
+  'backup.hint': 'Descargue los turnos para analizarlos en Excel, respalde la configuración del sistema o descargue una copia completa de la base de datos.',
+  'backup.from': 'Desde (opcional)',
+  'backup.to': 'Hasta (opcional)',
+  'backup.exportCsv': 'Exportar turnos CSV',
+  'backup.exportJson': 'Exportar turnos JSON',
+  'backup.exportConfig': 'Respaldar configuración',
+  'backup.restoreConfig': 'Restaurar configuración',
+  'backup.downloadDatabase': 'Descargar base de datos',
+  'backup.confirmRestore': '¿Restaurar {categories} categorías y {counters} ventanillas? La configuración actual se reemplazará.',
+  'backup.invalidJson': 'El archivo no es un JSON válido',
+
+  'simulator.title': 'Simulador de Filas',
+  'simulator.hint': 'Simula llegadas con las tasas por hora indicadas y las atiende con las ventanillas de la sucursal seleccionada, el horario y la política de atención configurados. La misma semilla produce siempre los mismos resultados.',
+  'simulator.hourlyArrivals': 'Llegadas por hora (días hábiles)',
+  'simulator.weekendFactor': 'factor de fin de semana',
+  'simulator.serviceMinutes': 'min de atención media',
+  'simulator.noShowRate': '% de ausentes',
+  'simulator.days': 'días',
+  'simulator.seed': 'semilla',
+  'simulator.generate': 'Generar historial simulado',
+  'simulator.confirmGenerate': '¿Generar {days} días de historial simulado con la configuración actual? Los turnos reales se conservan.',
+  'simulator.whatIf': '¿Y si abrimos',
+  'simulator.moreCounters': 'ventanilla(s) más que las {count} actuales?',
+  'simulator.running': 'Simulando...',
+  'simulator.run': 'Simular escenario',
+  'simulator.result': 'Resultado simulado',
+  'simulator.baseline': 'Configuración actual',
+  'simulator.scenario': 'Escenario',
+  'simulator.averageWait': 'T. medio de espera',
+  'simulator.calledInTarget': 'Llamados dentro de la espera máxima',
+  'simulator.expired': 'Vencidos al cierre',
+  'simulator.utilization': 'Ocupación de ventanillas',
+
+  'common.close': 'Cerrar',
+  'common.edit': 'Editar',
+  'common.save': 'Guardar',
+  'common.to': 'a',
+
+  'announcements.title': 'Anuncios de Voz',
+  'announcements.enabled': 'Activados',
+  'announcements.hint': 'La pantalla de TV reproduce un timbre y anuncia cada llamado en español y en inglés, por ejemplo "Turno G 12, Ventanilla 3" y "Ticket G 12, Counter 3". El idioma y la voz elegidos se usan para su idioma.',
+  'announcements.voice': 'Voz',
+  'announcements.defaultVoice': 'Predeterminada del navegador',
+  'announcements.volume': 'Volumen ({percent}%)',
+  'announcements.repeat': 'Repeticiones por llamado',
+  'announcements.chime': 'Timbre antes del mensaje',
+  'announcements.test': 'Probar anuncio',
+
+  'displays.title': 'Pantallas de TV',
+  'displays.hint': 'Cada perfil define qué trámites y ventanillas muestra una pantalla, sus mensajes, colores, logo y medios. Abra la dirección del perfil en el navegador de la TV; sin perfil, la pantalla muestra toda la sucursal.',
+  'displays.namePlaceholder': 'Nombre (ej. Pantalla Caja)',
+  'displays.confirmRemove': '¿Eliminar el perfil {name}? Las pantallas que lo usan dejarán de mostrar turnos.',
+  'displays.none': 'Esta sucursal aún no tiene perfiles de pantalla.',
+  'displays.historyRows': 'Filas de últimos llamados',
+  'displays.categories': 'Trámites',
+  'displays.allCategories': 'Trámites (todos)',
+  'displays.allCounters': 'Ventanillas (todas)',
+  'displays.ticker': 'Mensajes del ticker (sin mensajes vigentes se muestra el texto predeterminado)',
+  'displays.addMessage': 'Añadir mensaje',
+  'displays.background': 'Fondo',
+  'displays.accent': 'Color de acento',
+  'displays.logo': 'Logo (dirección de la imagen)',
+  'displays.logoPlaceholder': 'https://… o /logo.png',
+  'displays.media': 'Imágenes o videos (una dirección por línea; vacío oculta el área de medios)',
+  'displays.slideSeconds': 'Segundos por diapositiva',
+
+  'schedule.title': 'Horario y Jornada',
+  'schedule.enforceHours': 'Emitir turnos solo en horario',
+  'schedule.hint': 'Cada sucursal abre y cierra su propia jornada, y la numeración de sus trámites vuelve a 1 al comenzar cada día. Al cierre, los turnos que sigan en espera o en llamado quedan como vencidos.',
+  'schedule.closedAt': 'Jornada cerrada a las {time}',
+  'schedule.open': 'Jornada abierta',
+  'schedule.notStarted': 'La jornada de hoy aún no comenzó',
+  'schedule.today': 'Hoy: {hours}',
+  'schedule.reopen': 'Reabrir jornada',
+  'schedule.close': 'Cerrar jornada',
+  'schedule.confirmClose': '¿Cerrar la jornada? Los kioscos de esta sucursal dejarán de emitir turnos hasta mañana.',
+  'schedule.confirmCloseExpiring': '¿Cerrar la jornada? {count} turno(s) en espera o en llamado quedarán vencidos y los kioscos de esta sucursal dejarán de emitir turnos hasta mañana.',
+  'schedule.holidays': 'Feriados',
+  'schedule.noHolidays': 'Sin feriados configurados.',
+  'schedule.save': 'Guardar horario',
+
+  'appointmentSettings.hint': 'Quien llega dentro de la tolerancia se llama cerca de su horario; quien llega tarde pasa a la fila como un turno más.',
+  'appointmentSettings.slotMinutes': 'min por turno de cita',
+  'appointmentSettings.slotCapacity': 'citas por turno',
+  'appointmentSettings.earlyCheckIn': 'min de anticipación para registrarse',
+  'appointmentSettings.lateTolerance': 'min de tolerancia antes de contar como tarde',
+  'appointmentSettings.missedAfter': 'min tras el horario para darla por perdida',
+  'appointmentSettings.save': 'Guardar citas',
+
+  'printing.title': 'Impresión de Tickets',
+  'printing.enabled': 'Imprimir al emitir',
+  'printing.printer': 'Impresora',
+  'printing.browser': 'Navegador del kiosco (HTML)',
+  'printing.network': 'Térmica en red (ESC/POS)',
+  'printing.file': 'Archivo en el servidor (pruebas)',
+  'printing.host': 'Dirección IP',
+  'printing.port': 'Puerto',
+  'printing.branchName': 'Nombre de la sucursal',
+  'printing.header': 'Encabezado',
+  'printing.footer': 'Pie de página',
+  'printing.showEstimate': 'Posición y espera estimada',
+  'printing.showQr': 'Código QR',
+  'printing.saveFirst': 'Guarde los cambios antes de imprimir',
+  'printing.test': 'Imprimir prueba',
+  'printing.testSent': 'Ticket de prueba enviado a {destination}',
+  'printing.preview': 'Vista previa del ticket',
+
+  'trend.noPrevious': 'Sin datos previos',
+  'trend.stable': 'Estable',
+  'trend.change': '{change}% vs periodo ant.',
+
+  'analytics.title': 'Analytics & KPIs',
+  'analytics.subtitle': 'Monitoreo de desempeño y flujo de atención',
+  'analytics.headOffice': 'Casa matriz',
+  'analytics.from': 'Desde',
+  'analytics.to': 'Hasta',
+  'analytics.days': '{days} días',
+  'analytics.allCounters': 'Todas',
+  'analytics.volume': 'Volumen de Turnos ({from} – {to})',
+  'analytics.tickets': 'Turnos',
+  'analytics.byCategory': 'Distribución por Trámite',
+
+  'kpi.tme': 'T. Medio Espera',
+  'kpi.tma': 'T. Medio Atención',
+  'kpi.total': 'Total Turnos',
+  'kpi.abandonment': 'Tasa Abandono',
+  'kpi.transfers': 'Transferencias',
+  'kpi.transferTrend': '{rate}% turnos · tramo {minutes} min',
+
+  'staffing.title': 'Plan de Dotación',
+  'staffing.hint': 'Llegadas previstas por hora según el mismo día de las últimas {weeks} semanas ({days} con datos) y ventanillas necesarias (Erlang C) para llamar al {percent}% de los clientes dentro de la espera objetivo. Atención media: {minutes} min.',
+  'staffing.targetWait': 'espera objetivo',
+  'staffing.noHistory': 'Sin historial de ese día de la semana para pronosticar.',
+  'staffing.configured': 'Ventanillas configuradas',
+  'staffing.needed': 'Ventanillas necesarias',
+  'staffing.arrivals': 'Llegadas previstas',
+
+  'compliance.title': 'Cumplimiento del Nivel de Servicio',
+  'compliance.hint': 'Porcentaje de clientes llamados dentro de la espera máxima y de atenciones dentro de la duración máxima de su trámite. Meta: {percent}%.',
+  'compliance.wait': 'Espera',
+  'compliance.service': 'Atención',
+  'compliance.targets': 'Metas',
+  'compliance.measured': 'Turnos medidos',
+
+  'heatmap.title': 'Mapa de Calor por Día y Hora',
+  'heatmap.arrivals': 'Llegadas',
+  'heatmap.wait': 'Espera media',
+
+  'byAdvisor.title': 'Desempeño por Asesor',
+  'byAdvisor.none': 'No hay atenciones registradas a nombre de un asesor en este periodo.',
+  'byAdvisor.advisor': 'Asesor',
+  'byAdvisor.served': 'Atendidos',
+  'byAdvisor.avgService': 'Atención media',
+  'byAdvisor.noShows': 'No presentados',
+
+  'breaks.title': 'Pausas',
+  'breaks.count': '{count} pausas',
+  'breaks.timeAway': 'Tiempo fuera',
+
+  'appointmentStats.total': '{count} reservadas en el período',
+  'appointmentStats.rate': '{percent}% de las citas vencidas',
+
+  'csat.title': 'Satisfacción (CSAT)',
+  'csat.hint': 'Encuestas respondidas en la ventanilla o desde el QR del turno. El CSAT es el porcentaje de respuestas con 4 o 5 estrellas.',
+  'csat.responses': 'Respuestas',
+  'csat.average': 'Promedio',
+  'csat.responseRate': 'Tasa de respuesta',
+  'csat.none': 'No hay encuestas respondidas para los turnos de este período.',
+  'csat.daily': 'CSAT diario',
+  'csat.byWait': 'CSAT según la espera',
+  'csat.notEnough': 'Faltan respuestas para medir la relación entre la espera y la calificación.',
+  'csat.correlation': 'Correlación entre espera y estrellas: {value} ({meaning}).',
+  'csat.waitHurts': 'las esperas largas bajan la calificación',
+  'csat.waitUnrelated': 'la espera no explica la calificación',
+  'csat.reason': 'Motivo',
+  'csat.mentions': 'Menciones',
+
+  'insights.title': 'Análisis Automático',
+  'insights.hint': 'Resumen escrito de tendencias, anomalías y dotación a partir de los indicadores filtrados.',
+  'insights.loading': 'Analizando...',
+  'insights.regenerate': 'Volver a generar',
+  'insights.generate': 'Generar análisis',
+  'insights.empty': 'No hay turnos en el período seleccionado.',
+  'insights.local': 'Generado localmente con reglas fijas',
+  'insights.generatedWith': 'Generado con {provider}',
+  'insights.checkFigures': 'Revise las cifras antes de tomar decisiones.',
+
+  'comparison.title': 'Comparativo de Sucursales',
+  'comparison.hint': 'Mismo período para todas las sucursales. Meta de nivel de servicio: {percent}%.',
+  'comparison.abandonment': 'Abandono',
+  'comparison.withinWait': 'En meta de espera',
+
+  'heatmap.cell': '{day} {hour}:00 · {arrivals} llegadas/día · espera {wait} min',
+};
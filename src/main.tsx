@@ -1,10 +1,14 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import TicketTracker from './TicketTracker.tsx';
+import {trackedTicketId} from './utils/ticketTracking';
 import './index.css';
 
+const ticketId = trackedTicketId(window.location.pathname);
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {ticketId ? <TicketTracker ticketId={ticketId} /> : <App />}
   </StrictMode>,
 );
@@ -1,22 +1,63 @@
 
-export type TicketStatus = 'waiting' | 'calling' | 'serving' | 'completed' | 'no-show';
+// 'expired': still waiting or being called when the business day was closed.
+export type TicketStatus = 'waiting' | 'calling' | 'serving' | 'completed' | 'no-show' | 'expired';
+
+// Languages of the customer-facing screens (kiosk, TV, ticket tracker, printed tickets).
+export type Locale = 'es' | 'en';
+
+// One office. Categories, counters and tickets each belong to exactly one branch.
+export interface Branch {
+  id: string;
+  name: string;
+}
 
 export interface Category {
   id: string;
+  branchId: string;
   name: string;
   prefix: string;
   color: string;
+  // Priority level (1 = normal); also the share weight under weighted round-robin.
+  priority: number;
+  // Service-level targets: first call within maxWaitMinutes of arrival, each service within maxServiceMinutes.
+  maxWaitMinutes: number;
+  maxServiceMinutes: number;
+  // Name shown to customers in other languages; `name` is used where one is missing.
+  translations?: Partial<Record<Locale, string>>;
 }
 
 export interface Counter {
   id: number;
+  branchId: string;
   name: string;
   currentTicketId?: string;
   status: 'idle' | 'busy' | 'away';
+  // Categories this counter may call; empty means it serves every category of its branch.
+  categoryIds: string[];
+  // Advisor currently signed in at this counter.
+  userId?: string;
+  // While 'away': why, and since when. No tickets are called at a counter on a break.
+  awayReason?: BreakReason;
+  awaySince?: number;
+}
+
+export type BreakReason = 'lunch' | 'training' | 'backoffice';
+
+// One stretch of time a counter spent away; open while endedAt is missing.
+export interface CounterBreak {
+  id: string;
+  counterId: number;
+  // Advisor signed in at the counter when the break started.
+  userId?: string;
+  reason: BreakReason;
+  startedAt: number;
+  endedAt?: number;
 }
 
 export interface Ticket {
   id: string;
+  // Kept on the ticket so the history survives the category being removed.
+  branchId: string;
   displayId: string;
   categoryId: string;
   status: TicketStatus;
@@ -25,11 +66,295 @@ export interface Ticket {
   startedAt?: number;
   completedAt?: number;
   counterId?: number;
+  // Set when the ticket was transferred to a specific counter; only that counter may call it.
+  targetCounterId?: number;
+  // Times the customer was announced again while 'calling', and when the latest re-call happened.
+  recallCount?: number;
+  recalledAt?: number;
+  // Previous legs, oldest first. The top-level call/start fields always describe the current leg.
+  transfers?: TicketTransfer[];
+  // Who performed each action, like the call fields, for the current leg.
+  actors?: TicketActors;
+  // Appointment this ticket was issued for at check-in.
+  appointmentId?: string;
+  // Slot time of that appointment; the ticket is called around it. Unset for late arrivals, who queue as walk-ins.
+  appointmentAt?: number;
+}
+
+// User ids per ticket action.
+export interface TicketActors {
+  issuedBy?: string;
+  calledBy?: string;
+  recalledBy?: string;
+  startedBy?: string;
+  completedBy?: string;
+  reinstatedBy?: string;
+  transferredBy?: string;
+}
+
+export interface TicketTransfer {
+  at: number;
+  fromCategoryId: string;
+  fromCounterId?: number;
+  calledAt?: number;
+  startedAt?: number;
+  toCategoryId: string;
+  toCounterId?: number;
+  // Actors of the leg that ended with this transfer, including who transferred it.
+  actors?: TicketActors;
+}
+
+// 'edited': a correction such as a supervisor's undo or a counter removal clearing the ticket's target.
+export type TicketEventType = 'issued' | 'called' | 'recalled' | 'started' | 'transferred' | 'completed' | 'no-show' | 'reinstated' | 'expired' | 'edited';
+
+// One entry of the append-only ticket log. Events are never changed; an undo adds an 'edited' event.
+export interface TicketEvent {
+  id: string;
+  ticketId: string;
+  branchId: string;
+  type: TicketEventType;
+  at: number;
+  counterId?: number;
+  // Missing for automatic changes such as the close of the day.
+  userId?: string;
+  // The ticket, and the counter it involved, right before and after the event.
+  ticketBefore?: Ticket;
+  ticketAfter: Ticket;
+  counterBefore?: Counter;
+  counterAfter?: Counter;
+  // Event reverted by this one, on undos.
+  undoes?: string;
+}
+
+// Topics a customer can point out along with their rating, whether it was good or bad.
+export type SurveyReason = 'wait' | 'staff' | 'resolution' | 'information' | 'facilities';
+
+// 'counter': the tablet at the counter that served them. 'qr': their phone, from the ticket's QR code.
+export type SurveyChannel = 'counter' | 'qr';
+
+// Satisfaction survey answered after a completed service; at most one per ticket.
+export interface SurveyResponse {
+  id: string;
+  ticketId: string;
+  branchId: string;
+  // Category and counter that finished the service, and the advisor who did.
+  categoryId: string;
+  counterId?: number;
+  userId?: string;
+  // 1 (very unhappy) to 5 (very happy).
+  rating: number;
+  reasons: SurveyReason[];
+  channel: SurveyChannel;
+  submittedAt: number;
+}
+
+// 'late': checked in after the tolerance past the slot. 'missed': never checked in.
+export type AppointmentStatus = 'booked' | 'checked-in' | 'late' | 'missed' | 'cancelled';
+
+export interface Appointment {
+  id: string;
+  // Short code the customer types at the kiosk to check in.
+  code: string;
+  categoryId: string;
+  scheduledAt: number;
+  customerName: string;
+  status: AppointmentStatus;
+  createdAt: number;
+  createdBy?: string;
+  checkedInAt?: number;
+  ticketId?: string;
+}
+
+// One ticker line, shown between `from` and `to` (inclusive 'yyyy-MM-dd' dates, open-ended when missing).
+export interface TickerMessage {
+  text: string;
+  from?: string;
+  to?: string;
+}
+
+// What one TV screen shows. Each screen opens its profile at /tv/<id>.
+export interface DisplayProfile {
+  id: string;
+  branchId: string;
+  name: string;
+  // Calls and waits shown on the screen; empty means every category or counter of the branch.
+  categoryIds: string[];
+  counterIds: number[];
+  // Falls back to the built-in ticker when no message is current.
+  tickerMessages: TickerMessage[];
+  // Past calls listed beside the current one.
+  historyRows: number;
+  backgroundColor: string;
+  accentColor: string;
+  logoUrl: string;
+  // Images or videos shown in turn; no media area when empty.
+  mediaUrls: string[];
+  slideSeconds: number;
+}
+
+export type Role = 'admin' | 'supervisor' | 'advisor' | 'kiosk' | 'display';
+
+export type AppView = 'kiosk' | 'advisor' | 'supervisor' | 'tv' | 'survey' | 'admin' | 'analytics' | 'appointments';
+
+export interface User {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+  // Branch whose screens this user works; required for kiosks, TVs and advisors. Admins and
+  // supervisors without one work across all branches.
+  branchId?: string;
+  // Inactive users cannot sign in but stay in the records they are attributed to.
+  active: boolean;
+}
+
+export interface Session {
+  user: User;
+  // Counter an advisor is signed in at.
+  counterId?: number;
+}
+
+export type QueuePolicy = 'strict' | 'weighted' | 'aging';
+
+export interface QueueSettings {
+  policy: QueuePolicy;
+  // Under 'aging', minutes of waiting that count as one extra priority level.
+  agingMinutesPerLevel: number;
+  // How long after a no-show the customer can still be put back in the queue.
+  noShowGraceMinutes: number;
+  // Share of customers, in percent, that must be called within their category's maximum wait.
+  slaTargetPercent: number;
+}
+
+export interface AnnouncementSettings {
+  enabled: boolean;
+  chime: boolean;
+  // 0 to 1, applied to both the chime and the voice.
+  volume: number;
+  lang: string;
+  // Empty string lets the browser pick its default voice for `lang`.
+  voiceURI: string;
+  // How many times each call is announced.
+  repeat: number;
+}
+
+export type PrinterTarget = 'browser' | 'network' | 'file';
+
+export interface PrintingSettings {
+  enabled: boolean;
+  // 'browser' prints the HTML ticket from the kiosk; 'network' and 'file' send ESC/POS from the server.
+  target: PrinterTarget;
+  host: string;
+  port: number;
+  // Template
+  branchName: string;
+  headerText: string;
+  footerText: string;
+  showEstimate: boolean;
+  showQr: boolean;
+}
+
+export interface AppointmentSettings {
+  slotMinutes: number;
+  // Appointments per category that can be booked in the same slot.
+  slotCapacity: number;
+  // How long before the slot the kiosk accepts the check-in.
+  earlyCheckInMinutes: number;
+  // Check-ins later than this after the slot count as late.
+  lateToleranceMinutes: number;
+  // Appointments not checked in this long after the slot are marked as missed.
+  missedAfterMinutes: number;
+}
+
+export interface AppSettings {
+  queue: QueueSettings;
+  announcements: AnnouncementSettings;
+  printing: PrintingSettings;
+  schedule: ScheduleSettings;
+  appointments: AppointmentSettings;
+}
+
+// Local times as 'HH:mm'; the branch is open from `open` until just before `close`.
+export interface OpeningHours {
+  open: string;
+  close: string;
+}
+
+export interface ScheduleSettings {
+  // When off, the kiosk issues tickets at any hour and the day is only closed by hand.
+  enforceHours: boolean;
+  // Monday first; null means closed all day.
+  week: (OpeningHours | null)[];
+  // Closed dates as 'yyyy-MM-dd'.
+  holidays: string[];
+}
+
+// One calendar day of operation of a branch. Ticket numbering restarts with each new day.
+export interface BusinessDay {
+  branchId: string;
+  date: string;
+  openedAt: number;
+  closedAt?: number;
 }
 
 export interface AppState {
+  branches: Branch[];
   categories: Category[];
   counters: Counter[];
+  displayProfiles: DisplayProfile[];
   tickets: Ticket[];
   nextTicketNumber: Record<string, number>;
+  settings: AppSettings;
+  // Latest business day of each branch, possibly an earlier date where none has started today.
+  businessDays: BusinessDay[];
+  users: User[];
+  counterBreaks: CounterBreak[];
+  appointments: Appointment[];
+  surveyResponses: SurveyResponse[];
 }
+
+// Partial update returned by the server after an action; lists are upserts keyed by id.
+export interface StatePatch {
+  branches?: Branch[];
+  removedBranchIds?: string[];
+  categories?: Category[];
+  removedCategoryIds?: string[];
+  counters?: Counter[];
+  removedCounterIds?: number[];
+  displayProfiles?: DisplayProfile[];
+  removedDisplayProfileIds?: string[];
+  tickets?: Ticket[];
+  nextTicketNumber?: Record<string, number>;
+  settings?: AppSettings;
+  // Replace the branch's latest day.
+  businessDays?: BusinessDay[];
+  users?: User[];
+  counterBreaks?: CounterBreak[];
+  appointments?: Appointment[];
+  surveyResponses?: SurveyResponse[];
+}
+
+// Message pushed by the server over the /api/events stream.
+export type SyncMessage =
+  | { type: 'patch'; patch: StatePatch }
+  | { type: 'resync' };
+
+// Public view of one ticket for the customer's phone. Only aggregate figures about the rest of the queue.
+export interface TicketTracking {
+  displayId: string;
+  categoryName: string;
+  categoryTranslations?: Category['translations'];
+  categoryColor: string;
+  status: TicketStatus;
+  // While waiting: tickets that will be called first and the expected wait.
+  ahead?: number;
+  estimatedMinutes?: number;
+  // While calling or serving: where to go.
+  counterName?: string;
+  calledAt?: number;
+  // Once completed: whether the satisfaction survey can still be answered.
+  survey?: 'open' | 'answered';
+}
+
+// Message pushed over /api/public/tickets/:id/events; null once the ticket no longer exists.
+export type TicketTrackingMessage = { ticket: TicketTracking | null };
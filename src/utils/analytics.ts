@@ -0,0 +1,211 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { BreakReason, Category, CounterBreak, Locale, Ticket, User } from '../types';
+import { DEFAULT_LOCALE, translator } from './i18n';
+import { weekdayIndex } from './schedule';
+import { firstCalledAt, legServiceTime, ticketLegs } from './ticketLegs';
+
+export interface AnalyticsFilters {
+  from: number;
+  // Exclusive end of the range.
+  to: number;
+  categoryId: string | 'all';
+  counterId: number | 'all';
+}
+
+export interface Kpis {
+  tme: number;
+  tma: number;
+  total: number;
+  abandonmentRate: number;
+  transferCount: number;
+  transferRate: number;
+  avgLeg: number;
+}
+
+export interface HeatmapCell {
+  // 0 = Monday ... 6 = Sunday
+  day: number;
+  hour: number;
+  // Average arrivals per occurrence of that weekday in the range.
+  arrivals: number;
+  // Average minutes until first call, undefined when nobody was called.
+  avgWait?: number;
+}
+
+const minutes = (ms: number) => Math.round(ms / 60000);
+
+export function filterTickets(tickets: Ticket[], filters: AnalyticsFilters): Ticket[] {
+  return tickets.filter(t =>
+    t.createdAt >= filters.from
+    && t.createdAt < filters.to
+    && (filters.categoryId === 'all' || t.categoryId === filters.categoryId)
+    && (filters.counterId === 'all' || ticketLegs(t).some(leg => leg.counterId === filters.counterId))
+  );
+}
+
+export function computeKpis(tickets: Ticket[]): Kpis {
+  const completed = tickets.filter(t => t.status === 'completed');
+  const noShows = tickets.filter(t => t.status === 'no-show');
+
+  const tme = completed.reduce((acc, t) => acc + ((firstCalledAt(t) || 0) - t.createdAt), 0) / (completed.length || 1);
+  const tma = completed.reduce((acc, t) => acc + ticketLegs(t).reduce((sum, leg) => sum + legServiceTime(leg), 0), 0) / (completed.length || 1);
+
+  // Transfers: each hand-off closes one leg of service
+  const transferred = tickets.filter(t => t.transfers?.length);
+  const transferCount = transferred.reduce((acc, t) => acc + t.transfers!.length, 0);
+  const transferredLegs = transferred.flatMap(t => ticketLegs(t)).filter(leg => leg.endedAt !== undefined);
+  const avgLeg = transferredLegs.reduce((acc, leg) => acc + legServiceTime(leg), 0) / (transferredLegs.length || 1);
+
+  return {
+    tme: minutes(tme),
+    tma: minutes(tma),
+    total: tickets.length,
+    abandonmentRate: Math.round((noShows.length / (tickets.length || 1)) * 100),
+    transferCount,
+    transferRate: Math.round((transferred.length / (tickets.length || 1)) * 100),
+    avgLeg: minutes(avgLeg),
+  };
+}
+
+// Days covered by [from, to), as local midnights.
+export function daysInRange(from: number, to: number): Date[] {
+  const days: Date[] = [];
+  for (let d = startOfDay(from); d.getTime() < to; d = addDays(d, 1)) days.push(d);
+  return days;
+}
+
+export function dailyVolume(tickets: Ticket[], from: number, to: number) {
+  const counts: Record<string, number> = {};
+  tickets.forEach(t => {
+    const key = format(t.createdAt, 'yyyy-MM-dd');
+    counts[key] = (counts[key] || 0) + 1;
+  });
+  return daysInRange(from, to).map(d => ({ date: format(d, 'dd/MM'), count: counts[format(d, 'yyyy-MM-dd')] || 0 }));
+}
+
+export function categoryDistribution(tickets: Ticket[], categories: Category[]) {
+  return categories.map(cat => ({
+    name: cat.name,
+    value: tickets.filter(t => t.categoryId === cat.id).length,
+    color: cat.color,
+  }));
+}
+
+export function buildHeatmap(tickets: Ticket[], from: number, to: number): HeatmapCell[] {
+  const occurrences = Array(7).fill(0);
+  daysInRange(from, to).forEach(d => occurrences[weekdayIndex(d.getTime())]++);
+
+  const arrivals = Array.from({ length: 7 }, () => Array(24).fill(0));
+  const waitSum = Array.from({ length: 7 }, () => Array(24).fill(0));
+  const waitCount = Array.from({ length: 7 }, () => Array(24).fill(0));
+
+  tickets.forEach(t => {
+    const day = weekdayIndex(t.createdAt);
+    const hour = new Date(t.createdAt).getHours();
+    arrivals[day][hour]++;
+    const calledAt = firstCalledAt(t);
+    if (calledAt !== undefined) {
+      waitSum[day][hour] += calledAt - t.createdAt;
+      waitCount[day][hour]++;
+    }
+  });
+
+  return arrivals.flatMap((hours, day) => hours.map((count, hour) => ({
+    day,
+    hour,
+    arrivals: occurrences[day] ? count / occurrences[day] : 0,
+    avgWait: waitCount[day][hour] ? minutes(waitSum[day][hour] / waitCount[day][hour]) : undefined,
+  })));
+}
+
+export interface UserPerformance {
+  userId: string;
+  name: string;
+  served: number;
+  avgService: number;
+  noShows: number;
+}
+
+// Per-advisor service, counted per leg so both sides of a transfer get credit for their part.
+export function serviceByUser(tickets: Ticket[], users: User[], locale: Locale = DEFAULT_LOCALE): UserPerformance[] {
+  const rows = new Map<string, { served: number; serviceSum: number; noShows: number }>();
+  tickets.forEach(t => {
+    const legs = ticketLegs(t);
+    legs.forEach((leg, i) => {
+      const last = i === legs.length - 1;
+      // Calls cut short by the end-of-day close were never served
+      if (!leg.userId || leg.endedAt === undefined || (last && t.status === 'expired')) return;
+      const row = rows.get(leg.userId) ?? { served: 0, serviceSum: 0, noShows: 0 };
+      if (last && t.status === 'no-show') row.noShows++;
+      else {
+        row.served++;
+        row.serviceSum += legServiceTime(leg);
+      }
+      rows.set(leg.userId, row);
+    });
+  });
+
+  return [...rows.entries()]
+    .map(([userId, row]) => ({
+      userId,
+      name: users.find(u => u.id === userId)?.name ?? translator(locale)('common.deletedUser'),
+      served: row.served,
+      avgService: row.served ? minutes(row.serviceSum / row.served) : 0,
+      noShows: row.noShows,
+    }))
+    .sort((a, b) => b.served - a.served);
+}
+
+export interface BreakTotals {
+  count: number;
+  minutes: number;
+}
+
+export interface BreakSummary {
+  byReason: Record<BreakReason, BreakTotals>;
+  byUser: (BreakTotals & { userId?: string; name: string })[];
+}
+
+// Time counters spent away within the range (and at the filtered counter), clipped to the range;
+// breaks still running count up to `now`.
+export function breakSummary(breaks: CounterBreak[], users: User[], filters: AnalyticsFilters, locale: Locale = DEFAULT_LOCALE, now = Date.now()): BreakSummary {
+  const t = translator(locale);
+  const byReason: Record<BreakReason, BreakTotals> = {
+    lunch: { count: 0, minutes: 0 },
+    training: { count: 0, minutes: 0 },
+    backoffice: { count: 0, minutes: 0 },
+  };
+  const byUser = new Map<string | undefined, BreakTotals>();
+
+  breaks.forEach(b => {
+    if (filters.counterId !== 'all' && b.counterId !== filters.counterId) return;
+    const ms = Math.min(b.endedAt ?? now, filters.to) - Math.max(b.startedAt, filters.from);
+    if (ms <= 0) return;
+    byReason[b.reason].count++;
+    byReason[b.reason].minutes += ms;
+    const row = byUser.get(b.userId) ?? { count: 0, minutes: 0 };
+    byUser.set(b.userId, { count: row.count + 1, minutes: row.minutes + ms });
+  });
+
+  Object.values(byReason).forEach(totals => { totals.minutes = minutes(totals.minutes); });
+  return {
+    byReason,
+    byUser: [...byUser.entries()]
+      .map(([userId, totals]) => ({
+        userId,
+        name: userId ? users.find(u => u.id === userId)?.name ?? t('common.deletedUser') : t('supervisor.noAdvisor'),
+        count: totals.count,
+        minutes: minutes(totals.minutes),
+      }))
+      .sort((a, b) => b.minutes - a.minutes),
+  };
+}
+
+// Relative change against the previous period, e.g. "+12% vs periodo ant."
+export function trendLabel(current: number, previous: number, locale: Locale = DEFAULT_LOCALE) {
+  const t = translator(locale);
+  if (!previous) return current ? t('trend.noPrevious') : t('trend.stable');
+  const change = Math.round(((current - previous) / previous) * 100);
+  if (change === 0) return t('trend.stable');
+  return t('trend.change', { change: `${change > 0 ? '+' : ''}${change}` });
+}
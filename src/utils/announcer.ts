@@ -0,0 +1,122 @@
+import { AnnouncementSettings, Locale } from '../types';
+import { translator } from './i18n';
+
+// "G012" is read as "G 12" so speech engines don't spell out the leading zeros.
+export function spokenTicket(displayId: string) {
+  const match = displayId.match(/^(\D*)(\d+)$/);
+  if (!match) return displayId;
+  return `${match[1].split('').join(' ')} ${Number(match[2])}`.trim();
+}
+
+// Voice language for each catalog when the configured one is for another language.
+const SPEECH_LANGS: Record<Locale, string> = { es: 'es-ES', en: 'en-US' };
+
+/** One spoken message. */
+export interface Utterance {
+  text: string;
+  locale: Locale;
+}
+
+// Without a counter name, e.g. for a removed counter, it is read by number.
+export const announcementText = (displayId: string, counterName: string | undefined, counterId: number | undefined, locale: Locale): Utterance => {
+  const t = translator(locale);
+  return {
+    text: t('tv.announcement', { ticket: spokenTicket(displayId), counter: counterName ?? t('common.counterNumber', { id: String(counterId ?? '') }) }),
+    locale,
+  };
+};
+
+/**
+ * Plays a chime followed by the spoken messages of every queued announcement, one at a time,
+ * so back-to-back calls never talk over each other.
+ */
+export class Announcer {
+  private queue: Utterance[][] = [];
+  private playing = false;
+  private audioContext: AudioContext | null = null;
+
+  constructor(private settings: AnnouncementSettings) {}
+
+  configure(settings: AnnouncementSettings) {
+    this.settings = settings;
+  }
+
+  // Browsers keep audio suspended until the page gets a user gesture.
+  get needsUnlock() {
+    return this.audioContext?.state === 'suspended';
+  }
+
+  async unlock() {
+    await this.context().resume();
+  }
+
+  // The messages are read in order after a single chime, e.g. the same call in each language.
+  announce(utterances: Utterance[]) {
+    if (!this.settings.enabled) return;
+    this.queue.push(utterances);
+    if (!this.playing) this.playNext();
+  }
+
+  clear() {
+    this.queue = [];
+    if (typeof speechSynthesis !== 'undefined') speechSynthesis.cancel();
+  }
+
+  private context() {
+    if (!this.audioContext) this.audioContext = new AudioContext();
+    return this.audioContext;
+  }
+
+  private async playNext() {
+    const utterances = this.queue.shift();
+    if (utterances === undefined) {
+      this.playing = false;
+      return;
+    }
+    this.playing = true;
+    try {
+      for (let i = 0; i < Math.max(this.settings.repeat, 1); i++) {
+        if (this.settings.chime) await this.chime();
+        for (const utterance of utterances) await this.speak(utterance);
+      }
+    } catch (err) {
+      console.error('Announcement failed', err);
+    }
+    this.playNext();
+  }
+
+  // Two-tone "ding-dong" synthesized with Web Audio, so no sound file has to be served.
+  private chime(): Promise<void> {
+    const ctx = this.context();
+    const start = ctx.currentTime;
+    [[880, 0], [660, 0.35]].forEach(([frequency, offset]) => {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = 'sine';
+      osc.frequency.value = frequency;
+      gain.gain.setValueAtTime(0, start + offset);
+      gain.gain.linearRampToValueAtTime(this.settings.volume, start + offset + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + offset + 0.8);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start(start + offset);
+      osc.stop(start + offset + 0.8);
+    });
+    return new Promise(resolve => setTimeout(resolve, 1200));
+  }
+
+  // The configured language and voice apply to messages in their language; others use a default voice.
+  private speak({ text, locale }: Utterance): Promise<void> {
+    if (typeof speechSynthesis === 'undefined') return Promise.resolve();
+    const configured = this.settings.lang.slice(0, 2).toLowerCase() === locale;
+    return new Promise(resolve => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = configured ? this.settings.lang : SPEECH_LANGS[locale];
+      utterance.volume = this.settings.volume;
+      const voice = configured && speechSynthesis.getVoices().find(v => v.voiceURI === this.settings.voiceURI);
+      if (voice) utterance.voice = voice;
+      utterance.onend = () => resolve();
+      utterance.onerror = () => resolve();
+      speechSynthesis.speak(utterance);
+    });
+  }
+}
@@ -0,0 +1,149 @@
+import { AnnouncementSettings, AppState, Appointment, AppointmentSettings, BreakReason, Category, Counter, DisplayProfile, Locale, PrintingSettings, QueueSettings, Role, ScheduleSettings, Session, StatePatch, SurveyResponse, TicketEvent, User } from '../types';
+import { ConfigBackup } from './exportImport';
+import { Insights, InsightsInput } from './insights';
+import { SimulationComparison, SimulationParams } from './simulator';
+
+// The session is missing or expired; the app goes back to the sign-in screen.
+export class AuthError extends Error {}
+
+async function request<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const res = await fetch(`/api${url}`, {
+    method,
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (res.status === 401) throw new AuthError(data.error || 'Inicie sesión para continuar');
+  if (!res.ok) throw new Error(data.error || `Error ${res.status}`);
+  return data as T;
+}
+
+export const login = (username: string, password: string) => request<Session>('POST', '/auth/login', { username, password });
+
+export const logout = () => request<void>('POST', '/auth/logout');
+
+export const fetchSession = () => request<Session>('GET', '/auth/me');
+
+// Advisors sign in at one counter; null signs them out of it.
+export const assignCounter = (counterId: number | null) => request<Session>('PUT', '/auth/counter', { counterId });
+
+export const fetchState = () => request<AppState>('GET', '/state');
+
+export const createTicket = (categoryId: string, locale?: Locale) => request<StatePatch>('POST', '/tickets', { categoryId, locale });
+
+export const bookAppointment = (appointment: Pick<Appointment, 'categoryId' | 'scheduledAt' | 'customerName'>) =>
+  request<StatePatch>('POST', '/appointments', appointment);
+
+export const cancelAppointment = (id: string) => request<StatePatch>('POST', `/appointments/${id}/cancel`);
+
+export const checkInAppointment = (code: string, locale?: Locale) =>
+  request<StatePatch>('POST', '/appointments/check-in', { code, locale });
+
+export const updateAppointmentSettings = (settings: AppointmentSettings) =>
+  request<StatePatch>('PUT', '/settings/appointments', settings);
+
+export const callNextTicket = (counterId: number) => request<StatePatch>('POST', `/counters/${counterId}/call`);
+
+export const recallTicket = (counterId: number) => request<StatePatch>('POST', `/counters/${counterId}/recall`);
+
+export const reinstateTicket = (ticketId: string) => request<StatePatch>('POST', `/tickets/${ticketId}/reinstate`);
+
+// A ticket's log, oldest first.
+export const fetchTicketEvents = (ticketId: string) => request<TicketEvent[]>('GET', `/tickets/${ticketId}/events`);
+
+// A branch's latest ticket events, newest first.
+export const fetchRecentTicketEvents = (branchId: string, limit = 50) =>
+  request<TicketEvent[]>('GET', `/ticket-events?branchId=${encodeURIComponent(branchId)}&limit=${limit}`);
+
+export const undoTicketEvent = (ticketId: string) => request<StatePatch>('POST', `/tickets/${ticketId}/undo`);
+
+export const submitSurvey = (ticketId: string, answer: Pick<SurveyResponse, 'rating' | 'reasons'>) =>
+  request<StatePatch>('POST', `/tickets/${ticketId}/survey`, answer);
+
+// From the public tracking page; needs no session.
+export const submitPublicSurvey = (ticketId: string, answer: Pick<SurveyResponse, 'rating' | 'reasons'>) =>
+  request<void>('POST', `/public/tickets/${encodeURIComponent(ticketId)}/survey`, answer);
+
+export const startServing = (counterId: number) => request<StatePatch>('POST', `/counters/${counterId}/start`);
+
+export const completeTicket = (counterId: number, status: 'completed' | 'no-show') =>
+  request<StatePatch>('POST', `/counters/${counterId}/complete`, { status });
+
+export const transferTicket = (counterId: number, target: { categoryId?: string; counterId?: number }) =>
+  request<StatePatch>('POST', `/counters/${counterId}/transfer`, target);
+
+export const startBreak = (counterId: number, reason: BreakReason) =>
+  request<StatePatch>('POST', `/counters/${counterId}/break`, { reason });
+
+export const endBreak = (counterId: number) => request<StatePatch>('POST', `/counters/${counterId}/resume`);
+
+export const addCounter = (counter: Pick<Counter, 'branchId' | 'name' | 'categoryIds'>) => request<StatePatch>('POST', '/counters', counter);
+
+export const updateCounter = (counterId: number, changes: Partial<Pick<Counter, 'name' | 'categoryIds'>>) =>
+  request<StatePatch>('PATCH', `/counters/${counterId}`, changes);
+
+export const removeCounter = (counterId: number) => request<StatePatch>('DELETE', `/counters/${counterId}`);
+
+export const addCategory = (category: Omit<Category, 'id'>) => request<StatePatch>('POST', '/categories', category);
+
+export const updateCategory = (id: string, changes: Partial<Pick<Category, 'priority' | 'maxWaitMinutes' | 'maxServiceMinutes' | 'translations'>>) =>
+  request<StatePatch>('PATCH', `/categories/${id}`, changes);
+
+export const removeCategory = (id: string) => request<StatePatch>('DELETE', `/categories/${id}`);
+
+export const addDisplayProfile = (profile: Omit<DisplayProfile, 'id'>) => request<StatePatch>('POST', '/display-profiles', profile);
+
+export const updateDisplayProfile = (id: string, profile: Omit<DisplayProfile, 'id' | 'branchId'>) =>
+  request<StatePatch>('PUT', `/display-profiles/${id}`, profile);
+
+export const removeDisplayProfile = (id: string) => request<StatePatch>('DELETE', `/display-profiles/${id}`);
+
+export const addBranch = (name: string, templateBranchId?: string) => request<StatePatch>('POST', '/branches', { name, templateBranchId });
+
+export const renameBranch = (id: string, name: string) => request<StatePatch>('PATCH', `/branches/${id}`, { name });
+
+export const removeBranch = (id: string) => request<StatePatch>('DELETE', `/branches/${id}`);
+
+export const copyCategories = (fromBranchId: string, toBranchId: string) =>
+  request<StatePatch>('POST', `/branches/${toBranchId}/categories/copy`, { fromBranchId });
+
+export const updateQueueSettings = (settings: QueueSettings) => request<StatePatch>('PUT', '/settings/queue', settings);
+
+export const updateAnnouncementSettings = (settings: AnnouncementSettings) =>
+  request<StatePatch>('PUT', '/settings/announcements', settings);
+
+export const updatePrintingSettings = (settings: PrintingSettings) => request<StatePatch>('PUT', '/settings/printing', settings);
+
+export const updateScheduleSettings = (settings: ScheduleSettings) => request<StatePatch>('PUT', '/settings/schedule', settings);
+
+export const closeBusinessDay = (branchId: string) => request<StatePatch>('POST', '/business-day/close', { branchId });
+
+export const reopenBusinessDay = (branchId: string) => request<StatePatch>('POST', '/business-day/reopen', { branchId });
+
+export const printTicket = (ticketId: string, locale?: Locale) =>
+  request<{ destination: string }>('POST', `/tickets/${ticketId}/print`, { locale });
+
+export const printTestTicket = () => request<{ destination: string }>('POST', '/printing/test');
+
+export const restoreConfig = (backup: ConfigBackup) => request<AppState>('PUT', '/config', backup);
+// Raw state saved in the browser by the first version; the server validates it.
+export const importLegacyState = (legacy: unknown) => request<AppState>('POST', '/config/legacy', legacy);
+
+export const generateSyntheticData = (branchId: string, params: SimulationParams) =>
+  request<AppState>('POST', '/tickets/synthetic', { ...params, branchId });
+
+export const runSimulation = (branchId: string, params: SimulationParams) =>
+  request<SimulationComparison>('POST', '/simulations', { ...params, branchId });
+
+export const generateInsights = (input: InsightsInput) => request<Insights>('POST', '/insights', input);
+
+// Wipes one branch's history; other branches are untouched.
+export const clearTickets = (branchId: string) =>
+  request<AppState>('DELETE', `/tickets?branchId=${encodeURIComponent(branchId)}`);
+
+// A null branchId leaves the user unbound.
+export const createUser = (user: { username: string; name: string; role: Role; password: string; branchId: string | null }) =>
+  request<StatePatch>('POST', '/users', user);
+
+export const updateUser = (id: string, changes: Partial<Pick<User, 'name' | 'role' | 'active'>> & { password?: string; branchId?: string | null }) =>
+  request<StatePatch>('PATCH', `/users/${id}`, changes);
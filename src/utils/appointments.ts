@@ -0,0 +1,85 @@
+import { addMinutes } from 'date-fns';
+import { Appointment, AppointmentSettings, AppointmentStatus, Locale, ScheduleSettings } from '../types';
+import { DEFAULT_LOCALE, MessageKey, formatDate, translator } from './i18n';
+import { atTime, hoursOn } from './schedule';
+
+export const APPOINTMENT_STATUS_LABEL_KEYS: Record<AppointmentStatus, MessageKey> = {
+  booked: 'appointmentStatus.booked',
+  'checked-in': 'appointmentStatus.checkedIn',
+  late: 'appointmentStatus.late',
+  missed: 'appointmentStatus.missed',
+  cancelled: 'appointmentStatus.cancelled',
+};
+
+// No 0/O or 1/I, so codes read back from paper or a phone are unambiguous.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 6;
+
+export const randomBookingCode = () =>
+  Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]).join('');
+
+export const normalizeBookingCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Appointments that still hold their slot.
+export const holdsSlot = (appointment: Appointment) => appointment.status !== 'cancelled';
+
+/** Start times of the bookable slots on the day of `day`, within that day's opening hours. */
+export function daySlots(schedule: ScheduleSettings, settings: AppointmentSettings, day: number): number[] {
+  const hours = hoursOn(schedule, day);
+  if (!hours) return [];
+  const close = atTime(day, hours.close);
+  const slots: number[] = [];
+  for (let slot = atTime(day, hours.open); addMinutes(slot, settings.slotMinutes).getTime() <= close; slot = addMinutes(slot, settings.slotMinutes).getTime()) {
+    slots.push(slot);
+  }
+  return slots;
+}
+
+export const bookedInSlot = (appointments: Appointment[], categoryId: string, slot: number) =>
+  appointments.filter(a => a.categoryId === categoryId && a.scheduledAt === slot && holdsSlot(a)).length;
+
+/** Why this appointment cannot be checked in right now, in the customer's language, or undefined when it can. */
+export function checkInBlock(appointment: Appointment, settings: AppointmentSettings, now = Date.now(), locale: Locale = DEFAULT_LOCALE): string | undefined {
+  const t = translator(locale);
+  if (appointment.status === 'cancelled') return t('kiosk.appointmentCancelled');
+  if (appointment.status === 'checked-in' || appointment.status === 'late') return t('kiosk.appointmentCheckedIn');
+  if (appointment.status === 'missed' || now > appointment.scheduledAt + settings.missedAfterMinutes * 60_000) {
+    return t('kiosk.appointmentExpired');
+  }
+  const opensAt = appointment.scheduledAt - settings.earlyCheckInMinutes * 60_000;
+  if (now < opensAt) {
+    return t('kiosk.appointmentTooEarly', {
+      date: formatDate(appointment.scheduledAt, 'dd/MM', locale),
+      time: formatDate(appointment.scheduledAt, 'HH:mm', locale),
+      opens: formatDate(opensAt, 'HH:mm', locale),
+    });
+  }
+  return undefined;
+}
+
+export const isLateCheckIn = (appointment: Appointment, settings: AppointmentSettings, now: number) =>
+  now > appointment.scheduledAt + settings.lateToleranceMinutes * 60_000;
+
+export interface AppointmentStats {
+  total: number;
+  byStatus: Record<AppointmentStatus, number>;
+  // Percentages of the appointments that were due (cancelled ones excluded).
+  lateRate: number;
+  missedRate: number;
+}
+
+// Appointments whose slot falls within [from, to).
+export function appointmentStats(appointments: Appointment[], from: number, to: number, categoryId: string | 'all' = 'all'): AppointmentStats {
+  const byStatus: Record<AppointmentStatus, number> = { booked: 0, 'checked-in': 0, late: 0, missed: 0, cancelled: 0 };
+  appointments
+    .filter(a => a.scheduledAt >= from && a.scheduledAt < to && (categoryId === 'all' || a.categoryId === categoryId))
+    .forEach(a => byStatus[a.status]++);
+  const due = byStatus['checked-in'] + byStatus.late + byStatus.missed;
+  const rate = (n: number) => (due ? Math.round((n / due) * 100) : 0);
+  return {
+    total: Object.values(byStatus).reduce((acc, n) => acc + n, 0),
+    byStatus,
+    lateRate: rate(byStatus.late),
+    missedRate: rate(byStatus.missed),
+  };
+}
@@ -0,0 +1,48 @@
+import { AppState, Branch, Category, Ticket, User } from '../types';
+import { Kpis, computeKpis } from './analytics';
+import { SlaCompliance, slaCompliance } from './sla';
+
+export interface BranchComparison {
+  branch: Branch;
+  kpis: Kpis;
+  sla: SlaCompliance;
+  counters: number;
+}
+
+/** Branch a user's screens work on: their own, else the one they picked while it still exists, else the first. */
+export function activeBranchId(state: AppState, user: User, picked?: string) {
+  if (user.branchId) return user.branchId;
+  return state.branches.some(b => b.id === picked) ? picked! : state.branches[0]?.id ?? '';
+}
+
+/** The part of the state one branch's screens work with. Branches, users and settings stay whole. */
+export function scopeToBranch(state: AppState, branchId: string): AppState {
+  const categories = state.categories.filter(c => c.branchId === branchId);
+  const counters = state.counters.filter(c => c.branchId === branchId);
+  const categoryIds = new Set(categories.map(c => c.id));
+  const counterIds = new Set(counters.map(c => c.id));
+  return {
+    ...state,
+    categories,
+    counters,
+    displayProfiles: state.displayProfiles.filter(p => p.branchId === branchId),
+    businessDays: state.businessDays.filter(d => d.branchId === branchId),
+    tickets: state.tickets.filter(t => t.branchId === branchId),
+    counterBreaks: state.counterBreaks.filter(b => counterIds.has(b.counterId)),
+    appointments: state.appointments.filter(a => categoryIds.has(a.categoryId)),
+    surveyResponses: state.surveyResponses.filter(r => r.branchId === branchId),
+  };
+}
+
+// Head-office view: the same indicators for every branch over the same tickets.
+export function branchComparison(state: Pick<AppState, 'branches' | 'counters'>, tickets: Ticket[], categories: Category[]): BranchComparison[] {
+  return state.branches.map(branch => {
+    const branchTickets = tickets.filter(t => t.branchId === branch.id);
+    return {
+      branch,
+      kpis: computeKpis(branchTickets),
+      sla: slaCompliance(branchTickets, categories),
+      counters: state.counters.filter(c => c.branchId === branch.id).length,
+    };
+  });
+}
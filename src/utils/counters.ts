@@ -0,0 +1,23 @@
+import { BreakReason, Counter, Ticket } from '../types';
+import { MessageKey } from './i18n';
+
+export const BREAK_REASON_LABEL_KEYS: Record<BreakReason, MessageKey> = {
+  lunch: 'break.lunch',
+  training: 'break.training',
+  backoffice: 'break.backoffice',
+};
+
+// Within the counter's own branch; counters never see another branch's queue.
+export const servesCategory = (counter: Counter, categoryId: string) =>
+  counter.categoryIds.length === 0 || counter.categoryIds.includes(categoryId);
+
+export const canCall = (counter: Counter, ticket: Ticket) =>
+  ticket.branchId === counter.branchId && (
+    ticket.targetCounterId !== undefined
+      ? ticket.targetCounterId === counter.id
+      : servesCategory(counter, ticket.categoryId)
+  );
+
+// Waiting tickets this counter is allowed to call.
+export const waitingTicketsFor = (counter: Counter, tickets: Ticket[]) =>
+  tickets.filter(t => t.status === 'waiting' && canCall(counter, t));
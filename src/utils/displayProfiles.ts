@@ -0,0 +1,94 @@
+import { Category, DisplayProfile, Ticket, TickerMessage } from '../types';
+import { businessDate } from './schedule';
+
+const DISPLAY_PATH = /^\/tv\/([\w-]+)\/?$/;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const VIDEO_PATTERN = /\.(mp4|webm|ogg)(\?.*)?$/i;
+export const MAX_HISTORY_ROWS = 10;
+
+// What a profile sets on the screen itself.
+export type DisplayLayout = Omit<DisplayProfile, 'id' | 'branchId' | 'name'>;
+
+// The built-in TV look, also used by screens opened without a profile.
+export const DEFAULT_DISPLAY_PROFILE: DisplayLayout = {
+  categoryIds: [],
+  counterIds: [],
+  tickerMessages: [],
+  historyRows: 5,
+  backgroundColor: '#0f172a',
+  accentColor: '#2563eb',
+  logoUrl: '',
+  mediaUrls: [],
+  slideSeconds: 10,
+};
+
+// Address a TV opens to show one profile.
+export const displayProfileUrl = (baseUrl: string, profileId: string) => `${baseUrl.replace(/\/+$/, '')}/tv/${profileId}`;
+
+// Profile id when the page was opened from a profile URL.
+export const displayProfileId = (pathname: string) => pathname.match(DISPLAY_PATH)?.[1];
+
+export const isVideoUrl = (url: string) => VIDEO_PATTERN.test(url);
+
+// Ticker lines whose dates include the day of `now`.
+export const currentTickerMessages = (messages: TickerMessage[], now = Date.now()) => {
+  const today = businessDate(now);
+  return messages.filter(m => (!m.from || m.from <= today) && (!m.to || today <= m.to)).map(m => m.text);
+};
+
+// Tickets and categories the profile shows; counters filter calls, categories filter both.
+export function displayedTickets(profile: Pick<DisplayProfile, 'categoryIds' | 'counterIds'>, tickets: Ticket[]) {
+  return tickets.filter(t =>
+    (!profile.categoryIds.length || profile.categoryIds.includes(t.categoryId))
+    && (!profile.counterIds.length || t.counterId === undefined || profile.counterIds.includes(t.counterId))
+  );
+}
+
+export const displayedCategories = (profile: Pick<DisplayProfile, 'categoryIds'>, categories: Category[]) =>
+  profile.categoryIds.length ? categories.filter(c => profile.categoryIds.includes(c.id)) : categories;
+
+const fail = (message: string): never => {
+  throw new Error(`Perfil de pantalla inválido: ${message}`);
+};
+
+const isMediaUrl = (url: string) => /^(https?:\/\/|\/)\S+$/.test(url);
+
+/** Check the editable fields of a display profile, as sent by the admin panel or found in a backup. */
+export function validateDisplayProfile(body: unknown): Omit<DisplayProfile, 'id' | 'branchId'> {
+  const p = { ...DEFAULT_DISPLAY_PROFILE, ...(typeof body === 'object' && body !== null ? body : {}) } as DisplayProfile;
+  if (typeof p.name !== 'string' || !p.name.trim()) fail('el nombre es obligatorio');
+  if (!Array.isArray(p.categoryIds) || p.categoryIds.some(id => typeof id !== 'string')) fail('categorías inválidas');
+  if (!Array.isArray(p.counterIds) || p.counterIds.some(id => !Number.isInteger(id))) fail('ventanillas inválidas');
+  if (!Array.isArray(p.tickerMessages)) fail('mensajes inválidos');
+  const tickerMessages = p.tickerMessages.map((m, i) => {
+    const { text, from, to } = (m ?? {}) as Partial<TickerMessage>;
+    if (typeof text !== 'string' || !text.trim()) fail(`el mensaje ${i + 1} está vacío`);
+    if ([from, to].some(date => date !== undefined && date !== '' && (typeof date !== 'string' || !DATE_PATTERN.test(date)))) {
+      fail(`las fechas del mensaje ${i + 1} deben ser AAAA-MM-DD`);
+    }
+    if (from && to && from > to) fail(`el mensaje ${i + 1} termina antes de empezar`);
+    return { text: text!.trim(), ...(from && { from }), ...(to && { to }) };
+  });
+  if (!Number.isInteger(p.historyRows) || p.historyRows < 0 || p.historyRows > MAX_HISTORY_ROWS) {
+    fail(`el historial debe tener entre 0 y ${MAX_HISTORY_ROWS} filas`);
+  }
+  if (!COLOR_PATTERN.test(p.backgroundColor) || !COLOR_PATTERN.test(p.accentColor)) fail('los colores deben ser #RRGGBB');
+  if (typeof p.logoUrl !== 'string' || (p.logoUrl.trim() && !isMediaUrl(p.logoUrl.trim()))) fail('el logo debe ser una dirección http(s) o una ruta /');
+  if (!Array.isArray(p.mediaUrls) || p.mediaUrls.some(url => typeof url !== 'string' || !isMediaUrl(url.trim()))) {
+    fail('los medios deben ser direcciones http(s) o rutas /');
+  }
+  if (!Number.isInteger(p.slideSeconds) || p.slideSeconds < 3 || p.slideSeconds > 600) fail('cada diapositiva debe durar entre 3 y 600 segundos');
+  return {
+    name: p.name.trim(),
+    categoryIds: [...new Set(p.categoryIds)],
+    counterIds: [...new Set(p.counterIds)],
+    tickerMessages,
+    historyRows: p.historyRows,
+    backgroundColor: p.backgroundColor.toLowerCase(),
+    accentColor: p.accentColor.toLowerCase(),
+    logoUrl: p.logoUrl.trim(),
+    mediaUrls: p.mediaUrls.map(url => url.trim()),
+    slideSeconds: p.slideSeconds,
+  };
+}
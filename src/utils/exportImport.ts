@@ -0,0 +1,247 @@
+import { format } from 'date-fns';
+import { AppSettings, Branch, Category, Counter, DisplayProfile, Ticket } from '../types';
+import { validateDisplayProfile } from './displayProfiles';
+import { isLocale } from './i18n';
+import { SLA_DEFAULTS } from './sla';
+import { firstCalledAt, legServiceTime, ticketLegs } from './ticketLegs';
+
+export const CONFIG_BACKUP_VERSION = 1;
+
+export interface ConfigBackup {
+  version: number;
+  exportedAt: number;
+  branches: Branch[];
+  categories: Category[];
+  counters: Pick<Counter, 'id' | 'branchId' | 'name' | 'categoryIds'>[];
+  nextTicketNumber: Record<string, number>;
+  settings?: Partial<AppSettings>;
+  // Missing in backups from before display profiles.
+  displayProfiles?: DisplayProfile[];
+}
+
+export interface TicketExportFilters {
+  from?: number;
+  // Exclusive end of the range.
+  to?: number;
+  categoryId?: string;
+  branchId?: string;
+}
+
+const readable = (time?: number) => (time !== undefined ? format(time, 'yyyy-MM-dd HH:mm:ss') : '');
+
+const minutes = (ms?: number) => (ms !== undefined ? Math.round(ms / 6000) / 10 : '');
+
+export function filterTicketsForExport(tickets: Ticket[], filters: TicketExportFilters) {
+  return tickets.filter(t =>
+    (filters.from === undefined || t.createdAt >= filters.from)
+    && (filters.to === undefined || t.createdAt < filters.to)
+    && (!filters.categoryId || t.categoryId === filters.categoryId)
+    && (!filters.branchId || t.branchId === filters.branchId)
+  );
+}
+
+// One flat row per ticket, with every timestamp both raw (epoch ms) and human-readable.
+export function ticketExportRows(tickets: Ticket[], categories: Category[], counters: Counter[], branches: Branch[]) {
+  return tickets.map(t => {
+    const calledAt = firstCalledAt(t);
+    const serviceMs = t.status === 'completed' ? ticketLegs(t).reduce((acc, leg) => acc + legServiceTime(leg), 0) : undefined;
+    return {
+      id: t.id,
+      displayId: t.displayId,
+      branchId: t.branchId,
+      branch: branches.find(b => b.id === t.branchId)?.name ?? '',
+      categoryId: t.categoryId,
+      category: categories.find(c => c.id === t.categoryId)?.name ?? '',
+      status: t.status,
+      counterId: t.counterId ?? '',
+      counter: counters.find(c => c.id === t.counterId)?.name ?? '',
+      createdAt: t.createdAt,
+      createdAtLocal: readable(t.createdAt),
+      calledAt: calledAt ?? '',
+      calledAtLocal: readable(calledAt),
+      startedAt: t.startedAt ?? '',
+      startedAtLocal: readable(t.startedAt),
+      completedAt: t.completedAt ?? '',
+      completedAtLocal: readable(t.completedAt),
+      waitMinutes: minutes(calledAt !== undefined ? calledAt - t.createdAt : undefined),
+      serviceMinutes: minutes(serviceMs),
+      transfers: t.transfers?.length ?? 0,
+    };
+  });
+}
+
+const csvField = (value: unknown) => {
+  const text = String(value ?? '');
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv(rows: Record<string, unknown>[]) {
+  if (rows.length === 0) return '';
+  const headers = Object.keys(rows[0]);
+  return [headers.join(','), ...rows.map(row => headers.map(h => csvField(row[h])).join(','))].join('\r\n');
+}
+
+// The BOM makes Excel open the file as UTF-8 so accents survive.
+export function downloadFile(filename: string, content: string, mime: string) {
+  const blob = new Blob([mime === 'text/csv' ? '\uFEFF' : '', content], { type: `${mime};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const fail = (message: string): never => {
+  throw new Error(`Respaldo inválido: ${message}`);
+};
+
+const DEFAULT_BRANCH_ID = '1';
+
+const isMinutes = (value: unknown) => Number.isInteger(value) && (value as number) >= 1;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Check an uploaded configuration backup, throwing an Error that names the first problem found. */
+export function validateConfigBackup(data: unknown): ConfigBackup {
+  if (!isObject(data)) fail('el archivo no contiene un objeto JSON');
+  const backup = data as Record<string, unknown>;
+  if (backup.version !== CONFIG_BACKUP_VERSION) fail(`versión ${String(backup.version)} no soportada`);
+  if (!Array.isArray(backup.categories) || backup.categories.length === 0) fail('debe incluir al menos una categoría');
+  if (!Array.isArray(backup.counters) || backup.counters.length === 0) fail('debe incluir al menos una ventanilla');
+  if (!isObject(backup.nextTicketNumber)) fail('falta nextTicketNumber');
+
+  // Backups from before branches put everything in the default branch
+  const rawBranches = backup.branches ?? [{ id: DEFAULT_BRANCH_ID, name: 'Sucursal Principal' }];
+  if (!Array.isArray(rawBranches) || rawBranches.length === 0) fail('debe incluir al menos una sucursal');
+  const branches = (rawBranches as unknown[]).map((b, i) => {
+    if (!isObject(b)) return fail(`sucursal ${i + 1} no es un objeto`);
+    if (typeof b.id !== 'string' || !b.id) fail(`sucursal ${i + 1} sin id`);
+    if (typeof b.name !== 'string' || !b.name) fail(`sucursal ${i + 1} sin nombre`);
+    return { id: b.id, name: b.name } as Branch;
+  });
+  const branchIds = new Set(branches.map(b => b.id));
+  if (branchIds.size !== branches.length) fail('hay sucursales con id repetido');
+  const branchOf = (item: Record<string, unknown>, label: string) => {
+    const branchId = item.branchId ?? DEFAULT_BRANCH_ID;
+    if (typeof branchId !== 'string' || !branchIds.has(branchId)) fail(`${label} pertenece a una sucursal inexistente`);
+    return branchId as string;
+  };
+
+  const categories = (backup.categories as unknown[]).map((c, i) => {
+    if (!isObject(c)) return fail(`categoría ${i + 1} no es un objeto`);
+    if (typeof c.id !== 'string' || !c.id) fail(`categoría ${i + 1} sin id`);
+    if (typeof c.name !== 'string' || !c.name) fail(`categoría ${i + 1} sin nombre`);
+    if (typeof c.prefix !== 'string' || !c.prefix) fail(`categoría "${c.name}" sin prefijo`);
+    if (typeof c.color !== 'string') fail(`categoría "${c.name}" sin color`);
+    const priority = c.priority ?? 1;
+    if (!Number.isInteger(priority) || (priority as number) < 1 || (priority as number) > 5) fail(`categoría "${c.name}" con prioridad inválida`);
+    // Backups from before service-level targets get the defaults
+    const maxWaitMinutes = c.maxWaitMinutes ?? SLA_DEFAULTS.maxWaitMinutes;
+    const maxServiceMinutes = c.maxServiceMinutes ?? SLA_DEFAULTS.maxServiceMinutes;
+    if (!isMinutes(maxWaitMinutes) || !isMinutes(maxServiceMinutes)) fail(`categoría "${c.name}" con metas de servicio inválidas`);
+    const branchId = branchOf(c, `categoría "${c.name}"`);
+    const translations = c.translations ?? undefined;
+    if (translations !== undefined && (!isObject(translations)
+      || Object.entries(translations).some(([locale, name]) => !isLocale(locale) || typeof name !== 'string'))) {
+      fail(`categoría "${c.name}" con traducciones inválidas`);
+    }
+    return { id: c.id, branchId, name: c.name, prefix: (c.prefix as string).toUpperCase(), color: c.color, priority, maxWaitMinutes, maxServiceMinutes, translations } as Category;
+  });
+  const categoryIds = new Set(categories.map(c => c.id));
+  if (categoryIds.size !== categories.length) fail('hay categorías con id repetido');
+
+  const counters = (backup.counters as unknown[]).map((c, i) => {
+    if (!isObject(c)) return fail(`ventanilla ${i + 1} no es un objeto`);
+    if (!Number.isInteger(c.id)) fail(`ventanilla ${i + 1} con id inválido`);
+    if (typeof c.name !== 'string' || !c.name) fail(`ventanilla ${c.id} sin nombre`);
+    const branchId = branchOf(c, `ventanilla "${c.name}"`);
+    const served = c.categoryIds ?? [];
+    if (!Array.isArray(served) || served.some(id => categories.find(cat => cat.id === id)?.branchId !== branchId)) {
+      fail(`ventanilla "${c.name}" atiende categorías inexistentes en su sucursal`);
+    }
+    return { id: c.id as number, branchId, name: c.name as string, categoryIds: served as string[] };
+  });
+  if (new Set(counters.map(c => c.id)).size !== counters.length) fail('hay ventanillas con id repetido');
+
+  const nextTicketNumber: Record<string, number> = {};
+  Object.entries(backup.nextTicketNumber as Record<string, unknown>).forEach(([id, value]) => {
+    if (!categoryIds.has(id)) return;
+    if (!Number.isInteger(value) || (value as number) < 1) fail(`numeración inválida para la categoría ${id}`);
+    nextTicketNumber[id] = value as number;
+  });
+
+  if (backup.settings !== undefined && !isObject(backup.settings)) fail('settings debe ser un objeto');
+
+  if (backup.displayProfiles !== undefined && !Array.isArray(backup.displayProfiles)) fail('displayProfiles debe ser una lista');
+  const displayProfiles = (backup.displayProfiles as unknown[] | undefined)?.map((p, i) => {
+    if (!isObject(p)) return fail(`perfil de pantalla ${i + 1} no es un objeto`);
+    if (typeof p.id !== 'string' || !p.id) fail(`perfil de pantalla ${i + 1} sin id`);
+    const branchId = branchOf(p, `perfil de pantalla "${String(p.name)}"`);
+    let profile: Omit<DisplayProfile, 'id' | 'branchId'>;
+    try {
+      profile = validateDisplayProfile(p);
+    } catch (err) {
+      return fail((err as Error).message);
+    }
+    if (profile.categoryIds.some(id => categories.find(c => c.id === id)?.branchId !== branchId)
+      || profile.counterIds.some(id => counters.find(c => c.id === id)?.branchId !== branchId)) {
+      fail(`perfil de pantalla "${profile.name}" muestra categorías o ventanillas de otra sucursal`);
+    }
+    return { ...profile, id: p.id as string, branchId };
+  });
+  if (displayProfiles && new Set(displayProfiles.map(p => p.id)).size !== displayProfiles.length) fail('hay perfiles de pantalla con id repetido');
+
+  return {
+    version: CONFIG_BACKUP_VERSION,
+    exportedAt: Number(backup.exportedAt) || Date.now(),
+    branches,
+    categories,
+    counters,
+    nextTicketNumber,
+    settings: backup.settings as Partial<AppSettings> | undefined,
+    displayProfiles,
+  };
+}
+
+// Browser storage key of the first version, which kept everything on the kiosk without a server.
+export const LEGACY_STORAGE_KEY = 'queuemaster_state';
+
+export interface LegacyImport {
+  config: ConfigBackup;
+  // Finished tickets only: the ones still open went stale with the old install.
+  tickets: Ticket[];
+}
+
+/** Check the state the first version saved in the browser, as a configuration plus its ticket history. */
+export function validateLegacyState(data: unknown): LegacyImport {
+  if (!isObject(data)) fail('los datos guardados no son un objeto JSON');
+  const legacy = data as Record<string, unknown>;
+  const config = validateConfigBackup({ ...legacy, version: CONFIG_BACKUP_VERSION, exportedAt: Date.now() });
+  if (!Array.isArray(legacy.tickets)) fail('faltan los turnos');
+  const categoryIds = new Set(config.categories.map(c => c.id));
+  const isTime = (value: unknown) => value === undefined || Number.isFinite(value);
+  const tickets = (legacy.tickets as unknown[]).flatMap((t, i): Ticket[] => {
+    if (!isObject(t)) return fail(`turno ${i + 1} no es un objeto`);
+    if (t.status !== 'completed' && t.status !== 'no-show') return [];
+    if (typeof t.id !== 'string' || typeof t.displayId !== 'string' || !categoryIds.has(t.categoryId as string)) fail(`turno ${i + 1} incompleto`);
+    if (!Number.isFinite(t.createdAt) || ![t.calledAt, t.startedAt, t.completedAt].every(isTime)
+      || (t.counterId !== undefined && !Number.isInteger(t.counterId))) {
+      fail(`turno ${String(t.displayId)} con fechas o ventanilla inválidas`);
+    }
+    return [{
+      id: t.id as string,
+      branchId: DEFAULT_BRANCH_ID,
+      displayId: t.displayId as string,
+      categoryId: t.categoryId as string,
+      status: t.status,
+      createdAt: t.createdAt as number,
+      calledAt: t.calledAt as number | undefined,
+      startedAt: t.startedAt as number | undefined,
+      completedAt: t.completedAt as number | undefined,
+      counterId: t.counterId as number | undefined,
+    }];
+  });
+  return { config, tickets };
+}
@@ -0,0 +1,114 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { Ticket } from '../types';
+import { legServiceTime, ticketLegs } from './ticketLegs';
+
+// Same-weekday history behind each forecast; older traffic says little about next week.
+export const FORECAST_HISTORY_WEEKS = 8;
+// Used until there is service history to measure.
+const DEFAULT_SERVICE_MINUTES = 5;
+const MAX_COUNTERS = 50;
+
+export interface HourlyStaffing {
+  hour: number;
+  // Expected arrivals in that hour.
+  arrivals: number;
+  // Open counters needed to meet the wait target, 0 when nobody is expected.
+  counters: number;
+  // Percent of customers expected to be called within the target with that many counters.
+  serviceLevel: number;
+}
+
+export interface StaffingPlan {
+  day: number;
+  serviceMinutes: number;
+  // Past same-weekday days the forecast was built from.
+  sampleDays: number;
+  hours: HourlyStaffing[];
+}
+
+/**
+ * Expected arrivals per hour (0-23) of `day`, from the same weekday in the previous weeks.
+ * Recent weeks weigh more, and days without any arrival (closed, holidays) are skipped.
+ */
+export function forecastArrivals(tickets: Ticket[], day: number, weeks = FORECAST_HISTORY_WEEKS) {
+  const byDate = new Map<string, number[]>();
+  tickets.forEach(t => {
+    const key = format(t.createdAt, 'yyyy-MM-dd');
+    const hours = byDate.get(key) ?? Array(24).fill(0);
+    hours[new Date(t.createdAt).getHours()]++;
+    byDate.set(key, hours);
+  });
+
+  const arrivals: number[] = Array(24).fill(0);
+  let weightSum = 0;
+  let sampleDays = 0;
+  for (let week = 1; week <= weeks; week++) {
+    const hours = byDate.get(format(addDays(startOfDay(day), -7 * week), 'yyyy-MM-dd'));
+    if (!hours) continue;
+    const weight = weeks - week + 1;
+    hours.forEach((count, hour) => { arrivals[hour] += count * weight; });
+    weightSum += weight;
+    sampleDays++;
+  }
+
+  return { arrivals: arrivals.map(sum => (weightSum ? sum / weightSum : 0)), sampleDays };
+}
+
+// Mean minutes per finished leg of service, over the tickets issued in [from, to).
+export function averageServiceMinutes(tickets: Ticket[], from: number, to: number) {
+  const times = tickets
+    .filter(t => t.createdAt >= from && t.createdAt < to)
+    .flatMap(ticketLegs)
+    .map(legServiceTime)
+    .filter(ms => ms > 0);
+  return times.length ? times.reduce((acc, ms) => acc + ms, 0) / times.length / 60_000 : DEFAULT_SERVICE_MINUTES;
+}
+
+/** Erlang C: probability that a customer has to wait, with `counters` open and `traffic` Erlangs of offered load. */
+export function erlangC(counters: number, traffic: number) {
+  if (traffic <= 0) return 0;
+  if (counters <= traffic) return 1;
+  // Erlang B by recurrence, which stays stable where the factorial formula overflows
+  let blocking = 1;
+  for (let k = 1; k <= counters; k++) blocking = (traffic * blocking) / (k + traffic * blocking);
+  return blocking / (1 - (traffic / counters) * (1 - blocking));
+}
+
+// Share (0-1) of customers called within `targetWaitMinutes`.
+export function serviceLevel(counters: number, traffic: number, serviceMinutes: number, targetWaitMinutes: number) {
+  if (traffic <= 0) return 1;
+  if (counters <= traffic) return 0;
+  return 1 - erlangC(counters, traffic) * Math.exp(-((counters - traffic) * targetWaitMinutes) / serviceMinutes);
+}
+
+/** Fewest open counters that call `targetPercent`% of customers within `targetWaitMinutes`. */
+export function requiredCounters(arrivalsPerHour: number, serviceMinutes: number, targetWaitMinutes: number, targetPercent: number) {
+  const traffic = (arrivalsPerHour * serviceMinutes) / 60;
+  if (traffic <= 0) return 0;
+  for (let counters = Math.max(1, Math.ceil(traffic)); counters < MAX_COUNTERS; counters++) {
+    if (serviceLevel(counters, traffic, serviceMinutes, targetWaitMinutes) * 100 >= targetPercent) return counters;
+  }
+  return MAX_COUNTERS;
+}
+
+// Hourly arrivals forecast for `day` and the counters each hour needs to meet the wait target.
+export function staffingPlan(tickets: Ticket[], day: number, targetWaitMinutes: number, targetPercent: number): StaffingPlan {
+  const { arrivals, sampleDays } = forecastArrivals(tickets, day);
+  const historyFrom = addDays(startOfDay(day), -7 * FORECAST_HISTORY_WEEKS).getTime();
+  const serviceMinutes = averageServiceMinutes(tickets, historyFrom, startOfDay(day).getTime());
+
+  return {
+    day: startOfDay(day).getTime(),
+    serviceMinutes: Math.round(serviceMinutes * 10) / 10,
+    sampleDays,
+    hours: arrivals.map((expected, hour) => {
+      const counters = requiredCounters(expected, serviceMinutes, targetWaitMinutes, targetPercent);
+      return {
+        hour,
+        arrivals: Math.round(expected * 10) / 10,
+        counters,
+        serviceLevel: Math.round(serviceLevel(counters, (expected * serviceMinutes) / 60, serviceMinutes, targetWaitMinutes) * 100),
+      };
+    }),
+  };
+}
@@ -0,0 +1,45 @@
+import { format } from 'date-fns';
+import { enUS, es as esLocale } from 'date-fns/locale';
+import { Category, Locale } from '../types';
+import { en } from '../locales/en';
+import { es } from '../locales/es';
+
+export type MessageKey = keyof typeof es;
+export type MessageParams = Record<string, string | number>;
+
+export const DEFAULT_LOCALE: Locale = 'es';
+export const LOCALES: Locale[] = ['es', 'en'];
+// Each language in its own words, for the language switches.
+export const LOCALE_NAMES: Record<Locale, string> = { es: 'Español', en: 'English' };
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { es, en };
+const DATE_LOCALES = { es: esLocale, en: enUS };
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+// First of the browser's preferred languages we have a catalog for.
+export function browserLocale(): Locale {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  return preferred.map(tag => tag.slice(0, 2).toLowerCase()).find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+export const formatNumber = (value: number, locale: Locale) => new Intl.NumberFormat(locale).format(value);
+
+export const formatDate = (time: number | Date, pattern: string, locale: Locale) =>
+  format(time, pattern, { locale: DATE_LOCALES[locale] });
+
+/** Message lookup for one locale. `{name}` placeholders take `params`; numbers are formatted for the locale. */
+export function translator(locale: Locale) {
+  const catalog = CATALOGS[locale];
+  return (key: MessageKey, params: MessageParams = {}) =>
+    catalog[key].replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? formatNumber(value, locale) : value;
+    });
+}
+
+export type Translate = ReturnType<typeof translator>;
+
+export const categoryName = (category: Pick<Category, 'name' | 'translations'>, locale: Locale) =>
+  category.translations?.[locale] || category.name;
@@ -0,0 +1,166 @@
+import { format } from 'date-fns';
+import { Category, Ticket } from '../types';
+import { AnalyticsFilters, Kpis, buildHeatmap, computeKpis, dailyVolume } from './analytics';
+import { DEFAULT_LOCALE, translator } from './i18n';
+import { WEEKDAY_KEYS } from './schedule';
+import { complianceByCategory } from './sla';
+
+// Aggregates sent to the insights provider: never individual tickets or people.
+export interface CategoryInsight {
+  name: string;
+  tickets: number;
+  tme: number;
+  tma: number;
+  abandonmentRate: number;
+  maxWaitMinutes: number;
+  // Percent called within the wait target, undefined when nobody was called.
+  slaCompliance?: number;
+}
+
+export interface PeakHour {
+  day: string;
+  hour: number;
+  // Average arrivals per occurrence of that weekday and hour, to one decimal.
+  arrivals: number;
+  avgWait?: number;
+}
+
+export interface InsightsInput {
+  from: string;
+  to: string;
+  kpis: Kpis;
+  // Same-length period right before, for trends.
+  previous: Kpis;
+  daily: { date: string; count: number }[];
+  categories: CategoryInsight[];
+  peakHours: PeakHour[];
+  slaTargetPercent: number;
+}
+
+export interface Insights {
+  // Provider that wrote the text, e.g. 'gemini' or 'mock'.
+  provider: string;
+  text: string;
+  generatedAt: number;
+}
+
+const PEAK_HOURS = 5;
+const MAX_DAYS = 400;
+const MAX_CATEGORIES = 100;
+
+/** Summarize the analytics selection for the insights provider. `tickets` are the filtered ones. */
+export function insightsInput(tickets: Ticket[], previous: Kpis, categories: Category[], filters: AnalyticsFilters, slaTargetPercent: number): InsightsInput {
+  const compliance = complianceByCategory(tickets, categories);
+  const peakHours = buildHeatmap(tickets, filters.from, filters.to)
+    .filter(cell => cell.arrivals > 0)
+    .sort((a, b) => b.arrivals - a.arrivals)
+    .slice(0, PEAK_HOURS)
+    .map(cell => ({ day: translator(DEFAULT_LOCALE)(WEEKDAY_KEYS[cell.day]), hour: cell.hour, arrivals: Math.round(cell.arrivals * 10) / 10, avgWait: cell.avgWait }));
+
+  return {
+    from: format(filters.from, 'dd/MM/yyyy'),
+    to: format(filters.to - 1, 'dd/MM/yyyy'),
+    kpis: computeKpis(tickets),
+    previous,
+    daily: dailyVolume(tickets, filters.from, filters.to),
+    categories: categories
+      .map((category, i) => {
+        const kpis = computeKpis(tickets.filter(t => t.categoryId === category.id));
+        return {
+          name: category.name,
+          tickets: kpis.total,
+          tme: kpis.tme,
+          tma: kpis.tma,
+          abandonmentRate: kpis.abandonmentRate,
+          maxWaitMinutes: category.maxWaitMinutes,
+          slaCompliance: compliance[i].wait,
+        };
+      })
+      .filter(c => c.tickets > 0),
+    peakHours,
+    slaTargetPercent,
+  };
+}
+
+const fail = (message: string): never => {
+  throw new Error(`Datos de análisis inválidos: ${message}`);
+};
+
+const isCount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const text = (value: unknown, field: string) => {
+  if (typeof value !== 'string' || !value.trim() || value.length > 100) fail(`${field} debe ser un texto de hasta 100 caracteres`);
+  return (value as string).trim();
+};
+
+const count = (value: unknown, field: string) => {
+  if (!isCount(value)) fail(`${field} debe ser un número no negativo`);
+  return value as number;
+};
+
+const kpis = (value: unknown, field: string): Kpis => {
+  const record = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const at = (key: keyof Kpis) => count(record[key], `${field}.${key}`);
+  return {
+    tme: at('tme'),
+    tma: at('tma'),
+    total: at('total'),
+    abandonmentRate: at('abandonmentRate'),
+    transferCount: at('transferCount'),
+    transferRate: at('transferRate'),
+    avgLeg: at('avgLeg'),
+  };
+};
+
+const list = (value: unknown, field: string, max: number) => {
+  if (!Array.isArray(value) || value.length > max) fail(`${field} debe ser una lista de hasta ${max} elementos`);
+  return (value as unknown[]).map(item => (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>);
+};
+
+const optionalCount = (value: unknown, field: string) => {
+  if (value !== undefined && !isCount(value)) fail(`${field} debe ser un número no negativo`);
+  return value as number | undefined;
+};
+
+/** Check an insights request and keep only the expected fields, so nothing else reaches the provider. */
+export function validateInsightsInput(body: unknown): InsightsInput {
+  const input = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  const target = input.slaTargetPercent;
+  if (!isCount(target) || (target as number) > 100) fail('la meta de nivel de servicio debe estar entre 0 y 100');
+
+  return {
+    from: text(input.from, 'from'),
+    to: text(input.to, 'to'),
+    kpis: kpis(input.kpis, 'kpis'),
+    previous: kpis(input.previous, 'previous'),
+    daily: list(input.daily, 'daily', MAX_DAYS).map(day => {
+      if (!isCount(day.count)) fail('cada día debe tener una cantidad de turnos');
+      return { date: text(day.date, 'daily.date'), count: day.count as number };
+    }),
+    categories: list(input.categories, 'categories', MAX_CATEGORIES).map(c => {
+      ['tickets', 'tme', 'tma', 'abandonmentRate', 'maxWaitMinutes'].forEach(key => {
+        if (!isCount(c[key])) fail(`categories.${key} debe ser un número no negativo`);
+      });
+      return {
+        name: text(c.name, 'categories.name'),
+        tickets: c.tickets as number,
+        tme: c.tme as number,
+        tma: c.tma as number,
+        abandonmentRate: c.abandonmentRate as number,
+        maxWaitMinutes: c.maxWaitMinutes as number,
+        slaCompliance: optionalCount(c.slaCompliance, 'categories.slaCompliance'),
+      };
+    }),
+    peakHours: list(input.peakHours, 'peakHours', 24 * 7).map(h => {
+      if (!Number.isInteger(h.hour) || (h.hour as number) < 0 || (h.hour as number) > 23) fail('peakHours.hour debe estar entre 0 y 23');
+      if (!isCount(h.arrivals)) fail('peakHours.arrivals debe ser un número no negativo');
+      return {
+        day: text(h.day, 'peakHours.day'),
+        hour: h.hour as number,
+        arrivals: h.arrivals as number,
+        avgWait: optionalCount(h.avgWait, 'peakHours.avgWait'),
+      };
+    }),
+    slaTargetPercent: target as number,
+  };
+}
@@ -0,0 +1,24 @@
+import { AppView, Role } from '../types';
+import { MessageKey } from './i18n';
+
+export const ROLE_LABEL_KEYS: Record<Role, MessageKey> = {
+  admin: 'role.admin',
+  supervisor: 'role.supervisor',
+  advisor: 'role.advisor',
+  kiosk: 'role.kiosk',
+  display: 'role.display',
+};
+
+// Views each role may open, the first one being where it lands after signing in.
+export const ROLE_VIEWS: Record<Role, AppView[]> = {
+  admin: ['admin', 'supervisor', 'advisor', 'appointments', 'analytics', 'kiosk', 'tv', 'survey'],
+  supervisor: ['supervisor', 'advisor', 'appointments', 'analytics', 'tv'],
+  advisor: ['advisor', 'appointments'],
+  kiosk: ['kiosk', 'survey'],
+  display: ['tv'],
+};
+
+// Unattended screens get no navigation, so customers cannot leave the view or sign the device out.
+export const isUnattended = (role: Role) => role === 'kiosk' || role === 'display';
+
+export const canOpenView = (role: Role, view: AppView) => ROLE_VIEWS[role].includes(view);
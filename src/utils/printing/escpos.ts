@@ -0,0 +1,83 @@
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Code page 850 covers Spanish accents; ESC t 2 selects it on Epson-compatible printers.
+const CP850: Record<string, number> = {
+  'á': 0xa0, 'é': 0x82, 'í': 0xa1, 'ó': 0xa2, 'ú': 0xa3, 'ñ': 0xa4, 'ü': 0x81,
+  'Á': 0xb5, 'É': 0x90, 'Í': 0xd6, 'Ó': 0xe0, 'Ú': 0xe9, 'Ñ': 0xa5, 'Ü': 0x9a,
+  '¿': 0xa8, '¡': 0xad, 'º': 0xa7, 'ª': 0xa6, '€': 0xd5,
+};
+
+export function encodeCp850(text: string): number[] {
+  return Array.from(text).map(ch => {
+    const code = ch.charCodeAt(0);
+    if (code < 0x80) return code;
+    return CP850[ch] ?? 0x3f;
+  });
+}
+
+/** Minimal ESC/POS command builder for 80 mm thermal receipt printers. */
+export class EscPosBuilder {
+  private bytes: number[] = [];
+
+  init() {
+    this.bytes.push(ESC, 0x40, ESC, 0x74, 2);
+    return this;
+  }
+
+  align(position: 'left' | 'center' | 'right') {
+    this.bytes.push(ESC, 0x61, { left: 0, center: 1, right: 2 }[position]);
+    return this;
+  }
+
+  bold(on: boolean) {
+    this.bytes.push(ESC, 0x45, on ? 1 : 0);
+    return this;
+  }
+
+  // Character magnification, 1 to 8 in each direction.
+  size(width: number, height = width) {
+    const clamp = (n: number) => Math.min(Math.max(Math.round(n), 1), 8) - 1;
+    this.bytes.push(GS, 0x21, (clamp(width) << 4) | clamp(height));
+    return this;
+  }
+
+  text(value: string) {
+    this.bytes.push(...encodeCp850(value));
+    return this;
+  }
+
+  line(value = '') {
+    return this.text(value).feed();
+  }
+
+  feed(lines = 1) {
+    for (let i = 0; i < lines; i++) this.bytes.push(LF);
+    return this;
+  }
+
+  // Native QR (GS ( k): the printer renders the symbol itself. Module size 1-16 dots.
+  qr(data: string, moduleSize = 6) {
+    const payload = encodeCp850(data);
+    const storeLength = payload.length + 3;
+    this.bytes.push(
+      GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+      GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, Math.min(Math.max(moduleSize, 1), 16),
+      GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,
+      GS, 0x28, 0x6b, storeLength & 0xff, storeLength >> 8, 0x31, 0x50, 0x30, ...payload,
+      GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30
+    );
+    return this;
+  }
+
+  // Feed past the tear bar and do a partial cut.
+  cut() {
+    this.bytes.push(GS, 0x56, 0x42, 0x03);
+    return this;
+  }
+
+  build() {
+    return Uint8Array.from(this.bytes);
+  }
+}
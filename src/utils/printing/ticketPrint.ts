@@ -0,0 +1,145 @@
+import { format } from 'date-fns';
+import QRCode from 'qrcode';
+import { Category, Locale, PrintingSettings, Ticket } from '../../types';
+import { DEFAULT_LOCALE, categoryName, translator } from '../i18n';
+import { SLA_DEFAULTS } from '../sla';
+import { ticketTrackingUrl } from '../ticketTracking';
+import { WaitEstimate } from '../waitEstimator';
+import { EscPosBuilder } from './escpos';
+
+export interface TicketPrintData {
+  // Language the customer picked at the kiosk.
+  locale: Locale;
+  branchName: string;
+  headerText: string;
+  footerText: string;
+  categoryName: string;
+  displayId: string;
+  issuedAt: number;
+  position?: number;
+  minutes?: number;
+  qrContent?: string;
+}
+
+// What goes on paper for a ticket, independent of the output format. The QR code opens the
+// ticket's tracking page under `baseUrl`.
+export function ticketPrintData(
+  ticket: Ticket,
+  category: Category | undefined,
+  settings: PrintingSettings,
+  baseUrl: string,
+  estimate?: WaitEstimate,
+  locale: Locale = DEFAULT_LOCALE
+): TicketPrintData {
+  return {
+    locale,
+    branchName: settings.branchName,
+    headerText: settings.headerText,
+    footerText: settings.footerText,
+    categoryName: category ? categoryName(category, locale) : '',
+    displayId: ticket.displayId,
+    issuedAt: ticket.createdAt,
+    position: settings.showEstimate ? estimate?.position : undefined,
+    minutes: settings.showEstimate ? estimate?.minutes : undefined,
+    qrContent: settings.showQr ? ticketTrackingUrl(baseUrl, ticket.id) : undefined,
+  };
+}
+
+// Fixed ticket used for the admin preview and for test prints.
+export function sampleTicketData(settings: PrintingSettings, baseUrl: string): TicketPrintData {
+  return ticketPrintData(
+    { id: 'prueba', branchId: '', displayId: 'G012', categoryId: '', status: 'waiting', createdAt: Date.now() },
+    { id: '', branchId: '', name: 'Prueba de impresión', prefix: 'G', color: '', priority: 1, ...SLA_DEFAULTS },
+    settings,
+    baseUrl,
+    { position: 4, ahead: 3, minutes: 12, activeCounters: 2 }
+  );
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+/** Standalone HTML document sized for 80 mm receipt paper. */
+export async function renderTicketHtml(data: TicketPrintData): Promise<string> {
+  const t = translator(data.locale);
+  const qr = data.qrContent ? await QRCode.toDataURL(data.qrContent, { margin: 0, width: 160 }) : undefined;
+  const estimate = data.position !== undefined
+    ? `<div class="estimate"><div><span>${t('common.position')}</span><strong>${t('common.ordinal', { n: data.position })}</strong></div><div><span>${t('print.approxWait')}</span><strong>${data.minutes} min</strong></div></div>`
+    : '';
+
+  return `<!doctype html>
+<html lang="${data.locale}">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(t('common.ticketNumber', { id: data.displayId }))}</title>
+<style>
+  @page { size: 80mm auto; margin: 4mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; width: 72mm; font-family: 'Helvetica Neue', Arial, sans-serif; color: #000; text-align: center; }
+  .branch { font-size: 14pt; font-weight: 800; text-transform: uppercase; }
+  .header { font-size: 10pt; margin-top: 1mm; }
+  .category { margin-top: 4mm; font-size: 11pt; font-weight: 700; text-transform: uppercase; letter-spacing: 0.1em; }
+  .number { font-size: 48pt; font-weight: 900; line-height: 1; margin: 2mm 0; }
+  .time { font-size: 9pt; }
+  .estimate { display: flex; justify-content: space-around; margin: 4mm 0; border-top: 1px dashed #000; border-bottom: 1px dashed #000; padding: 2mm 0; }
+  .estimate span { display: block; font-size: 8pt; text-transform: uppercase; }
+  .estimate strong { font-size: 14pt; }
+  .qr { width: 32mm; height: 32mm; margin: 2mm auto; display: block; }
+  .footer { font-size: 9pt; margin-top: 2mm; }
+</style>
+</head>
+<body>
+  <div class="branch">${escapeHtml(data.branchName)}</div>
+  ${data.headerText ? `<div class="header">${escapeHtml(data.headerText)}</div>` : ''}
+  <div class="category">${escapeHtml(data.categoryName)}</div>
+  <div class="number">${escapeHtml(data.displayId)}</div>
+  <div class="time">${format(data.issuedAt, 'dd/MM/yyyy HH:mm')}</div>
+  ${estimate}
+  ${qr ? `<img class="qr" src="${qr}" alt="" />` : ''}
+  ${data.footerText ? `<div class="footer">${escapeHtml(data.footerText)}</div>` : ''}
+</body>
+</html>`;
+}
+
+/** Raw ESC/POS job for thermal printers. */
+export function renderTicketEscPos(data: TicketPrintData): Uint8Array {
+  const t = translator(data.locale);
+  const job = new EscPosBuilder()
+    .init()
+    .align('center')
+    .bold(true).size(2, 1).line(data.branchName.toUpperCase()).size(1).bold(false);
+
+  if (data.headerText) job.line(data.headerText);
+
+  job.feed()
+    .bold(true).line(data.categoryName.toUpperCase()).bold(false)
+    .size(4).bold(true).line(data.displayId).bold(false).size(1)
+    .line(format(data.issuedAt, 'dd/MM/yyyy HH:mm'));
+
+  if (data.position !== undefined) {
+    job.line('--------------------------------')
+      .line(`${t('common.position')}: ${t('common.ordinal', { n: data.position })}   ${t('print.approxWait')}: ${data.minutes} min`)
+      .line('--------------------------------');
+  }
+
+  if (data.qrContent) job.feed().qr(data.qrContent).feed();
+  if (data.footerText) job.line(data.footerText);
+
+  return job.feed(3).cut().build();
+}
+
+// Print an HTML document through a hidden iframe so the kiosk page itself stays on screen.
+export function printHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+}
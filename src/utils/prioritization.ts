@@ -0,0 +1,89 @@
+import { Category, QueueSettings, Ticket } from '../types';
+import { MessageKey } from './i18n';
+
+export const QUEUE_POLICY_LABEL_KEYS: Record<QueueSettings['policy'], MessageKey> = {
+  strict: 'queuePolicy.strict',
+  weighted: 'queuePolicy.weighted',
+  aging: 'queuePolicy.aging',
+};
+
+const priorityOf = (categories: Category[], ticket: Ticket) =>
+  categories.find(c => c.id === ticket.categoryId)?.priority ?? 1;
+
+const oldestFirst = (a: Ticket, b: Ticket) => a.createdAt - b.createdAt;
+
+// Higher level first, then oldest. A steady stream of high-priority tickets starves the rest.
+function strictOrder(waiting: Ticket[], categories: Category[]): Ticket[] {
+  return [...waiting].sort((a, b) => priorityOf(categories, b) - priorityOf(categories, a) || oldestFirst(a, b));
+}
+
+// Waiting time adds one level per `agingMinutesPerLevel`, so old tickets eventually overtake.
+function agingOrder(waiting: Ticket[], categories: Category[], settings: QueueSettings, now: number): Ticket[] {
+  const perLevelMs = Math.max(settings.agingMinutesPerLevel, 1) * 60_000;
+  const score = (t: Ticket) => priorityOf(categories, t) + (now - t.createdAt) / perLevelMs;
+  return [...waiting].sort((a, b) => score(b) - score(a) || oldestFirst(a, b));
+}
+
+// Each category gets calls in proportion to its weight. The share already served is measured
+// over the most recent calls (one "round" = sum of the weights of categories with tickets waiting).
+function weightedOrder(waiting: Ticket[], categories: Category[], recentCalls: Ticket[]): Ticket[] {
+  const waitingCategoryIds = [...new Set(waiting.map(t => t.categoryId))];
+  const weightOf = (id: string) => Math.max(categories.find(c => c.id === id)?.priority ?? 1, 1);
+  const round = waitingCategoryIds.reduce((acc, id) => acc + weightOf(id), 0);
+
+  const served: Record<string, number> = {};
+  recentCalls.slice(0, Math.max(round - 1, 0)).forEach(t => {
+    served[t.categoryId] = (served[t.categoryId] || 0) + 1;
+  });
+
+  const oldestByCategory = (id: string) => waiting.filter(t => t.categoryId === id).sort(oldestFirst)[0];
+  const categoryOrder = waitingCategoryIds.sort((a, b) =>
+    ((served[a] || 0) + 1) / weightOf(a) - ((served[b] || 0) + 1) / weightOf(b)
+    || oldestFirst(oldestByCategory(a), oldestByCategory(b))
+  );
+
+  return [...waiting].sort((a, b) =>
+    categoryOrder.indexOf(a.categoryId) - categoryOrder.indexOf(b.categoryId) || oldestFirst(a, b)
+  );
+}
+
+function policyOrder(
+  waiting: Ticket[],
+  categories: Category[],
+  settings: QueueSettings,
+  recentCalls: Ticket[],
+  now: number
+): Ticket[] {
+  switch (settings.policy) {
+    case 'aging':
+      return agingOrder(waiting, categories, settings, now);
+    case 'weighted':
+      return weightedOrder(waiting, categories, recentCalls);
+    default:
+      return strictOrder(waiting, categories);
+  }
+}
+
+const bySlot = (a: Ticket, b: Ticket) => a.appointmentAt! - b.appointmentAt!;
+
+/**
+ * Order waiting tickets by who should be called next under the configured policy.
+ * Transferred tickets already waited once, so they go ahead of everyone else. Appointments
+ * whose slot has come go next, in slot order; those checked in early only get a counter
+ * before their slot when no walk-in is waiting.
+ * `recentCalls` are the latest called tickets, newest first (only used by round-robin).
+ */
+export function orderWaitingTickets(
+  waiting: Ticket[],
+  categories: Category[],
+  settings: QueueSettings,
+  recentCalls: Ticket[],
+  now = Date.now()
+): Ticket[] {
+  const transferred = waiting.filter(t => t.transfers?.length).sort(oldestFirst);
+  const rest = waiting.filter(t => !t.transfers?.length);
+  const due = rest.filter(t => t.appointmentAt !== undefined && t.appointmentAt <= now).sort(bySlot);
+  const early = rest.filter(t => t.appointmentAt !== undefined && t.appointmentAt > now).sort(bySlot);
+  const walkIns = rest.filter(t => t.appointmentAt === undefined);
+  return [...transferred, ...due, ...policyOrder(walkIns, categories, settings, recentCalls, now), ...early];
+}
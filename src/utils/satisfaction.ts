@@ -0,0 +1,135 @@
+import { format } from 'date-fns';
+import { Category, Counter, SurveyReason, SurveyResponse, Ticket } from '../types';
+import { daysInRange } from './analytics';
+import { MessageKey } from './i18n';
+import { firstCalledAt } from './ticketLegs';
+
+const SURVEY_PATH = /^\/survey\/(\d+)\/?$/;
+
+export const SURVEY_REASONS: SurveyReason[] = ['wait', 'staff', 'resolution', 'information', 'facilities'];
+
+export const SURVEY_REASON_KEYS: Record<SurveyReason, MessageKey> = {
+  wait: 'survey.reason.wait',
+  staff: 'survey.reason.staff',
+  resolution: 'survey.reason.resolution',
+  information: 'survey.reason.information',
+  facilities: 'survey.reason.facilities',
+};
+
+// How long after the service the customer can still answer, e.g. later from the ticket's QR page.
+export const SURVEY_WINDOW_MS = 24 * 3_600_000;
+// How long the counter tablet keeps asking about the service its counter just finished.
+export const SURVEY_PROMPT_MS = 3 * 60_000;
+
+// Address a counter-side tablet opens to ask that counter's customers.
+export const surveyUrl = (baseUrl: string, counterId: number) => `${baseUrl.replace(/\/+$/, '')}/survey/${counterId}`;
+
+// Counter id when the page was opened from a survey URL.
+export const surveyCounterId = (pathname: string) => {
+  const id = pathname.match(SURVEY_PATH)?.[1];
+  return id === undefined ? undefined : Number(id);
+};
+
+/** Whether a ticket's survey can still be answered; undefined when it does not apply or has closed. */
+export function surveyStatus(ticket: Ticket, answered: boolean, now = Date.now()): 'open' | 'answered' | undefined {
+  if (ticket.status !== 'completed') return undefined;
+  if (answered) return 'answered';
+  return now - (ticket.completedAt ?? 0) <= SURVEY_WINDOW_MS ? 'open' : undefined;
+}
+
+const fail = (message: string): never => {
+  throw new Error(`Encuesta inválida: ${message}`);
+};
+
+export function validateSurveyAnswer(body: unknown): Pick<SurveyResponse, 'rating' | 'reasons'> {
+  const { rating, reasons = [] } = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>;
+  if (!Number.isInteger(rating) || (rating as number) < 1 || (rating as number) > 5) fail('la calificación debe estar entre 1 y 5');
+  if (!Array.isArray(reasons) || reasons.some(r => !SURVEY_REASONS.includes(r))) fail('motivo desconocido');
+  return { rating: rating as number, reasons: [...new Set(reasons as SurveyReason[])] };
+}
+
+// --- Analytics ---
+
+export interface CsatSummary {
+  responses: number;
+  // Mean stars, undefined without responses.
+  average?: number;
+  // Percent of 4 and 5 star answers, undefined without responses.
+  csat?: number;
+}
+
+export function csatSummary(responses: SurveyResponse[]): CsatSummary {
+  if (responses.length === 0) return { responses: 0 };
+  const total = responses.reduce((acc, r) => acc + r.rating, 0);
+  return {
+    responses: responses.length,
+    average: Math.round((total / responses.length) * 10) / 10,
+    csat: Math.round((responses.filter(r => r.rating >= 4).length / responses.length) * 100),
+  };
+}
+
+export const csatByCategory = (responses: SurveyResponse[], categories: Category[]) =>
+  categories.map(category => ({ category, ...csatSummary(responses.filter(r => r.categoryId === category.id)) }));
+
+export const csatByCounter = (responses: SurveyResponse[], counters: Counter[]) =>
+  counters.map(counter => ({ counter, ...csatSummary(responses.filter(r => r.counterId === counter.id)) }));
+
+export function dailyCsat(responses: SurveyResponse[], from: number, to: number) {
+  const byDay = new Map<string, SurveyResponse[]>();
+  responses.forEach(r => {
+    const key = format(r.submittedAt, 'yyyy-MM-dd');
+    byDay.set(key, [...(byDay.get(key) ?? []), r]);
+  });
+  return daysInRange(from, to).map(d => {
+    const { csat, average } = csatSummary(byDay.get(format(d, 'yyyy-MM-dd')) ?? []);
+    return { date: format(d, 'dd/MM'), csat, average };
+  });
+}
+
+// Bands of wait until the first call, in minutes.
+export const WAIT_BANDS = [
+  { label: '0–5 min', max: 5 },
+  { label: '5–10 min', max: 10 },
+  { label: '10–20 min', max: 20 },
+  { label: '20+ min', max: Infinity },
+];
+
+// Each answer paired with how long that customer waited to be called.
+function ratedWaits(responses: SurveyResponse[], tickets: Ticket[]) {
+  const byId = new Map(tickets.map(t => [t.id, t]));
+  return responses.flatMap(r => {
+    const ticket = byId.get(r.ticketId);
+    const calledAt = ticket && firstCalledAt(ticket);
+    return calledAt === undefined ? [] : [{ response: r, waitMinutes: (calledAt - ticket!.createdAt) / 60_000 }];
+  });
+}
+
+export function csatByWait(responses: SurveyResponse[], tickets: Ticket[]) {
+  const rated = ratedWaits(responses, tickets);
+  return WAIT_BANDS.map((band, i) => {
+    const min = i === 0 ? -Infinity : WAIT_BANDS[i - 1].max;
+    return { band: band.label, ...csatSummary(rated.filter(w => w.waitMinutes >= min && w.waitMinutes < band.max).map(w => w.response)) };
+  });
+}
+
+/** Pearson correlation between wait and stars (-1 to 1), undefined with too few or uniform answers. */
+export function waitRatingCorrelation(responses: SurveyResponse[], tickets: Ticket[]) {
+  const pairs = ratedWaits(responses, tickets);
+  if (pairs.length < 3) return undefined;
+  const meanWait = pairs.reduce((acc, p) => acc + p.waitMinutes, 0) / pairs.length;
+  const meanRating = pairs.reduce((acc, p) => acc + p.response.rating, 0) / pairs.length;
+  let covariance = 0;
+  let waitVariance = 0;
+  let ratingVariance = 0;
+  pairs.forEach(p => {
+    covariance += (p.waitMinutes - meanWait) * (p.response.rating - meanRating);
+    waitVariance += (p.waitMinutes - meanWait) ** 2;
+    ratingVariance += (p.response.rating - meanRating) ** 2;
+  });
+  if (!waitVariance || !ratingVariance) return undefined;
+  return Math.round((covariance / Math.sqrt(waitVariance * ratingVariance)) * 100) / 100;
+}
+
+// How often each reason was pointed out, and the mean stars of the answers that did.
+export const reasonCounts = (responses: SurveyResponse[]) =>
+  SURVEY_REASONS.map(reason => ({ reason, ...csatSummary(responses.filter(r => r.reasons.includes(reason))) }));
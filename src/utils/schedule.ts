@@ -0,0 +1,71 @@
+import { addDays, format, startOfDay } from 'date-fns';
+import { BusinessDay, Locale, OpeningHours, ScheduleSettings } from '../types';
+import { DEFAULT_LOCALE, MessageKey, formatDate, translator } from './i18n';
+
+// Monday first, like weekdayIndex.
+export const WEEKDAY_KEYS: MessageKey[] = [
+  'weekday.monday', 'weekday.tuesday', 'weekday.wednesday', 'weekday.thursday', 'weekday.friday', 'weekday.saturday', 'weekday.sunday',
+];
+export const WEEKDAY_SHORT_KEYS: MessageKey[] = [
+  'weekday.short.monday', 'weekday.short.tuesday', 'weekday.short.wednesday', 'weekday.short.thursday',
+  'weekday.short.friday', 'weekday.short.saturday', 'weekday.short.sunday',
+];
+
+// Monday-first weekday index
+export const weekdayIndex = (time: number) => (new Date(time).getDay() + 6) % 7;
+
+// Calendar date of a business day, in server local time.
+export const businessDate = (time: number) => format(time, 'yyyy-MM-dd');
+
+// Epoch ms of 'HH:mm' on the day of `day`.
+export const atTime = (day: number, hhmm: string) => {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return startOfDay(day).getTime() + (hours * 60 + minutes) * 60_000;
+};
+
+/** Opening hours on the day of `time`, or null when closed that day (weekly rest or holiday). */
+export function hoursOn(schedule: ScheduleSettings, time: number): OpeningHours | null {
+  if (schedule.holidays.includes(businessDate(time))) return null;
+  return schedule.week[weekdayIndex(time)] ?? null;
+}
+
+// Epoch ms of today's closing time, undefined on closed days.
+export function closingTime(schedule: ScheduleSettings, time: number) {
+  const hours = hoursOn(schedule, time);
+  return hours ? atTime(time, hours.close) : undefined;
+}
+
+export function isOpenAt(schedule: ScheduleSettings, time: number) {
+  const hours = hoursOn(schedule, time);
+  return !!hours && time >= atTime(time, hours.open) && time < atTime(time, hours.close);
+}
+
+// Next opening time strictly after `time`, looking two weeks ahead.
+export function nextOpening(schedule: ScheduleSettings, time: number) {
+  for (let i = 0; i < 14; i++) {
+    const day = addDays(startOfDay(time), i).getTime();
+    const hours = hoursOn(schedule, day);
+    if (hours && atTime(day, hours.open) > time) return atTime(day, hours.open);
+  }
+  return undefined;
+}
+
+export const hoursLabel = (hours: OpeningHours | null, locale = DEFAULT_LOCALE) =>
+  (hours ? `${hours.open}–${hours.close}` : translator(locale)('schedule.closed'));
+
+const isClosedToday = (day: BusinessDay | null, now: number) =>
+  day?.date === businessDate(now) && day.closedAt !== undefined;
+
+/** Why the kiosk cannot issue a ticket right now, or undefined when it can. */
+export function ticketIssueBlock(schedule: ScheduleSettings, day: BusinessDay | null, now = Date.now(), locale: Locale = DEFAULT_LOCALE): string | undefined {
+  const t = translator(locale);
+  if (isClosedToday(day, now)) return t('schedule.dayClosed');
+  if (!schedule.enforceHours || isOpenAt(schedule, now)) return undefined;
+
+  const reopens = nextOpening(schedule, now);
+  if (reopens === undefined) return t('schedule.outsideHours');
+  const time = format(reopens, 'HH:mm');
+  return businessDate(reopens) === businessDate(now)
+    ? t('schedule.reopensToday', { time })
+    : t('schedule.reopensOn', { day: formatDate(reopens, 'EEEE dd/MM', locale), time });
+}
@@ -0,0 +1,264 @@
+import { addDays, startOfDay } from 'date-fns';
+import { Category, Counter, QueueSettings, ScheduleSettings, Ticket } from '../types';
+import { Kpis, computeKpis, daysInRange } from './analytics';
+import { waitingTicketsFor } from './counters';
+import { orderWaitingTickets } from './prioritization';
+import { atTime, hoursOn, weekdayIndex } from './schedule';
+import { SlaCompliance, slaCompliance } from './sla';
+
+export interface SimulationParams {
+  // Same seed and configuration, same tickets.
+  seed: number;
+  // Simulated days, ending yesterday.
+  days: number;
+  // Expected weekday arrivals in each hour of the day (0-23); only open hours are used.
+  hourlyArrivals: number[];
+  // Multiplier on the weekday rates for Saturdays and Sundays.
+  weekendFactor: number;
+  // Mean service time; individual services vary around it.
+  serviceMinutes: number;
+  // Share of called customers who never show up (0-1).
+  noShowRate: number;
+  // What-if: counters opened on top of the configured ones, serving every category.
+  extraCounters: number;
+}
+
+export const DEFAULT_SIMULATION_PARAMS: SimulationParams = {
+  seed: 1,
+  days: 180,
+  hourlyArrivals: [0, 0, 0, 0, 0, 0, 0, 0, 12, 18, 24, 24, 14, 12, 22, 22, 14, 8, 0, 0, 0, 0, 0, 0],
+  weekendFactor: 0.5,
+  serviceMinutes: 7,
+  noShowRate: 0.08,
+  extraCounters: 0,
+};
+
+export interface SimulationInput {
+  // Branch whose categories and counters are simulated; the tickets are issued there.
+  branchId: string;
+  categories: Category[];
+  counters: Counter[];
+  queue: QueueSettings;
+  schedule: ScheduleSettings;
+}
+
+export interface SimulationRun {
+  tickets: Ticket[];
+  counters: number;
+  // Percent of the counters' open time spent calling or serving.
+  utilization: number;
+}
+
+export interface SimulationSummary {
+  kpis: Kpis;
+  sla: SlaCompliance;
+  expired: number;
+  counters: number;
+  utilization: number;
+}
+
+export interface SimulationComparison {
+  baseline: SimulationSummary;
+  scenario: SimulationSummary;
+}
+
+// How long an advisor waits for a called customer before marking them absent.
+const NO_SHOW_WAIT_MS = 2 * 60_000;
+// Walk from the waiting area to the counter.
+const MAX_WALK_MS = 90_000;
+
+interface Arrival {
+  at: number;
+  categoryId: string;
+  serviceMs: number;
+  walkMs: number;
+  noShow: boolean;
+}
+
+// mulberry32: tiny and good enough to make runs repeatable from a seed.
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const exponential = (random: () => number, mean: number) => -Math.log(1 - random()) * mean;
+
+// Poisson arrivals at each hour's rate, within the day's opening hours. Every random draw of the
+// day happens here, so what-if runs with more counters see exactly the same customers.
+function dayArrivals(day: number, params: SimulationParams, input: SimulationInput, random: () => number): Arrival[] {
+  const hours = hoursOn(input.schedule, day);
+  if (!hours || input.categories.length === 0) return [];
+  const open = atTime(day, hours.open);
+  const close = atTime(day, hours.close);
+  const factor = weekdayIndex(day) >= 5 ? params.weekendFactor : 1;
+
+  const arrivals: Arrival[] = [];
+  for (let hour = 0; hour < 24; hour++) {
+    const rate = params.hourlyArrivals[hour] * factor;
+    const hourStart = startOfDay(day).getTime() + hour * 3_600_000;
+    const end = Math.min(hourStart + 3_600_000, close);
+    let at = Math.max(hourStart, open);
+    if (rate <= 0 || at >= end) continue;
+    for (at += exponential(random, 3_600_000 / rate); at < end; at += exponential(random, 3_600_000 / rate)) {
+      arrivals.push({
+        at: Math.round(at),
+        categoryId: input.categories[Math.floor(random() * input.categories.length)].id,
+        // Erlang-2: less spread than an exponential, closer to real counter work
+        serviceMs: Math.max(30_000, exponential(random, params.serviceMinutes * 30_000) + exponential(random, params.serviceMinutes * 30_000)),
+        walkMs: Math.round(random() * MAX_WALK_MS),
+        noShow: random() < params.noShowRate,
+      });
+    }
+  }
+  return arrivals;
+}
+
+// Run one day: free counters call the next ticket they may serve under the real queue rules,
+// and whoever is still waiting at closing time expires, as in the live close.
+function simulateDay(day: number, arrivals: Arrival[], counters: Counter[], input: SimulationInput, nextId: () => string) {
+  const hours = hoursOn(input.schedule, day)!;
+  const close = atTime(day, hours.close);
+  const numbers: Record<string, number> = {};
+  const prefixes = new Map(input.categories.map(c => [c.id, c.prefix]));
+  const round = input.categories.reduce((acc, c) => acc + Math.max(c.priority, 1), 0);
+
+  const done: Ticket[] = [];
+  let waiting: Ticket[] = [];
+  const arrivalOf = new Map<string, Arrival>();
+  const recentCalls: Ticket[] = [];
+  const busyUntil = new Map(counters.map(c => [c.id, atTime(day, hours.open)]));
+  let busyMs = 0;
+  let next = 0;
+  let now = atTime(day, hours.open);
+
+  while (now < close) {
+    while (next < arrivals.length && arrivals[next].at <= now) {
+      const arrival = arrivals[next++];
+      const number = numbers[arrival.categoryId] = (numbers[arrival.categoryId] ?? 0) + 1;
+      const ticket: Ticket = {
+        id: nextId(),
+        branchId: input.branchId,
+        displayId: `${prefixes.get(arrival.categoryId)}${String(number).padStart(3, '0')}`,
+        categoryId: arrival.categoryId,
+        status: 'waiting',
+        createdAt: arrival.at,
+      };
+      arrivalOf.set(ticket.id, arrival);
+      waiting.push(ticket);
+    }
+
+    counters.forEach(counter => {
+      if (busyUntil.get(counter.id)! > now) return;
+      const [ticket] = orderWaitingTickets(waitingTicketsFor(counter, waiting), input.categories, input.queue, recentCalls, now);
+      if (!ticket) return;
+      const arrival = arrivalOf.get(ticket.id)!;
+      const served: Ticket = arrival.noShow
+        ? { ...ticket, status: 'no-show', calledAt: now, completedAt: now + NO_SHOW_WAIT_MS, counterId: counter.id }
+        : {
+          ...ticket,
+          status: 'completed',
+          calledAt: now,
+          startedAt: now + arrival.walkMs,
+          completedAt: Math.round(now + arrival.walkMs + arrival.serviceMs),
+          counterId: counter.id,
+        };
+      waiting = waiting.filter(t => t.id !== ticket.id);
+      recentCalls.unshift(served);
+      recentCalls.length = Math.min(recentCalls.length, round);
+      busyUntil.set(counter.id, served.completedAt!);
+      busyMs += served.completedAt! - now;
+      done.push(served);
+    });
+
+    const nextArrival = arrivals[next]?.at ?? Infinity;
+    const nextFree = Math.min(...[...busyUntil.values()].filter(t => t > now));
+    now = Math.min(nextArrival, nextFree, close);
+  }
+
+  waiting.forEach(t => done.push({ ...t, status: 'expired', completedAt: close }));
+  return { tickets: done, busyMs, openMs: (close - atTime(day, hours.open)) * counters.length };
+}
+
+/** Every ticket a run with this seed generates for the branch has an id starting with this. */
+export const simulatedIdPrefix = (branchId: string, seed: number) => `sim-${branchId}-${seed}-`;
+
+/** Simulate `params.days` days of service with the given configuration, ending yesterday. */
+export function simulate(input: SimulationInput, params: SimulationParams, today = Date.now()): SimulationRun {
+  const random = seededRandom(params.seed);
+  const lastId = Math.max(0, ...input.counters.map(c => c.id));
+  const counters: Counter[] = [
+    ...input.counters,
+    ...Array.from({ length: params.extraCounters }, (_, i): Counter => ({
+      id: lastId + i + 1,
+      branchId: input.branchId,
+      name: `Ventanilla adicional ${i + 1}`,
+      status: 'idle',
+      categoryIds: [],
+    })),
+  ];
+
+  let sequence = 0;
+  const nextId = () => `${simulatedIdPrefix(input.branchId, params.seed)}${++sequence}`;
+  const to = startOfDay(today).getTime();
+  const tickets: Ticket[] = [];
+  let busyMs = 0;
+  let openMs = 0;
+
+  daysInRange(addDays(to, -params.days).getTime(), to).forEach(date => {
+    const day = date.getTime();
+    const arrivals = dayArrivals(day, params, input, random);
+    if (!hoursOn(input.schedule, day)) return;
+    const result = simulateDay(day, arrivals, counters, input, nextId);
+    tickets.push(...result.tickets);
+    busyMs += result.busyMs;
+    openMs += result.openMs;
+  });
+
+  return { tickets, counters: counters.length, utilization: openMs ? Math.round((busyMs / openMs) * 100) : 0 };
+}
+
+export function summarizeRun(run: SimulationRun, categories: Category[]): SimulationSummary {
+  return {
+    kpis: computeKpis(run.tickets),
+    sla: slaCompliance(run.tickets, categories),
+    expired: run.tickets.filter(t => t.status === 'expired').length,
+    counters: run.counters,
+    utilization: run.utilization,
+  };
+}
+
+const fail = (message: string): never => {
+  throw new Error(`Simulación inválida: ${message}`);
+};
+
+/** Fill in defaults and check the parameters of a simulation request. */
+export function validateSimulationParams(body: unknown): SimulationParams {
+  const params = { ...DEFAULT_SIMULATION_PARAMS, ...(typeof body === 'object' && body !== null ? body : {}) } as SimulationParams;
+  if (!Number.isInteger(params.seed)) fail('la semilla debe ser un número entero');
+  if (!Number.isInteger(params.days) || params.days < 1 || params.days > 366) fail('los días deben estar entre 1 y 366');
+  if (!Array.isArray(params.hourlyArrivals) || params.hourlyArrivals.length !== 24
+    || params.hourlyArrivals.some(rate => typeof rate !== 'number' || !(rate >= 0 && rate <= 500))) {
+    fail('se esperan 24 tasas de llegada por hora entre 0 y 500');
+  }
+  if (!(params.weekendFactor >= 0 && params.weekendFactor <= 5)) fail('el factor de fin de semana debe estar entre 0 y 5');
+  if (!(params.serviceMinutes > 0 && params.serviceMinutes <= 240)) fail('la atención media debe estar entre 0 y 240 minutos');
+  if (!(params.noShowRate >= 0 && params.noShowRate <= 1)) fail('la tasa de ausentes debe estar entre 0 y 1');
+  if (!Number.isInteger(params.extraCounters) || params.extraCounters < 0 || params.extraCounters > 20) {
+    fail('las ventanillas adicionales deben estar entre 0 y 20');
+  }
+  return {
+    seed: params.seed,
+    days: params.days,
+    hourlyArrivals: params.hourlyArrivals,
+    weekendFactor: params.weekendFactor,
+    serviceMinutes: params.serviceMinutes,
+    noShowRate: params.noShowRate,
+    extraCounters: params.extraCounters,
+  };
+}
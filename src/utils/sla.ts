@@ -0,0 +1,96 @@
+import { format } from 'date-fns';
+import { Category, Ticket } from '../types';
+import { daysInRange } from './analytics';
+import { firstCalledAt, legServiceTime, ticketLegs } from './ticketLegs';
+
+export type SlaStatus = 'ok' | 'at-risk' | 'breached';
+
+// Share of the limit after which a ticket is flagged as about to breach.
+const AT_RISK_SHARE = 0.8;
+
+export const SLA_DEFAULTS = { maxWaitMinutes: 15, maxServiceMinutes: 10 };
+
+export function slaStatus(elapsedMs: number, limitMinutes: number): SlaStatus {
+  const limitMs = limitMinutes * 60_000;
+  if (elapsedMs > limitMs) return 'breached';
+  return elapsedMs >= limitMs * AT_RISK_SHARE ? 'at-risk' : 'ok';
+}
+
+// Appointment customers who check in early only start waiting at their slot.
+const queuedAt = (ticket: Ticket) => Math.max(ticket.createdAt, ticket.appointmentAt ?? 0);
+
+// A transferred ticket waits again from the moment it was sent back to the queue.
+export const waitingSince = (ticket: Ticket) => ticket.transfers?.[ticket.transfers.length - 1]?.at ?? queuedAt(ticket);
+
+/** Live status of a ticket against its category's targets: the wait while queued, the service while being served. */
+export function ticketSlaStatus(ticket: Ticket, category: Category | undefined, now = Date.now()): SlaStatus {
+  if (!category) return 'ok';
+  if (ticket.status === 'waiting') return slaStatus(now - waitingSince(ticket), category.maxWaitMinutes);
+  if (ticket.status === 'serving' && ticket.startedAt !== undefined) return slaStatus(now - ticket.startedAt, category.maxServiceMinutes);
+  return 'ok';
+}
+
+export interface SlaCompliance {
+  // Percentages, undefined when nothing was measured.
+  wait?: number;
+  service?: number;
+  measured: number;
+}
+
+// The wait target is the one of the category the customer queued for, before any transfer.
+const originalCategoryId = (ticket: Ticket) => ticket.transfers?.[0]?.fromCategoryId ?? ticket.categoryId;
+
+const percent = (met: number, total: number) => (total ? Math.round((met / total) * 100) : undefined);
+
+// Met/total counts of the wait target (first call) and of the service target (every finished leg).
+function tally(tickets: Ticket[], categories: Category[]) {
+  const limits = new Map(categories.map(c => [c.id, c]));
+  let waitMet = 0, waitTotal = 0, serviceMet = 0, serviceTotal = 0;
+
+  tickets.forEach(t => {
+    const calledAt = firstCalledAt(t);
+    const firstCategory = limits.get(originalCategoryId(t));
+    if (firstCategory && calledAt !== undefined) {
+      waitTotal++;
+      if (calledAt - queuedAt(t) <= firstCategory.maxWaitMinutes * 60_000) waitMet++;
+    } else if (firstCategory && t.status === 'expired' && (t.completedAt ?? 0) - queuedAt(t) > firstCategory.maxWaitMinutes * 60_000) {
+      // Never called, and waited past the target before the day closed
+      waitTotal++;
+    }
+
+    ticketLegs(t).forEach((leg, i, legs) => {
+      const legCategory = limits.get(leg.categoryId);
+      if (!legCategory || leg.startedAt === undefined || leg.endedAt === undefined) return;
+      if (i === legs.length - 1 && t.status !== 'completed') return;
+      serviceTotal++;
+      if (legServiceTime(leg) <= legCategory.maxServiceMinutes * 60_000) serviceMet++;
+    });
+  });
+
+  return { waitMet, waitTotal, serviceMet, serviceTotal };
+}
+
+export function slaCompliance(tickets: Ticket[], categories: Category[]): SlaCompliance {
+  const { waitMet, waitTotal, serviceMet, serviceTotal } = tally(tickets, categories);
+  return { wait: percent(waitMet, waitTotal), service: percent(serviceMet, serviceTotal), measured: waitTotal };
+}
+
+export function complianceByCategory(tickets: Ticket[], categories: Category[]) {
+  return categories.map(category => ({
+    category,
+    ...slaCompliance(tickets.filter(t => originalCategoryId(t) === category.id), categories),
+  }));
+}
+
+export function dailyCompliance(tickets: Ticket[], categories: Category[], from: number, to: number) {
+  const byDay = new Map<string, Ticket[]>();
+  tickets.forEach(t => {
+    const key = format(t.createdAt, 'yyyy-MM-dd');
+    if (!byDay.has(key)) byDay.set(key, []);
+    byDay.get(key)!.push(t);
+  });
+  return daysInRange(from, to).map(d => {
+    const { wait, service } = slaCompliance(byDay.get(format(d, 'yyyy-MM-dd')) ?? [], categories);
+    return { date: format(d, 'dd/MM'), wait, service };
+  });
+}
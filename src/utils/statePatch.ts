@@ -0,0 +1,33 @@
+import { AppState, StatePatch } from '../types';
+
+// Replace items by id and append the ones not yet known.
+function upsert<T extends { id: string | number }>(list: T[], updates?: T[]): T[] {
+  if (!updates?.length) return list;
+  const byId = new Map(updates.map(u => [u.id, u]));
+  const merged = list.map(item => byId.get(item.id) ?? item);
+  const known = new Set(list.map(item => item.id));
+  return [...merged, ...updates.filter(u => !known.has(u.id))];
+}
+
+export function applyPatch(state: AppState, patch: StatePatch): AppState {
+  const removedBranches = new Set(patch.removedBranchIds ?? []);
+  const removed = new Set(patch.removedCategoryIds ?? []);
+  const removedCounters = new Set(patch.removedCounterIds ?? []);
+  const removedProfiles = new Set(patch.removedDisplayProfileIds ?? []);
+  return {
+    ...state,
+    branches: upsert(state.branches, patch.branches).filter(b => !removedBranches.has(b.id)),
+    categories: upsert(state.categories, patch.categories).filter(c => !removed.has(c.id)),
+    counters: upsert(state.counters, patch.counters).filter(c => !removedCounters.has(c.id)),
+    displayProfiles: upsert(state.displayProfiles, patch.displayProfiles).filter(p => !removedProfiles.has(p.id)),
+    tickets: upsert(state.tickets, patch.tickets),
+    nextTicketNumber: { ...state.nextTicketNumber, ...patch.nextTicketNumber },
+    settings: patch.settings ?? state.settings,
+    // One per branch, the last one given winning
+    businessDays: [...new Map([...state.businessDays, ...(patch.businessDays ?? [])].map(d => [d.branchId, d])).values()],
+    users: upsert(state.users, patch.users),
+    counterBreaks: upsert(state.counterBreaks, patch.counterBreaks),
+    appointments: upsert(state.appointments, patch.appointments),
+    surveyResponses: upsert(state.surveyResponses, patch.surveyResponses),
+  };
+}
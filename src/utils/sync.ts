@@ -0,0 +1,49 @@
+import { SyncMessage } from '../types';
+
+const MAX_RETRY_MS = 30_000;
+
+interface SyncHandlers<T> {
+  onMessage: (message: T) => void;
+  // Called on every (re)connection so the caller can refetch what it missed while offline.
+  onConnect: () => void;
+  onDisconnect: () => void;
+}
+
+// Subscribe to a server event stream, reconnecting with backoff if the browser gives up.
+export function connectToServer<T = SyncMessage>({ onMessage, onConnect, onDisconnect }: SyncHandlers<T>, url = '/api/events'): () => void {
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let retryMs = 1000;
+  let closed = false;
+
+  const open = () => {
+    source = new EventSource(url);
+
+    source.onopen = () => {
+      retryMs = 1000;
+      onConnect();
+    };
+
+    source.onmessage = e => {
+      onMessage(JSON.parse(e.data));
+    };
+
+    source.onerror = () => {
+      onDisconnect();
+      // EventSource retries transient drops by itself; only a closed stream needs a manual restart.
+      if (source?.readyState === EventSource.CLOSED && !closed) {
+        source.close();
+        retryTimer = setTimeout(open, retryMs);
+        retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+      }
+    };
+  };
+
+  open();
+
+  return () => {
+    closed = true;
+    clearTimeout(retryTimer);
+    source?.close();
+  };
+}
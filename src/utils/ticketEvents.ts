@@ -0,0 +1,35 @@
+import { TicketEvent, TicketEventType } from '../types';
+import { MessageKey } from './i18n';
+
+export const TICKET_EVENT_LABEL_KEYS: Record<TicketEventType, MessageKey> = {
+  issued: 'ticketEvent.issued',
+  called: 'ticketEvent.called',
+  recalled: 'ticketEvent.recalled',
+  started: 'ticketEvent.started',
+  transferred: 'ticketEvent.transferred',
+  completed: 'ticketEvent.completed',
+  'no-show': 'ticketEvent.noShow',
+  reinstated: 'ticketEvent.reinstated',
+  expired: 'ticketEvent.expired',
+  edited: 'ticketEvent.edited',
+};
+
+// Counter actions a supervisor may revert. Issuing, expiring and corrections stay.
+export const UNDOABLE_EVENTS: TicketEventType[] = ['called', 'recalled', 'started', 'transferred', 'completed', 'no-show', 'reinstated'];
+
+/**
+ * The event an undo would revert, from a ticket's events oldest first: the latest one that is
+ * neither an undo nor already undone. Undoing repeatedly walks back through the ticket's history.
+ */
+export function undoCandidate(events: TicketEvent[]): TicketEvent | undefined {
+  const undone = new Set<string>();
+  for (let i = events.length - 1; i >= 0; i--) {
+    const event = events[i];
+    if (event.undoes) undone.add(event.undoes);
+    else if (!undone.has(event.id)) return event;
+  }
+  return undefined;
+}
+
+export const isUndoable = (event: TicketEvent | undefined): event is TicketEvent =>
+  !!event && UNDOABLE_EVENTS.includes(event.type);
@@ -0,0 +1,41 @@
+import { Ticket, TicketActors } from '../types';
+
+export interface TicketLeg {
+  categoryId: string;
+  counterId?: number;
+  calledAt?: number;
+  startedAt?: number;
+  endedAt?: number;
+  // Advisor who served the leg, or who called it when it never started.
+  userId?: string;
+}
+
+const legUser = (actors?: TicketActors) => actors?.startedBy ?? actors?.calledBy;
+
+// Every stretch of service at one counter, including the current one.
+export function ticketLegs(ticket: Ticket): TicketLeg[] {
+  const previous = (ticket.transfers ?? []).map(tr => ({
+    categoryId: tr.fromCategoryId,
+    counterId: tr.fromCounterId,
+    calledAt: tr.calledAt,
+    startedAt: tr.startedAt,
+    endedAt: tr.at,
+    userId: legUser(tr.actors),
+  }));
+  return [...previous, {
+    categoryId: ticket.categoryId,
+    counterId: ticket.counterId,
+    calledAt: ticket.calledAt,
+    startedAt: ticket.startedAt,
+    endedAt: ticket.completedAt,
+    userId: legUser(ticket.actors),
+  }];
+}
+
+// The customer's real wait ends at the first call, not at the call after a transfer.
+export const firstCalledAt = (ticket: Ticket) => ticket.transfers?.[0]?.calledAt ?? ticket.calledAt;
+
+export const legServiceTime = (leg: TicketLeg) =>
+  leg.endedAt !== undefined && (leg.startedAt ?? leg.calledAt) !== undefined
+    ? leg.endedAt - (leg.startedAt ?? leg.calledAt)!
+    : 0;
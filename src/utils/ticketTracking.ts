@@ -0,0 +1,44 @@
+import { AppState, Ticket, TicketTracking } from '../types';
+import { surveyStatus } from './satisfaction';
+import { WaitHistory, estimateWait } from './waitEstimator';
+
+const TRACKING_PATH = /^\/t\/([\w-]+)\/?$/;
+
+// Address printed in the ticket QR code.
+export const ticketTrackingUrl = (baseUrl: string, ticketId: string) => `${baseUrl.replace(/\/+$/, '')}/t/${ticketId}`;
+
+// Ticket id when the page was opened from a tracking URL.
+export const trackedTicketId = (pathname: string) => pathname.match(TRACKING_PATH)?.[1];
+
+/**
+ * Public view of a ticket. `state` needs the ticket's branch queue: its waiting tickets and latest calls,
+ * counters, categories and settings.
+ */
+export function trackTicket(
+  ticket: Ticket,
+  state: Pick<AppState, 'tickets' | 'counters' | 'categories' | 'settings'>,
+  history: WaitHistory,
+  answered: boolean,
+  now = Date.now()
+): TicketTracking {
+  const category = state.categories.find(c => c.id === ticket.categoryId);
+  const tracking: TicketTracking = {
+    displayId: ticket.displayId,
+    categoryName: category?.name ?? '',
+    categoryTranslations: category?.translations,
+    categoryColor: category?.color ?? '#64748b',
+    status: ticket.status,
+  };
+
+  if (ticket.status === 'waiting') {
+    const estimate = estimateWait(history, state, ticket.categoryId, ticket.id, now);
+    tracking.ahead = estimate.ahead;
+    tracking.estimatedMinutes = estimate.minutes;
+  } else if (ticket.status === 'calling' || ticket.status === 'serving') {
+    tracking.counterName = state.counters.find(c => c.id === ticket.counterId)?.name;
+    tracking.calledAt = ticket.recalledAt ?? ticket.calledAt;
+  } else {
+    tracking.survey = surveyStatus(ticket, answered, now);
+  }
+  return tracking;
+}
@@ -0,0 +1,106 @@
+import { AppState, Ticket } from '../types';
+import { servesCategory } from './counters';
+import { orderWaitingTickets } from './prioritization';
+import { firstCalledAt, legServiceTime, ticketLegs } from './ticketLegs';
+
+// How far back the history reaches.
+export const HISTORY_DAYS = 56;
+const MIN_SAMPLES = 5;
+const DEFAULT_SERVICE_MINUTES = 5;
+
+interface Sample {
+  sum: number;
+  count: number;
+}
+
+export interface WaitHistory {
+  // Observed wait (first call minus arrival) keyed by `${categoryId}:${hourOfDay}`.
+  waitByCategoryHour: Record<string, Sample>;
+  // Observed service time per category, over all hours.
+  serviceByCategory: Record<string, Sample>;
+}
+
+export interface WaitEstimate {
+  // 1-based place in line, counting only tickets that compete for the same counters.
+  position: number;
+  ahead: number;
+  minutes: number;
+  activeCounters: number;
+}
+
+const add = (samples: Record<string, Sample>, key: string, value: number) => {
+  const sample = samples[key] ?? (samples[key] = { sum: 0, count: 0 });
+  sample.sum += value;
+  sample.count++;
+};
+
+const average = (sample?: Sample) => (sample && sample.count >= MIN_SAMPLES ? sample.sum / sample.count : undefined);
+
+export function buildWaitHistory(tickets: Ticket[], now = Date.now()): WaitHistory {
+  const since = now - HISTORY_DAYS * 24 * 60 * 60 * 1000;
+  const history: WaitHistory = { waitByCategoryHour: {}, serviceByCategory: {} };
+
+  tickets.forEach(t => {
+    if (t.createdAt < since) return;
+    const calledAt = firstCalledAt(t);
+    if (calledAt !== undefined) {
+      add(history.waitByCategoryHour, `${t.categoryId}:${new Date(t.createdAt).getHours()}`, calledAt - t.createdAt);
+    }
+    if (t.status === 'completed') {
+      ticketLegs(t).forEach(leg => {
+        const time = legServiceTime(leg);
+        if (time > 0) add(history.serviceByCategory, leg.categoryId, time);
+      });
+    }
+  });
+
+  return history;
+}
+
+/**
+ * Expected wait for a waiting ticket, or for a ticket that would be issued now in `categoryId`
+ * when `ticketId` is omitted. Combines the queue ahead (served by the open counters at the
+ * category's usual service time) with what customers historically waited at this hour;
+ * with both available the two are averaged. Nobody ahead means the next free counter calls it.
+ */
+export function estimateWait(
+  history: WaitHistory,
+  state: Pick<AppState, 'tickets' | 'counters' | 'categories' | 'settings'>,
+  categoryId: string,
+  ticketId?: string,
+  now = Date.now()
+): WaitEstimate {
+  const branchId = state.categories.find(c => c.id === categoryId)?.branchId ?? '';
+  const branchTickets = state.tickets.filter(t => t.branchId === branchId);
+  const eligibleCounters = state.counters.filter(c => c.branchId === branchId && servesCategory(c, categoryId));
+  const activeCounters = eligibleCounters.filter(c => c.status !== 'away').length;
+
+  // Only tickets that some counter of this category could also take compete for the same desks.
+  const competing = branchTickets.filter(t =>
+    t.status === 'waiting' && (t.id === ticketId || eligibleCounters.some(c => servesCategory(c, t.categoryId)))
+  );
+  const subject: Ticket = competing.find(t => t.id === ticketId)
+    ?? { id: '__estimate__', branchId, displayId: '', categoryId, status: 'waiting', createdAt: now };
+  const queue = competing.some(t => t.id === subject.id) ? competing : [...competing, subject];
+
+  const recentCalls = branchTickets
+    .filter(t => t.calledAt !== undefined)
+    .sort((a, b) => b.calledAt! - a.calledAt!)
+    .slice(0, 20);
+  const ordered = orderWaitingTickets(queue, state.categories, state.settings.queue, recentCalls, now);
+  const ahead = ordered.findIndex(t => t.id === subject.id);
+
+  const serviceMs = average(history.serviceByCategory[categoryId]) ?? DEFAULT_SERVICE_MINUTES * 60_000;
+  const queueMs = (ahead * serviceMs) / Math.max(activeCounters, 1);
+  // History is a total wait, so time already spent in line counts against it
+  const historicalMs = average(history.waitByCategoryHour[`${categoryId}:${new Date(subject.createdAt).getHours()}`]);
+  const historicalRemainingMs = historicalMs !== undefined ? Math.max(historicalMs - (now - subject.createdAt), 0) : undefined;
+  const estimateMs = historicalRemainingMs !== undefined && ahead > 0 ? (queueMs + historicalRemainingMs) / 2 : queueMs;
+
+  return {
+    position: ahead + 1,
+    ahead,
+    minutes: Math.round(estimateMs / 60_000),
+    activeCounters,
+  };
+}